@@ -0,0 +1,94 @@
+/**
+ * Benchmark: database round trips per channel sync.
+ *
+ * Runs SyncService.applyVideos against a Supabase client whose fetch is
+ * replaced by an in-memory PostgREST responder, counting every request.
+ * The previous per-video pipeline did a select on youtube_videos, a select
+ * on the latest youtube_video_stats, a stats insert and a video update per
+ * known video (two round trips per new video), which is reported alongside.
+ *
+ * Usage: npm run bench:sync -- [videoCount] [newVideoCount]
+ */
+import { createClient } from '@supabase/supabase-js';
+
+// The services read config at import time; no real backend is contacted
+process.env.SUPABASE_URL ??= 'http://bench.local';
+process.env.SUPABASE_ANON_KEY ??= 'bench';
+process.env.SUPABASE_SERVICE_ROLE_KEY ??= 'bench';
+process.env.YOUTUBE_API_KEY ??= 'bench';
+process.env.OPENAI_API_KEY ??= 'bench';
+
+const { SyncService } = await import('../src/services/sync.service.js');
+const { YouTubeService } = await import('../src/services/youtube.service.js');
+
+const videoCount = parseInt(process.argv[2] || '300');
+const newVideoCount = Math.min(parseInt(process.argv[3] || '50'), videoCount);
+const channelId = 'UCbenchmark';
+
+const apiVideos = Array.from({ length: videoCount }, (_, i) => ({
+  id: `video${i}`,
+  snippet: {
+    title: `Benchmark short ${i}`,
+    publishedAt: new Date(Date.now() - i * 86400000).toISOString(),
+    categoryId: '22',
+    thumbnails: {},
+  },
+  statistics: { viewCount: String(1000 + i), likeCount: '10', commentCount: '2', favoriteCount: '0' },
+  contentDetails: { duration: 'PT45S' },
+}));
+
+// Every video except the newest newVideoCount is already stored
+const storedVideos = new Map(
+  apiVideos.slice(newVideoCount).map((video) => [
+    video.id,
+    { video_id: video.id, view_count: 900, like_count: 8, comment_count: 1, sync_count: 3, first_synced_at: '2024-01-01T00:00:00Z' },
+  ])
+);
+
+const requests: Record<string, number> = {};
+
+const fakeFetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+  const url = new URL(input.toString());
+  const table = url.pathname.replace('/rest/v1/', '');
+  const method = init?.method || 'GET';
+  const key = `${method} ${table}`;
+  requests[key] = (requests[key] || 0) + 1;
+
+  let body: any[] = [];
+  if (method === 'GET') {
+    const ids = (url.searchParams.get('video_id') || '').replace(/^in\.\(|\)$/g, '').split(',');
+    if (table === 'youtube_videos') {
+      body = ids.filter((id) => storedVideos.has(id)).map((id) => storedVideos.get(id));
+    } else if (table === 'youtube_video_latest_stats') {
+      body = ids
+        .filter((id) => storedVideos.has(id))
+        .map((id) => ({ video_id: id, view_count: 800, like_count: 6, comment_count: 1, recorded_at: '2024-06-01T00:00:00Z' }));
+    }
+  }
+
+  return new Response(JSON.stringify(body), {
+    status: method === 'GET' ? 200 : 201,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
+
+const db = createClient('http://bench.local', 'bench', {
+  auth: { persistSession: false },
+  global: { fetch: fakeFetch },
+});
+
+const service = new SyncService(new YouTubeService(), db);
+const started = performance.now();
+const result = await service.applyVideos(channelId, 'Benchmark Channel', apiVideos);
+const elapsedMs = performance.now() - started;
+
+const batchedRoundTrips = Object.values(requests).reduce((sum, n) => sum + n, 0);
+const knownCount = videoCount - newVideoCount;
+const perVideoRoundTrips = knownCount * 4 + newVideoCount * 2;
+
+console.log(`Videos: ${videoCount} (${knownCount} known, ${newVideoCount} new)`);
+console.log('Result:', result);
+console.log('Requests by type:', requests);
+console.log(`Per-video pipeline round trips: ${perVideoRoundTrips}`);
+console.log(`Batched pipeline round trips:   ${batchedRoundTrips}`);
+console.log(`Reduction: ${(perVideoRoundTrips / batchedRoundTrips).toFixed(1)}x (${elapsedMs.toFixed(0)}ms in-process)`);
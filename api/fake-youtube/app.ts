@@ -0,0 +1,145 @@
+import express, { Express, Request, Response } from 'express';
+import { FixtureSet, uploadsPlaylistId } from './fixtures.js';
+
+const MAX_RESULTS_LIMIT = 50;
+
+/**
+ * Pick the requested `part`s of a resource, like the real API does
+ */
+const withParts = (resource: any, part: unknown) => {
+  const parts = String(part || '').split(',').map((p) => p.trim()).filter(Boolean);
+  const picked: any = { kind: resource.kind, etag: resource.etag, id: resource.id };
+  for (const p of parts) {
+    if (resource[p] !== undefined) picked[p] = resource[p];
+  }
+  return picked;
+};
+
+/**
+ * Slice items into a page using numeric page tokens
+ */
+const paginate = (req: Request, items: any[], kind: string) => {
+  const maxResults = Math.min(parseInt(String(req.query.maxResults || '5')) || 5, MAX_RESULTS_LIMIT);
+  const offset = parseInt(String(req.query.pageToken || '0')) || 0;
+  const pageItems = items.slice(offset, offset + maxResults);
+  const nextOffset = offset + maxResults;
+
+  return {
+    kind,
+    ...(nextOffset < items.length && { nextPageToken: String(nextOffset) }),
+    pageInfo: { totalResults: items.length, resultsPerPage: maxResults },
+    items: pageItems,
+  };
+};
+
+const apiError = (res: Response, code: number, reason: string, message: string) => {
+  res.status(code).json({ error: { code, message, errors: [{ reason, message }] } });
+};
+
+const idList = (value: unknown): string[] =>
+  String(value || '').split(',').map((id) => id.trim()).filter(Boolean);
+
+const newestFirst = (a: any, b: any) =>
+  new Date(b.snippet?.publishedAt || 0).getTime() - new Date(a.snippet?.publishedAt || 0).getTime();
+
+/**
+ * The fake API as an Express app serving a fixture set: list endpoints under
+ * /youtube/v3 and caption tracks under /api/timedtext. server.ts runs it on a
+ * port; tests can listen on any free one.
+ */
+export const createFakeYouTubeApp = (fixtures: FixtureSet): Express => {
+  const app = express();
+  const router = express.Router();
+
+  // Every call needs a key, as with the real API (any value is accepted)
+  router.use((req, res, next) => {
+    if (!req.query.key) {
+      apiError(res, 403, 'forbidden', 'The request is missing a valid API key.');
+      return;
+    }
+    next();
+  });
+
+  router.get('/channels', (req, res) => {
+    const ids = idList(req.query.id);
+    const items = fixtures.channels
+      .filter((channel) => ids.includes(channel.id))
+      .map((channel) => withParts(channel, req.query.part));
+
+    res.json({ kind: 'youtube#channelListResponse', pageInfo: { totalResults: items.length }, items });
+  });
+
+  router.get('/videos', (req, res) => {
+    const ids = idList(req.query.id);
+    const items = fixtures.videos
+      .filter((video) => ids.includes(video.id))
+      .map((video) => withParts(video, req.query.part));
+
+    res.json({ kind: 'youtube#videoListResponse', pageInfo: { totalResults: items.length }, items });
+  });
+
+  router.get('/search', (req, res) => {
+    const { channelId } = req.query;
+    const videos = fixtures.videos
+      .filter((video) => !channelId || video.snippet?.channelId === channelId)
+      .sort(newestFirst)
+      .map((video) => ({
+        kind: 'youtube#searchResult',
+        id: { kind: 'youtube#video', videoId: video.id },
+        snippet: video.snippet,
+      }));
+
+    res.json(paginate(req, videos, 'youtube#searchListResponse'));
+  });
+
+  router.get('/playlistItems', (req, res) => {
+    const playlistId = String(req.query.playlistId || '');
+    const channel = fixtures.channels.find((c) => uploadsPlaylistId(c.id) === playlistId);
+
+    if (!channel) {
+      apiError(res, 404, 'playlistNotFound', `Playlist ${playlistId} not found.`);
+      return;
+    }
+
+    const items = fixtures.videos
+      .filter((video) => video.snippet?.channelId === channel.id)
+      .sort(newestFirst)
+      .map((video, position) => ({
+        kind: 'youtube#playlistItem',
+        id: `${playlistId}.${video.id}`,
+        snippet: { ...video.snippet, playlistId, position, resourceId: { kind: 'youtube#video', videoId: video.id } },
+        contentDetails: { videoId: video.id, videoPublishedAt: video.snippet?.publishedAt },
+      }));
+
+    res.json(paginate(req, items, 'youtube#playlistItemListResponse'));
+  });
+
+  router.get('/commentThreads', (req, res) => {
+    const videoId = String(req.query.videoId || '');
+
+    if (!fixtures.videos.some((video) => video.id === videoId)) {
+      apiError(res, 404, 'videoNotFound', `Video ${videoId} not found.`);
+      return;
+    }
+
+    const threads = [...(fixtures.commentThreads[videoId] || [])];
+    if (req.query.order === 'time' || !req.query.order) {
+      threads.sort((a, b) =>
+        new Date(b.snippet?.topLevelComment?.snippet?.publishedAt || 0).getTime() -
+        new Date(a.snippet?.topLevelComment?.snippet?.publishedAt || 0).getTime()
+      );
+    }
+
+    res.json(paginate(req, threads, 'youtube#commentThreadListResponse'));
+  });
+
+  app.use('/youtube/v3', router);
+
+  // Like the real timedtext endpoint, a missing track is an empty 200 response
+  app.get('/api/timedtext', (req, res) => {
+    const track = fixtures.captions[String(req.query.v || '')]?.[String(req.query.lang || 'en')];
+    res.type('text/vtt').send(track || '');
+  });
+
+  return app;
+};
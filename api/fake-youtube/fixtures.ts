@@ -0,0 +1,59 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+/**
+ * A fixture set is a directory of YouTube Data API resources, stored exactly
+ * as the API returns them:
+ *   channels.json        channel resources (snippet, contentDetails, statistics)
+ *   videos.json          video resources (snippet, contentDetails, statistics, ...)
+ *   commentThreads.json  { [videoId]: commentThread resources }
+ *   captions.json        { [videoId]: { [language]: WebVTT document } }
+ * Uploads playlists and search results are derived from videos.json.
+ */
+export interface FixtureSet {
+  channels: any[];
+  videos: any[];
+  commentThreads: Record<string, any[]>;
+  captions: Record<string, Record<string, string>>;
+}
+
+export const FIXTURES_ROOT = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+const FILES = {
+  channels: 'channels.json',
+  videos: 'videos.json',
+  commentThreads: 'commentThreads.json',
+  captions: 'captions.json',
+} as const;
+
+/**
+ * Resolve a fixture set name (a directory under fixtures/) or a path
+ */
+export const resolveFixtureDir = (nameOrPath: string): string =>
+  fs.existsSync(nameOrPath) ? path.resolve(nameOrPath) : path.join(FIXTURES_ROOT, nameOrPath);
+
+const readJson = <T>(dir: string, file: string, fallback: T): T => {
+  const filePath = path.join(dir, file);
+  if (!fs.existsSync(filePath)) return fallback;
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+};
+
+export const loadFixtures = (dir: string): FixtureSet => ({
+  channels: readJson(dir, FILES.channels, []),
+  videos: readJson(dir, FILES.videos, []),
+  commentThreads: readJson(dir, FILES.commentThreads, {}),
+  captions: readJson(dir, FILES.captions, {}),
+});
+
+export const saveFixtures = (dir: string, fixtures: FixtureSet): void => {
+  fs.mkdirSync(dir, { recursive: true });
+  for (const [key, file] of Object.entries(FILES)) {
+    fs.writeFileSync(path.join(dir, file), JSON.stringify(fixtures[key as keyof FixtureSet], null, 2) + '\n');
+  }
+};
+
+/**
+ * YouTube derives a channel's uploads playlist id by swapping the UC prefix for UU
+ */
+export const uploadsPlaylistId = (channelId: string): string => `UU${channelId.slice(2)}`;
@@ -0,0 +1,104 @@
+/**
+ * Record a fixture set for the fake YouTube server from the real API.
+ *
+ *   npm run fake-youtube:record -- <channelId> [fixtureSet] [maxVideos] [maxCommentsPerVideo]
+ *
+ * Fetches the channel, walks its uploads playlist (up to maxVideos, default 200),
+ * fetches full video resources and the newest comment threads for each video
+ * (default 20), then merges them into fake-youtube/fixtures/<fixtureSet>.
+ * Uses YOUTUBE_API_KEY from api/.env. Costs roughly 1 quota unit per 50 videos
+ * plus 1 per video for comments.
+ */
+import axios from 'axios';
+import dotenv from 'dotenv';
+import { loadFixtures, saveFixtures, resolveFixtureDir, uploadsPlaylistId } from './fixtures.js';
+
+dotenv.config();
+
+const REAL_API_BASE = 'https://www.googleapis.com/youtube/v3';
+
+const [channelId, fixtureSet = 'default', maxVideosArg = '200', maxCommentsArg = '20'] = process.argv.slice(2);
+const apiKey = process.env.YOUTUBE_API_KEY;
+
+if (!channelId || !apiKey) {
+  console.error('Usage: npm run fake-youtube:record -- <channelId> [fixtureSet] [maxVideos] [maxCommentsPerVideo]');
+  console.error('YOUTUBE_API_KEY must be set in api/.env');
+  process.exit(1);
+}
+
+const maxVideos = parseInt(maxVideosArg);
+const maxComments = parseInt(maxCommentsArg);
+
+const get = async (endpoint: string, params: Record<string, any>) => {
+  const response = await axios.get(`${REAL_API_BASE}/${endpoint}`, { params: { ...params, key: apiKey } });
+  return response.data;
+};
+
+const fixtureDir = resolveFixtureDir(fixtureSet);
+const fixtures = loadFixtures(fixtureDir);
+
+console.log(`Recording channel ${channelId} into ${fixtureDir}`);
+
+const channelData = await get('channels', { part: 'snippet,contentDetails,statistics', id: channelId });
+const channel = channelData.items?.[0];
+if (!channel) {
+  console.error(`Channel ${channelId} not found`);
+  process.exit(1);
+}
+
+// Walk the uploads playlist
+const videoIds: string[] = [];
+let pageToken: string | undefined;
+do {
+  const page = await get('playlistItems', {
+    part: 'contentDetails',
+    playlistId: channel.contentDetails?.relatedPlaylists?.uploads || uploadsPlaylistId(channelId),
+    maxResults: 50,
+    pageToken,
+  });
+  videoIds.push(...(page.items || []).map((item: any) => item.contentDetails.videoId));
+  pageToken = page.nextPageToken;
+} while (pageToken && videoIds.length < maxVideos);
+
+const recordedIds = videoIds.slice(0, maxVideos);
+console.log(`Found ${recordedIds.length} uploads`);
+
+// Full video resources, 50 at a time
+const videos: any[] = [];
+for (let i = 0; i < recordedIds.length; i += 50) {
+  const page = await get('videos', {
+    part: 'snippet,statistics,contentDetails,liveStreamingDetails,status',
+    id: recordedIds.slice(i, i + 50).join(','),
+  });
+  videos.push(...(page.items || []));
+}
+
+// Newest comment threads per video (comments may be disabled)
+const commentThreads: Record<string, any[]> = {};
+if (maxComments > 0) {
+  for (const video of videos) {
+    try {
+      const page = await get('commentThreads', {
+        part: 'snippet',
+        videoId: video.id,
+        maxResults: Math.min(maxComments, 100),
+        order: 'time',
+      });
+      commentThreads[video.id] = page.items || [];
+    } catch (error: any) {
+      console.warn(`Skipping comments for ${video.id}: ${error.response?.data?.error?.message || error.message}`);
+    }
+  }
+}
+
+// Merge into the existing fixture set, replacing anything with the same id
+const recordedVideoIds = new Set(videos.map((video) => video.id));
+saveFixtures(fixtureDir, {
+  channels: [...fixtures.channels.filter((c) => c.id !== channel.id), channel],
+  videos: [...fixtures.videos.filter((v) => !recordedVideoIds.has(v.id)), ...videos],
+  commentThreads: { ...fixtures.commentThreads, ...commentThreads },
+  // Caption tracks can't be downloaded with an API key; add them to captions.json by hand
+  captions: fixtures.captions,
+});
+
+console.log(`Saved ${videos.length} videos and comments for ${Object.keys(commentThreads).length} videos`);
@@ -0,0 +1,27 @@
+/**
+ * Local stand-in for the YouTube Data API v3, serving a fixture set.
+ *
+ * Implements the list endpoints the API uses (channels, search, videos,
+ * playlistItems, commentThreads) with id filtering and pagination, so the
+ * whole retrieve flow runs without network access or a real key. Caption
+ * tracks are served from a timedtext-style endpoint:
+ *
+ *   npm run fake-youtube -- [fixtureSet]      (default: "default")
+ *   YOUTUBE_API_BASE=http://localhost:4010/youtube/v3 \
+ *   YOUTUBE_CAPTIONS_BASE=http://localhost:4010/api/timedtext npm run dev
+ *
+ * Env: FAKE_YOUTUBE_PORT (default 4010)
+ */
+import { loadFixtures, resolveFixtureDir } from './fixtures.js';
+import { createFakeYouTubeApp } from './app.js';
+
+const fixtureDir = resolveFixtureDir(process.argv[2] || 'default');
+const fixtures = loadFixtures(fixtureDir);
+const port = parseInt(process.env.FAKE_YOUTUBE_PORT || '4010');
+
+createFakeYouTubeApp(fixtures).listen(port, () => {
+  console.log(`📼 Fake YouTube API serving ${fixtureDir}`);
+  console.log(`   YOUTUBE_API_BASE=http://localhost:${port}/youtube/v3`);
+  console.log(`   YOUTUBE_CAPTIONS_BASE=http://localhost:${port}/api/timedtext`);
+  console.log(`   ${fixtures.channels.length} channel(s), ${fixtures.videos.length} video(s)`);
+});
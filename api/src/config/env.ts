@@ -10,7 +10,22 @@ const envSchema = z.object({
   SUPABASE_ANON_KEY: z.string().min(1),
   SUPABASE_SERVICE_ROLE_KEY: z.string().min(1), // Required for server-side operations
   YOUTUBE_API_KEY: z.string().min(1), // YouTube Data API v3 key
-  OPENAI_API_KEY: z.string().min(1), // OpenAI API key for chatbot
+  YOUTUBE_API_BASE: z.string().url().default('https://www.googleapis.com/youtube/v3'), // Point at the fake server for offline development
+  YOUTUBE_CAPTIONS_BASE: z.string().url().default('https://www.youtube.com/api/timedtext'), // Caption track source (timedtext endpoint or the fake server)
+  YOUTUBE_DAILY_QUOTA: z.string().transform(Number).default('10000'), // Units granted per day by Google
+  YOUTUBE_QUOTA_BUDGET: z.string().transform(Number).optional(), // Units this app may spend per day (defaults to the daily quota)
+  OPENAI_API_KEY: z.string().min(1).optional(), // OpenAI API key (chatbot with LLM_PROVIDER=openai, embeddings, auto-tagging)
+  LLM_PROVIDER: z.enum(['openai', 'anthropic', 'ollama', 'mock']).default('openai'), // Default chatbot model backend (requests may pick another)
+  LLM_MODEL: z.string().min(1).optional(), // Model for LLM_PROVIDER (defaults per provider, e.g. gpt-4o-mini)
+  LLM_TEMPERATURE: z.string().transform(Number).default('0.7'), // Sampling temperature when a request doesn't set one
+  LLM_MAX_TOKENS: z.string().transform(Number).default('2048'), // Reply length limit when a request doesn't set one
+  ANTHROPIC_API_KEY: z.string().min(1).optional(), // For LLM_PROVIDER=anthropic
+  ANTHROPIC_BASE_URL: z.string().url().default('https://api.anthropic.com'), // Anthropic or a compatible server
+  OLLAMA_BASE_URL: z.string().url().default('http://localhost:11434/v1'), // OpenAI-compatible endpoint of a local model server
+  CHAT_TOKEN_BUDGET: z.string().transform(Number).default('12000'), // Estimated prompt tokens per chatbot request (context, history and message)
+  VECTOR_STORE: z.enum(['pgvector', 'memory']).default('pgvector'), // Where video_embeddings vectors are kept (memory for databases without pgvector)
+  COMMENT_CLASSIFIER: z.enum(['lexicon', 'openai']).default('lexicon'), // Comment sentiment/theme analysis backend
+  SCHEDULER_ENABLED: z.enum(['true', 'false']).default('true').transform((v) => v === 'true'), // Automatic stat snapshots
 });
 
 export const env = envSchema.parse(process.env);
@@ -0,0 +1,213 @@
+import { Request, Response, NextFunction } from 'express';
+import { autoTagService, TAG_FIELDS } from '../services/auto-tag.service.js';
+
+// Videos one bulk job may tag
+const MAX_BULK_LIMIT = 200;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * POST /api/youtube/auto-tag
+ * Start a background job suggesting tags for untagged videos
+ * Body: { limit?: number (default 50, max 200), channel_id?: string }
+ */
+export const startAutoTagJob = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { channel_id } = req.body || {};
+    const limit = Math.max(1, Math.min(parseInt(String(req.body?.limit || '50')) || 50, MAX_BULK_LIMIT));
+
+    const job = await autoTagService.startBulkJob(limit, typeof channel_id === 'string' && channel_id ? channel_id : undefined);
+
+    if (!job) {
+      res.status(409).json({
+        success: false,
+        error: { message: 'An auto-tag job is already running' },
+        data: autoTagService.getCurrentJob(),
+      });
+      return;
+    }
+
+    res.status(202).json({
+      success: true,
+      data: job,
+    });
+  } catch (error: any) {
+    console.error('Error starting auto-tag job:', error);
+    next(error);
+  }
+};
+
+/**
+ * GET /api/youtube/auto-tag/job
+ * Progress of the running (or most recent) auto-tag job, or null
+ */
+export const getAutoTagJob = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      data: autoTagService.getCurrentJob(),
+    });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/youtube/auto-tag/videos/:video_id
+ * Suggest tags for one video (replaces its pending suggestion)
+ */
+export const suggestVideoTags = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const suggestion = await autoTagService.suggestTags(req.params.video_id);
+
+    if (!suggestion) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Video not found' },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: suggestion,
+    });
+  } catch (error: any) {
+    console.error('Error suggesting tags:', error);
+    next(error);
+  }
+};
+
+/**
+ * GET /api/youtube/auto-tag/suggestions
+ * Pending suggestions with each video's title and current tag values
+ */
+export const getPendingSuggestions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const suggestions = await autoTagService.listPending();
+
+    res.json({
+      success: true,
+      data: suggestions,
+      count: suggestions.length,
+    });
+  } catch (error: any) {
+    console.error('Error fetching tag suggestions:', error);
+    next(error);
+  }
+};
+
+/**
+ * POST /api/youtube/auto-tag/suggestions/:id/apply
+ * Write accepted fields to the video's embedding and close the suggestion
+ * Body: { fields: { topic?, format?, poc?, hook?, style?, gimmick?, end_cta? } }
+ *       - only the fields present are written (rejected fields are left out)
+ */
+export const applySuggestion = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!UUID_PATTERN.test(req.params.id)) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'Invalid suggestion id' },
+      });
+      return;
+    }
+
+    const { fields } = req.body || {};
+
+    if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'fields is required' },
+      });
+      return;
+    }
+
+    const invalid = Object.keys(fields).filter(
+      (key) => !(TAG_FIELDS as readonly string[]).includes(key) || (fields[key] !== null && typeof fields[key] !== 'string')
+    );
+    if (invalid.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: { message: `Invalid fields: ${invalid.join(', ')}` },
+      });
+      return;
+    }
+
+    const suggestion = await autoTagService.applySuggestion(req.params.id, fields);
+
+    if (!suggestion) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Pending suggestion not found' },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: suggestion,
+    });
+  } catch (error: any) {
+    console.error('Error applying tag suggestion:', error);
+    next(error);
+  }
+};
+
+/**
+ * POST /api/youtube/auto-tag/suggestions/:id/reject
+ * Close a suggestion without writing anything
+ */
+export const rejectSuggestion = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!UUID_PATTERN.test(req.params.id)) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'Invalid suggestion id' },
+      });
+      return;
+    }
+
+    const suggestion = await autoTagService.rejectSuggestion(req.params.id);
+
+    if (!suggestion) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Pending suggestion not found' },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: suggestion,
+    });
+  } catch (error: any) {
+    console.error('Error rejecting tag suggestion:', error);
+    next(error);
+  }
+};
@@ -0,0 +1,177 @@
+import { Request, Response, NextFunction } from 'express';
+import { supabaseAdmin } from '../config/database.js';
+import { YouTubeService } from '../services/youtube.service.js';
+
+const youtubeService = new YouTubeService();
+
+/**
+ * GET /api/channels
+ * List all tracked channels
+ */
+export const getChannels = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('channels')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching channels:', error);
+      res.status(500).json({ success: false, error });
+      return;
+    }
+
+    res.json({ success: true, data: data || [], count: data?.length || 0 });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/channels/:id
+ * Get a single tracked channel
+ */
+export const getChannelById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const { data, error } = await supabaseAdmin
+      .from('channels')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !data) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Channel not found' },
+      });
+      return;
+    }
+
+    res.json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/channels
+ * Register a YouTube channel for tracking
+ * Body: { channel_id: string, label?: string, title?: string, is_active?: boolean }
+ */
+export const createChannel = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { channel_id, label, title, is_active } = req.body;
+
+    if (!channel_id || typeof channel_id !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: { message: 'channel_id is required' },
+      });
+      return;
+    }
+
+    // Resolve the channel title from YouTube when not provided
+    const channelTitle = title || await youtubeService.getChannelName(channel_id);
+
+    const { data, error } = await supabaseAdmin
+      .from('channels')
+      .insert({
+        channel_id: channel_id.trim(),
+        title: channelTitle,
+        label: label || null,
+        is_active: is_active ?? true,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating channel:', error);
+      res.status(500).json({ success: false, error });
+      return;
+    }
+
+    res.json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PATCH /api/channels/:id
+ * Update a tracked channel's label, title or active flag
+ */
+export const updateChannel = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { label, title, is_active } = req.body;
+
+    const { data, error } = await supabaseAdmin
+      .from('channels')
+      .update({
+        ...(label !== undefined && { label }),
+        ...(title !== undefined && { title }),
+        ...(is_active !== undefined && { is_active }),
+        updated_at: new Date(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating channel:', error);
+      res.status(500).json({ success: false, error });
+      return;
+    }
+
+    res.json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/channels/:id
+ * Stop tracking a channel (already synced videos are kept)
+ */
+export const deleteChannel = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const { error } = await supabaseAdmin
+      .from('channels')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting channel:', error);
+      res.status(500).json({ success: false, error });
+      return;
+    }
+
+    res.json({ success: true, message: 'Channel deleted' });
+  } catch (error) {
+    next(error);
+  }
+};
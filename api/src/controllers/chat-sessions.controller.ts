@@ -4,6 +4,10 @@ import { supabaseAdmin } from '../config/database.js';
 /**
  * POST /api/chat/sessions
  * Save or update a chat session
+ * Body: { id?, title, history, settings? }
+ * settings holds what reproduces the conversation: selected video ids,
+ * context and tool toggles, prompt template/version/variables and model
+ * settings. Left out, the stored settings are kept.
  */
 export const saveChatSession = async (
   req: Request,
@@ -11,7 +15,7 @@ export const saveChatSession = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { id, title, history } = req.body;
+    const { id, title, history, settings } = req.body;
 
     if (!title || !history || !Array.isArray(history)) {
       res.status(400).json({
@@ -21,10 +25,19 @@ export const saveChatSession = async (
       return;
     }
 
+    if (settings !== undefined && (typeof settings !== 'object' || settings === null || Array.isArray(settings))) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'settings must be an object' },
+      });
+      return;
+    }
+
     const sessionData = {
       id: id || undefined,
       title,
       history,
+      ...(settings !== undefined && { settings }),
       updated_at: new Date(),
     };
 
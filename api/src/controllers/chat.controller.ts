@@ -1,62 +1,184 @@
 import { Request, Response, NextFunction } from 'express';
-import OpenAI from 'openai';
 import { env } from '../config/env.js';
-import { supabaseAdmin } from '../config/database.js';
+import { chatContextService, ChatContext } from '../services/chat-context.service.js';
+import { chatPromptService, BuiltPrompt } from '../services/chat-prompt.service.js';
+import { chatToolsService, ToolLoopEvent } from '../services/chat-tools.service.js';
+import { promptTemplateService, RenderedTemplate } from '../services/prompt-templates.service.js';
+import { parseScriptDraft } from '../services/script-drafts.js';
+import {
+  chatVariantsService,
+  variantInstructions,
+  DEFAULT_VARIANTS,
+  MAX_VARIANTS,
+  ScriptVariant,
+} from '../services/chat-variants.service.js';
+import {
+  DEFAULT_MAX_TOKENS,
+  DEFAULT_TEMPERATURE,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderError,
+  LLM_PROVIDER_NAMES,
+  getLLMProvider,
+  isLLMProviderName,
+  estimateCost,
+} from '../services/llm-providers.js';
 
-const openai = new OpenAI({
-  apiKey: env.OPENAI_API_KEY,
-});
+// Largest reply length a request may ask for
+const MAX_OUTPUT_TOKENS_LIMIT = 8192;
 
-const SYSTEM_PROMPT = `You are a marketing strategist and creative copy generator for a SaaS product.
+// Added when tools are on; the date lets the model turn "last month" into a range
+const toolsPrompt = () => `
 
-Your role is to generate high-performing promotional content (hooks, scripts, captions, CTAs, angles, positioning statements) that is direct-response oriented, optimized for short-form and long-form digital platforms.
+---
 
-You will be provided with structured JSON data representing selected video content. This data may include (but is not limited to):
-– topics
-– hooks
-– formats
-– scripts or notes
-– pacing
-– tone or style descriptors
-– gimmicks
-– endings / CTAs
-– performance indicators or qualitative trends
+Today is ${new Date().toISOString().slice(0, 10)}. You can query the channel's analytics database with the tools provided (videos, stats snapshots over time, creative attributes, audience comments). When the user asks about performance, trends or what the audience says, call the tools and base the answer on the numbers they return instead of guessing, and say which numbers you used.`;
 
-Treat this JSON as ground truth pattern data.
+interface ModelSettings {
+  provider: LLMProvider;
+  options: { model: string; temperature: number; maxTokens: number };
+}
 
-How to use the JSON:
+/**
+ * Provider, model, temperature and max tokens for a request body: the
+ * request's own values where given, the LLM_* settings otherwise
+ */
+const resolveModelSettings = (body: any): ModelSettings => {
+  const { provider, model, temperature, maxTokens } = body;
 
-Extract recurring patterns, trends, and stylistic signals (e.g. hook structure, language choices, pacing, emotional triggers, narrative devices).
+  if (provider && !isLLMProviderName(provider)) {
+    throw new LLMProviderError(`Unknown provider '${provider}' (expected one of ${LLM_PROVIDER_NAMES.join(', ')})`);
+  }
+  if (temperature !== undefined && (typeof temperature !== 'number' || temperature < 0 || temperature > 2)) {
+    throw new LLMProviderError('temperature must be a number from 0 to 2');
+  }
+  if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens < 1 || maxTokens > MAX_OUTPUT_TOKENS_LIMIT)) {
+    throw new LLMProviderError(`maxTokens must be an integer from 1 to ${MAX_OUTPUT_TOKENS_LIMIT}`);
+  }
 
-Infer what works for this audience and product category without explicitly referencing the raw data.
+  const llm = getLLMProvider(provider || undefined);
+  return {
+    provider: llm,
+    options: {
+      model: typeof model === 'string' && model.trim() ? model.trim() : llm.defaultModel,
+      temperature: temperature ?? DEFAULT_TEMPERATURE,
+      maxTokens: maxTokens ?? DEFAULT_MAX_TOKENS,
+    },
+  };
+};
 
-Use these patterns to influence the structure, tone, and creative decisions of your output.
+/**
+ * Context and budgeted prompt for a chat request body (shared by sending
+ * and estimating, so the estimate matches what would be sent). Instructions
+ * are added to the system prompt.
+ */
+const prepareChat = async (
+  body: any,
+  summarize: boolean,
+  instructions = '',
+  signal?: AbortSignal
+): Promise<{ context: ChatContext; prompt: BuiltPrompt; settings: ModelSettings; template: RenderedTemplate }> => {
+  const { message, videoIds, history, autoContext, contentType, minViews, useTools, templateId, templateVersion, variables } = body;
+  const settings = resolveModelSettings(body);
+  const template = await promptTemplateService.render(
+    typeof templateId === 'string' && templateId ? templateId : undefined,
+    variables && typeof variables === 'object' ? variables : {},
+    typeof templateId === 'string' && templateId && Number.isInteger(templateVersion) ? templateVersion : undefined
+  );
 
-Output rules:
+  // Build context from selected (and in auto mode, retrieved) videos + their embeddings
+  const context = await chatContextService.buildContext(
+    message.trim(),
+    Array.isArray(videoIds) ? videoIds.filter((id: unknown) => typeof id === 'string') : [],
+    autoContext === true,
+    {
+      contentType: typeof contentType === 'string' && contentType ? contentType : undefined,
+      minViews: typeof minViews === 'number' && minViews > 0 ? minViews : undefined,
+    }
+  );
 
-– Do not summarize or restate the JSON.
-– Do not mention "the data," "the JSON," or "selected videos."
-– Produce original marketing content that feels native to the identified trends.
-– Favor clarity, memorability, and conversion over generic brand language.
-– When uncertain, default to bold, specific, and testable ideas rather than safe generalities.
+  const prompt = await chatPromptService.build(
+    {
+      systemPrompt: (useTools === false ? template.text : template.text + toolsPrompt()) + instructions,
+      videos: context.videos,
+      history: Array.isArray(history) ? history : [],
+      message: message.trim(),
+    },
+    { summarizer: summarize ? { provider: settings.provider, model: settings.options.model, signal } : null }
+  );
 
-You combine:
-– the user's intent
-– the inferred patterns from the provided data
-– best-practice SaaS marketing principles
-– the best practices for marketing on YouTube Shorts that are proven to work based on data in both the JSON and youtube landscape trends and historical data
+  return { context, prompt, settings, template };
+};
 
-…to generate content that is distinct, compelling, and optimized to perform.`;
+/**
+ * What the trimmed prompt costs, and what was cut to fit the budget
+ */
+const describeBudget = (prompt: BuiltPrompt, settings: ModelSettings) => ({
+  provider: settings.provider.name,
+  model: settings.options.model,
+  estimated_tokens: prompt.estimatedTokens,
+  budget: prompt.budget,
+  temperature: settings.options.temperature,
+  max_output_tokens: settings.options.maxTokens,
+  // Upper bound: assumes the reply uses all of max_output_tokens (null for models without a known price)
+  estimated_cost_usd: estimateCost(
+    settings.provider.name,
+    settings.options.model,
+    prompt.estimatedTokens,
+    settings.options.maxTokens
+  ),
+  truncated: prompt.truncated,
+});
 
-interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-}
+/**
+ * Status and user-facing message for provider errors worth explaining
+ */
+const describeProviderError = (error: any): { status: number; message: string } | null => {
+  if (error?.status === 401) {
+    return { status: 401, message: 'Invalid API key for the LLM provider' };
+  }
+  if (error?.status === 429) {
+    return { status: 429, message: 'LLM provider rate limit exceeded. Please try again shortly.' };
+  }
+  return null;
+};
+
+/**
+ * The reply as events: with tools on (the default) the model may query the
+ * database first, otherwise it just streams
+ */
+const generateReply = (body: any, messages: LLMMessage[], settings: ModelSettings, signal?: AbortSignal): AsyncIterable<ToolLoopEvent> =>
+  body.useTools === false
+    ? settings.provider.stream(messages, { ...settings.options, signal })
+    : chatToolsService.run(settings.provider, messages, { ...settings.options, signal });
+
+// Log the complete prompt for debugging
+const logPrompt = (messages: LLMMessage[], settings: ModelSettings) => {
+  console.log(`\n========== COMPLETE PROMPT SENT TO ${settings.provider.name.toUpperCase()} (${settings.options.model}) ==========`);
+  messages.forEach((msg, index) => {
+    console.log(`\n--- Message ${index + 1} (${msg.role.toUpperCase()}) ---`);
+    console.log(msg.content);
+  });
+  console.log('\n====================================================\n');
+};
 
 /**
  * POST /api/chat
  * Send a chat message with optional video context
- * Body: { message: string, videoIds: string[], history: ChatMessage[] }
+ * Body: { message: string, videoIds: string[], history: ChatMessage[],
+ *         autoContext?: boolean, contentType?: string, minViews?: number,
+ *         provider?: 'openai' | 'anthropic' | 'ollama' | 'mock', model?: string,
+ *         temperature?: number, maxTokens?: number, useTools?: boolean,
+ *         templateId?: string, templateVersion?: number,
+ *         variables?: { [name: string]: string } }
+ * The system prompt is the chosen prompt template (the default one when
+ * templateId is left out) with its variables filled in, at its current
+ * version unless templateVersion pins an earlier one.
+ * With autoContext, videos relevant to the message and the best performers
+ * are added to the selected ones. The prompt is trimmed to CHAT_TOKEN_BUDGET;
+ * the videos used are returned as `context` and what was cut as `budget`.
+ * Unless useTools is false the model can call read-only database tools
+ * first; each call and its result is returned in `steps`.
  */
 export const sendChatMessage = async (
   req: Request,
@@ -64,7 +186,7 @@ export const sendChatMessage = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { message, videoIds, history } = req.body;
+    const { message } = req.body;
 
     if (!message || typeof message !== 'string' || !message.trim()) {
       res.status(400).json({
@@ -74,111 +196,329 @@ export const sendChatMessage = async (
       return;
     }
 
-    // Build context from selected videos + their embeddings
-    let contextJson = '';
-    if (videoIds && Array.isArray(videoIds) && videoIds.length > 0) {
-      const contextData = await Promise.all(
-        videoIds.map(async (videoId: string) => {
-          // Fetch video data
-          const { data: video } = await supabaseAdmin
-            .from('youtube_videos')
-            .select('*')
-            .eq('video_id', videoId)
-            .single();
-
-          // Fetch embedding data
-          let embedding = null;
-          const { data: embeddingData } = await supabaseAdmin
-            .from('video_embeddings')
-            .select('*')
-            .eq('video_id', videoId)
-            .single();
-
-          if (embeddingData) {
-            embedding = embeddingData;
-          }
-
-          return { video, embedding };
-        })
-      );
-
-      const validContext = contextData.filter((c) => c.video !== null);
-      if (validContext.length > 0) {
-        contextJson = JSON.stringify(validContext, null, 2);
+    const { context, prompt, settings, template } = await prepareChat(req.body, true);
+    logPrompt(prompt.messages, settings);
+
+    let content = '';
+    let usage = null;
+    const steps: any[] = [];
+    for await (const event of generateReply(req.body, prompt.messages, settings)) {
+      if (event.type === 'delta') content += event.content;
+      if (event.type === 'usage') usage = event.usage;
+      if (event.type === 'tool_call') steps.push({ ...event.call, result: null, error: null });
+      if (event.type === 'tool_result') {
+        const step = steps.find((s) => s.id === event.id);
+        if (step) Object.assign(step, { result: event.result, error: event.error });
       }
     }
 
-    // Build the messages array for OpenAI
-    const messages: ChatMessage[] = [];
+    const assistantMessage = content || 'No response generated.';
+
+    res.json({
+      success: true,
+      data: {
+        message: assistantMessage,
+        usage,
+        provider: settings.provider.name,
+        model: settings.options.model,
+        steps,
+        template: { id: template.template_id, version: template.version },
+        context: context.citations.slice(0, prompt.videosIncluded),
+        budget: describeBudget(prompt, settings),
+      },
+    });
+  } catch (error: any) {
+    console.error('Error in chat:', error);
+
+    // Handle provider specific errors
+    const providerError = describeProviderError(error);
+    if (providerError) {
+      res.status(providerError.status).json({
+        success: false,
+        error: { message: providerError.message },
+      });
+      return;
+    }
+
+    next(error);
+  }
+};
+
+/**
+ * POST /api/chat/stream
+ * Same as POST /api/chat, streamed as Server-Sent Events. Each event's data
+ * is JSON with a `type`:
+ *   context     - { context, budget, template } before the reply starts
+ *   tool_call   - { id, name, arguments } the model is querying the database
+ *   tool_result - { id, name, result, error } what that query returned
+ *   delta       - { content } the next piece of the reply
+ *   done        - { usage } the reply is complete
+ *   error       - { message } the reply failed part way
+ * Closing the connection cancels the completion.
+ */
+export const streamChatMessage = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  // The client stopping the reply (or navigating away) closes the response early,
+  // possibly while the history is still being summarised
+  const abort = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) abort.abort();
+  });
+
+  try {
+    const { message } = req.body;
+
+    if (!message || typeof message !== 'string' || !message.trim()) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'message is required' },
+      });
+      return;
+    }
 
-    // System message with context
-    let systemContent = SYSTEM_PROMPT;
-    if (contextJson) {
-      systemContent += `\n\n---\n\nContext:\n${contextJson}`;
+    const { context, prompt, settings, template } = await prepareChat(req.body, true, '', abort.signal);
+    if (abort.signal.aborted) {
+      return;
     }
-    messages.push({ role: 'system', content: systemContent });
-
-    // Add conversation history (if provided)
-    if (history && Array.isArray(history)) {
-      for (const msg of history) {
-        if (
-          msg.role &&
-          msg.content &&
-          (msg.role === 'user' || msg.role === 'assistant')
-        ) {
-          messages.push({ role: msg.role, content: msg.content });
-        }
+    logPrompt(prompt.messages, settings);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    const send = (data: object) => {
+      res.write(`data: ${JSON.stringify(data)}\n\n`);
+    };
+
+    send({
+      type: 'context',
+      context: context.citations.slice(0, prompt.videosIncluded),
+      budget: describeBudget(prompt, settings),
+      template: { id: template.template_id, version: template.version },
+    });
+
+    try {
+      let usage = null;
+      for await (const event of generateReply(req.body, prompt.messages, settings, abort.signal)) {
+        if (event.type === 'usage') usage = event.usage;
+        else if (event.type === 'tool_call') send({ type: 'tool_call', ...event.call });
+        else send(event);
+      }
+
+      send({ type: 'done', usage });
+    } catch (error: any) {
+      if (abort.signal.aborted) {
+        return;
       }
+
+      // Headers are already sent, so the failure goes down the stream
+      console.error('Error streaming chat:', error);
+      send({ type: 'error', message: describeProviderError(error)?.message || error.message || 'Failed to generate a reply' });
+    }
+
+    res.end();
+  } catch (error: any) {
+    if (abort.signal.aborted) {
+      return;
+    }
+
+    console.error('Error in chat stream:', error);
+
+    const providerError = describeProviderError(error);
+    if (providerError) {
+      res.status(providerError.status).json({
+        success: false,
+        error: { message: providerError.message },
+      });
+      return;
+    }
+
+    next(error);
+  }
+};
+
+/**
+ * POST /api/chat/estimate
+ * Estimated prompt size and cost of a chat request, without sending it
+ * Body: same as POST /api/chat
+ */
+export const estimateChatMessage = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { message } = req.body;
+
+    if (!message || typeof message !== 'string' || !message.trim()) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'message is required' },
+      });
+      return;
     }
 
-    // Add current user message
-    messages.push({ role: 'user', content: message.trim() });
+    const { prompt, settings } = await prepareChat(req.body, false);
 
-    // Log the complete prompt for debugging
-    console.log('\n========== COMPLETE PROMPT SENT TO OPENAI ==========');
-    messages.forEach((msg, index) => {
-      console.log(`\n--- Message ${index + 1} (${msg.role.toUpperCase()}) ---`);
-      console.log(msg.content);
+    res.json({
+      success: true,
+      data: {
+        ...describeBudget(prompt, settings),
+        context_count: prompt.videosIncluded,
+      },
     });
-    console.log('\n====================================================\n');
-
-    // Call OpenAI
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages,
-      temperature: 0.7,
-      max_tokens: 2048,
+  } catch (error: any) {
+    console.error('Error estimating chat message:', error);
+    next(error);
+  }
+};
+
+/**
+ * GET /api/chat/providers
+ * Model backends a request can pick, whether each is configured, and the defaults
+ */
+export const getChatProviders = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      data: {
+        default_provider: env.LLM_PROVIDER,
+        temperature: DEFAULT_TEMPERATURE,
+        max_tokens: DEFAULT_MAX_TOKENS,
+        providers: LLM_PROVIDER_NAMES.map((name) => {
+          const provider = getLLMProvider(name);
+          return { name, configured: provider.configured, default_model: provider.defaultModel };
+        }),
+      },
     });
+  } catch (error: any) {
+    console.error('Error listing chat providers:', error);
+    next(error);
+  }
+};
+
+/**
+ * POST /api/chat/variants
+ * Generate a set of hook/script variants as schema-validated JSON instead of
+ * a free-form reply
+ * Body: the POST /api/chat body (without tools) plus count?: number (default
+ *       3, max 6) and existing?: variants already shown that the new ones
+ *       should differ from (for regenerating one of a set)
+ * Each variant has hook, outline, cta, angle, rationale and borrowed_from
+ * (past videos by title, with video_id when they're among the context videos).
+ */
+export const generateChatVariants = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { message, count = DEFAULT_VARIANTS, existing } = req.body;
+
+    if (!message || typeof message !== 'string' || !message.trim()) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'message is required' },
+      });
+      return;
+    }
 
-    const assistantMessage =
-      completion.choices[0]?.message?.content || 'No response generated.';
+    if (!Number.isInteger(count) || count < 1 || count > MAX_VARIANTS) {
+      res.status(400).json({
+        success: false,
+        error: { message: `count must be an integer from 1 to ${MAX_VARIANTS}` },
+      });
+      return;
+    }
+
+    if (existing !== undefined && !Array.isArray(existing)) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'existing must be an array of variants' },
+      });
+      return;
+    }
+
+    const others: ScriptVariant[] = (existing || []).filter(
+      (variant: any) => variant && typeof variant.hook === 'string' && typeof variant.angle === 'string'
+    );
+    const { context, prompt, settings, template } = await prepareChat(
+      { ...req.body, useTools: false },
+      true,
+      variantInstructions(count, others)
+    );
+    logPrompt(prompt.messages, settings);
+
+    const result = await chatVariantsService.generate(
+      settings.provider,
+      prompt.messages,
+      settings.options,
+      count,
+      context.citations.slice(0, prompt.videosIncluded)
+    );
 
     res.json({
       success: true,
       data: {
-        message: assistantMessage,
-        usage: completion.usage,
+        variants: result.variants,
+        usage: result.usage,
+        provider: settings.provider.name,
+        model: result.model,
+        template: { id: template.template_id, version: template.version },
+        context: context.citations.slice(0, prompt.videosIncluded),
+        budget: describeBudget(prompt, settings),
       },
     });
   } catch (error: any) {
-    console.error('Error in chat:', error);
+    console.error('Error generating chat variants:', error);
 
-    // Handle OpenAI specific errors
-    if (error?.status === 401) {
-      res.status(401).json({
+    const providerError = describeProviderError(error);
+    if (providerError) {
+      res.status(providerError.status).json({
         success: false,
-        error: { message: 'Invalid OpenAI API key' },
+        error: { message: providerError.message },
       });
       return;
     }
-    if (error?.status === 429) {
-      res.status(429).json({
+
+    next(error);
+  }
+};
+
+/**
+ * POST /api/chat/script-draft
+ * Split an assistant reply into pending script fields (hook, format, script,
+ * end_cta, ...) for prefilling a draft
+ * Body: { content }
+ */
+export const draftScriptFromReply = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { content } = req.body || {};
+
+    if (!content || typeof content !== 'string' || !content.trim()) {
+      res.status(400).json({
         success: false,
-        error: { message: 'OpenAI rate limit exceeded. Please try again shortly.' },
+        error: { message: 'content is required' },
       });
       return;
     }
 
+    res.json({ success: true, data: parseScriptDraft(content) });
+  } catch (error: any) {
+    console.error('Error drafting script from reply:', error);
     next(error);
   }
 };
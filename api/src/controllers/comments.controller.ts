@@ -0,0 +1,190 @@
+import { Request, Response, NextFunction } from 'express';
+import { supabaseAdmin } from '../config/database.js';
+import { commentAnalysisService } from '../services/comment-analysis.service.js';
+
+// Maximum comments returned per request
+const MAX_LIMIT = 500;
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+/**
+ * GET /api/youtube/comments/:video_id
+ * List stored comments for a video
+ * Query: q (optional) - case-insensitive text search
+ *        sort (optional) - 'likes' or 'newest' (default)
+ *        new (optional) - 'true' for comments first seen in the latest comment sync
+ *        limit (optional) - default 200, max 500
+ */
+export const getVideoComments = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { video_id } = req.params;
+    const { q, sort } = req.query;
+    const limit = Math.max(1, Math.min(parseInt(String(req.query.limit || '200')) || 200, MAX_LIMIT));
+
+    const { data: video, error: videoError } = await supabaseAdmin
+      .from('youtube_videos')
+      .select('video_id, comment_count, comments_synced_at')
+      .eq('video_id', video_id)
+      .single();
+
+    if (videoError && videoError.code !== 'PGRST116') {
+      throw videoError;
+    }
+
+    if (!video) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Video not found' },
+      });
+      return;
+    }
+
+    let query = supabaseAdmin
+      .from('youtube_comments')
+      .select('*', { count: 'exact' })
+      .eq('video_id', video_id);
+
+    if (typeof q === 'string' && q.trim()) {
+      // Escape LIKE wildcards so the search is literal
+      query = query.ilike('text', `%${q.trim().replace(/[%_\\]/g, '\\$&')}%`);
+    }
+
+    if (req.query.new === 'true') {
+      if (!video.comments_synced_at) {
+        res.json({ success: true, data: [], count: 0, comments_synced_at: null });
+        return;
+      }
+      query = query.gte('first_seen_at', video.comments_synced_at);
+    }
+
+    query = sort === 'likes'
+      ? query.order('like_count', { ascending: false }).order('published_at', { ascending: false })
+      : query.order('published_at', { ascending: false });
+
+    const { data, error, count } = await query.limit(limit);
+
+    if (error) {
+      throw error;
+    }
+
+    res.json({
+      success: true,
+      data: data || [],
+      count: count ?? data?.length ?? 0,
+      comments_synced_at: video.comments_synced_at,
+    });
+  } catch (error: any) {
+    console.error('Error fetching video comments:', error);
+    next(error);
+  }
+};
+
+/**
+ * GET /api/youtube/comments/:video_id/insights
+ * Sentiment breakdown, top questions and objections, and recurring themes
+ * across a video's analyzed comments
+ */
+export const getVideoCommentInsights = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { video_id } = req.params;
+    const insights = await commentAnalysisService.getInsights([video_id]);
+
+    res.json({
+      success: true,
+      data: insights,
+    });
+  } catch (error: any) {
+    console.error('Error fetching comment insights:', error);
+    next(error);
+  }
+};
+
+/**
+ * GET /api/youtube/audience-voice
+ * Comment insights across every stored video, with a per-video breakdown
+ * Query: channel_id (optional) - only include videos from this channel
+ */
+export const getAudienceVoice = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { channel_id } = req.query;
+
+    const videoIds: string[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      let query = supabaseAdmin
+        .from('youtube_videos')
+        .select('video_id')
+        .gt('comments_fetched_count', 0)
+        .order('video_id')
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (typeof channel_id === 'string' && channel_id) {
+        query = query.eq('channel_id', channel_id);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw error;
+      }
+
+      videoIds.push(...(data || []).map((video: any) => video.video_id));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const insights = await commentAnalysisService.getInsights(videoIds, true);
+
+    res.json({
+      success: true,
+      data: insights,
+    });
+  } catch (error: any) {
+    console.error('Error fetching audience voice:', error);
+    next(error);
+  }
+};
+
+/**
+ * POST /api/youtube/comments/analyze
+ * Classify stored comments that haven't been analyzed yet
+ * Body: { video_ids?: string[], force?: boolean } - force re-analyzes everything
+ */
+export const analyzeComments = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { video_ids, force } = req.body || {};
+
+    if (video_ids !== undefined && (!Array.isArray(video_ids) || video_ids.some((id) => typeof id !== 'string'))) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'video_ids must be an array of strings' },
+      });
+      return;
+    }
+
+    const analyzed = await commentAnalysisService.analyzeComments(video_ids, force === true);
+
+    res.json({
+      success: true,
+      data: { analyzed },
+    });
+  } catch (error: any) {
+    console.error('Error analyzing comments:', error);
+    next(error);
+  }
+};
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { supabaseAdmin } from '../config/database.js';
+import { quotaService } from '../services/quota.service.js';
 
 /**
  * Test Supabase connection
@@ -38,15 +39,21 @@ export const testConnection = async (
 
 /**
  * Health check endpoint
+ * Includes today's YouTube API quota usage
  */
-export const healthCheck = (
+export const healthCheck = async (
   req: Request,
   res: Response,
   next: NextFunction
-): void => {
-  res.json({
-    status: 'ok',
-    timestamp: new Date().toISOString(),
-    environment: process.env.NODE_ENV || 'development',
-  });
+): Promise<void> => {
+  try {
+    res.json({
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      environment: process.env.NODE_ENV || 'development',
+      quota: await quotaService.getUsage(),
+    });
+  } catch (error: any) {
+    next(error);
+  }
 };
@@ -0,0 +1,175 @@
+import { Request, Response, NextFunction } from 'express';
+import { promptTemplateService } from '../services/prompt-templates.service.js';
+
+/**
+ * GET /api/prompt-templates
+ * List templates with their current version (the built-in one first)
+ */
+export const getPromptTemplates = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const templates = await promptTemplateService.list();
+
+    res.json({ success: true, data: templates, count: templates.length });
+  } catch (error: any) {
+    console.error('Error fetching prompt templates:', error);
+    next(error);
+  }
+};
+
+/**
+ * GET /api/prompt-templates/:id
+ * A template with all its versions, newest first
+ */
+export const getPromptTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const template = await promptTemplateService.get(req.params.id);
+
+    res.json({ success: true, data: template });
+  } catch (error: any) {
+    console.error('Error fetching prompt template:', error);
+    next(error);
+  }
+};
+
+/**
+ * POST /api/prompt-templates
+ * Create a template
+ * Body: { name, body, description?, defaults?: { [variable]: value }, is_default? }
+ */
+export const createPromptTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const template = await promptTemplateService.create(req.body || {});
+
+    res.status(201).json({ success: true, data: template });
+  } catch (error: any) {
+    console.error('Error creating prompt template:', error);
+    next(error);
+  }
+};
+
+/**
+ * PATCH /api/prompt-templates/:id
+ * Rename a template or save a new version of its body and defaults
+ * Body: { name?, description?, body?, defaults?, note? }
+ */
+export const updatePromptTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const template = await promptTemplateService.update(req.params.id, req.body || {});
+
+    res.json({ success: true, data: template });
+  } catch (error: any) {
+    console.error('Error updating prompt template:', error);
+    next(error);
+  }
+};
+
+/**
+ * POST /api/prompt-templates/:id/versions/:version/restore
+ * Save an earlier version as the template's newest version
+ */
+export const restorePromptTemplateVersion = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const version = Number(req.params.version);
+
+    if (!Number.isInteger(version) || version < 1) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'version must be a positive integer' },
+      });
+      return;
+    }
+
+    const template = await promptTemplateService.restore(req.params.id, version);
+
+    res.json({ success: true, data: template });
+  } catch (error: any) {
+    console.error('Error restoring prompt template version:', error);
+    next(error);
+  }
+};
+
+/**
+ * POST /api/prompt-templates/:id/default
+ * Use this template when a request doesn't pick one
+ */
+export const setDefaultPromptTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await promptTemplateService.setDefault(req.params.id);
+
+    res.json({ success: true, data: await promptTemplateService.list() });
+  } catch (error: any) {
+    console.error('Error setting default prompt template:', error);
+    next(error);
+  }
+};
+
+/**
+ * POST /api/prompt-templates/:id/render
+ * The template's current body with its variables filled in (`default` for
+ * the default template)
+ * Body: { variables?: { [variable]: value } }
+ */
+export const renderPromptTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { variables } = req.body || {};
+    const rendered = await promptTemplateService.render(
+      req.params.id === 'default' ? undefined : req.params.id,
+      variables && typeof variables === 'object' ? variables : {}
+    );
+
+    res.json({ success: true, data: rendered });
+  } catch (error: any) {
+    console.error('Error rendering prompt template:', error);
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/prompt-templates/:id
+ * Delete a template and its versions
+ */
+export const deletePromptTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await promptTemplateService.remove(req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Prompt template deleted successfully',
+    });
+  } catch (error: any) {
+    console.error('Error deleting prompt template:', error);
+    next(error);
+  }
+};
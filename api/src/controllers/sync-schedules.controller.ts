@@ -0,0 +1,231 @@
+import { Request, Response, NextFunction } from 'express';
+import { supabaseAdmin } from '../config/database.js';
+import { DEFAULT_SCHEDULE } from '../services/scheduler.service.js';
+
+const INTERVAL_FIELDS = ['fresh_interval_minutes', 'fresh_window_hours', 'full_interval_minutes'] as const;
+
+/**
+ * Pick the interval fields present in a request body, rejecting non-positive values
+ */
+const parseIntervals = (body: any): { fields: Record<string, number>; invalid: string | null } => {
+  const fields: Record<string, number> = {};
+  for (const key of INTERVAL_FIELDS) {
+    if (body[key] === undefined) continue;
+    const value = Number(body[key]);
+    if (!Number.isInteger(value) || value <= 0) {
+      return { fields, invalid: key };
+    }
+    fields[key] = value;
+  }
+  return { fields, invalid: null };
+};
+
+/**
+ * GET /api/sync/schedules
+ * List all sync schedules
+ */
+export const getSchedules = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('sync_schedules')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching sync schedules:', error);
+      res.status(500).json({ success: false, error });
+      return;
+    }
+
+    res.json({ success: true, data: data || [], count: data?.length || 0 });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/sync/schedules
+ * Create a schedule for a registered channel
+ * Body: { channel_id, fresh_interval_minutes?, fresh_window_hours?, full_interval_minutes?, is_paused? }
+ */
+export const createSchedule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { channel_id, is_paused } = req.body;
+
+    if (!channel_id) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'channel_id is required' },
+      });
+      return;
+    }
+
+    const { fields, invalid } = parseIntervals(req.body);
+    if (invalid) {
+      res.status(400).json({
+        success: false,
+        error: { message: `${invalid} must be a positive integer` },
+      });
+      return;
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('sync_schedules')
+      .insert({
+        channel_id,
+        ...DEFAULT_SCHEDULE,
+        ...fields,
+        is_paused: is_paused ?? false,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating sync schedule:', error);
+      res.status(500).json({ success: false, error });
+      return;
+    }
+
+    res.json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PATCH /api/sync/schedules/:id
+ * Edit a schedule's intervals or paused state
+ */
+export const updateSchedule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { is_paused } = req.body;
+
+    const { fields, invalid } = parseIntervals(req.body);
+    if (invalid) {
+      res.status(400).json({
+        success: false,
+        error: { message: `${invalid} must be a positive integer` },
+      });
+      return;
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('sync_schedules')
+      .update({
+        ...fields,
+        ...(is_paused !== undefined && { is_paused: !!is_paused }),
+        updated_at: new Date(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      console.error('Error updating sync schedule:', error);
+      res.status(500).json({ success: false, error });
+      return;
+    }
+
+    if (!data) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Sync schedule not found' },
+      });
+      return;
+    }
+
+    res.json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Build a handler that sets a schedule's paused state
+ */
+const setPaused = (isPaused: boolean) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const { data, error } = await supabaseAdmin
+      .from('sync_schedules')
+      .update({ is_paused: isPaused, updated_at: new Date() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      console.error('Error updating sync schedule:', error);
+      res.status(500).json({ success: false, error });
+      return;
+    }
+
+    if (!data) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Sync schedule not found' },
+      });
+      return;
+    }
+
+    res.json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/sync/schedules/:id/pause
+ */
+export const pauseSchedule = setPaused(true);
+
+/**
+ * POST /api/sync/schedules/:id/resume
+ */
+export const resumeSchedule = setPaused(false);
+
+/**
+ * DELETE /api/sync/schedules/:id
+ * Delete a schedule
+ */
+export const deleteSchedule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const { error } = await supabaseAdmin
+      .from('sync_schedules')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting sync schedule:', error);
+      res.status(500).json({ success: false, error });
+      return;
+    }
+
+    res.json({ success: true, message: 'Schedule deleted' });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,106 @@
+import { Request, Response, NextFunction } from 'express';
+import { syncJobService, SyncJob } from '../services/sync-jobs.service.js';
+
+const isFinished = (job: SyncJob) => job.status === 'done' || job.status === 'failed';
+
+/**
+ * GET /api/sync/jobs
+ * List the most recent sync jobs
+ */
+export const getSyncJobs = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const limit = Math.max(1, Math.min(parseInt(String(req.query.limit || '20')) || 20, 100));
+    const jobs = await syncJobService.listJobs(limit);
+
+    res.json({ success: true, data: jobs, count: jobs.length });
+  } catch (error: any) {
+    console.error('Error fetching sync jobs:', error);
+    next(error);
+  }
+};
+
+/**
+ * GET /api/sync/jobs/:id
+ * Get the current status and counters of a sync job (for polling)
+ */
+export const getSyncJob = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const job = await syncJobService.getJob(id);
+
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Sync job not found' },
+      });
+      return;
+    }
+
+    res.json({ success: true, data: job });
+  } catch (error: any) {
+    console.error('Error fetching sync job:', error);
+    next(error);
+  }
+};
+
+/**
+ * GET /api/sync/jobs/:id/events
+ * Stream progress updates of a sync job as Server-Sent Events.
+ * The stream closes once the job is done or failed, or right away for an
+ * unfinished job this process isn't running (it will never progress).
+ */
+export const streamSyncJob = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const job = await syncJobService.getJob(id);
+
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Sync job not found' },
+      });
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    const send = (data: SyncJob) => {
+      res.write(`data: ${JSON.stringify(data)}\n\n`);
+    };
+
+    send(job);
+    if (isFinished(job) || !syncJobService.isActive(id)) {
+      res.end();
+      return;
+    }
+
+    const unsubscribe = syncJobService.subscribe(id, (update) => {
+      send(update);
+      if (isFinished(update)) {
+        unsubscribe();
+        res.end();
+      }
+    });
+
+    req.on('close', unsubscribe);
+  } catch (error: any) {
+    console.error('Error streaming sync job:', error);
+    next(error);
+  }
+};
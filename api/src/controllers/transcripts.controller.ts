@@ -0,0 +1,127 @@
+import { Request, Response, NextFunction } from 'express';
+import { supabaseAdmin } from '../config/database.js';
+import { transcriptsService } from '../services/transcripts.service.js';
+
+/**
+ * Respond 404 unless the video is in youtube_videos
+ */
+const requireVideo = async (videoId: string, res: Response): Promise<boolean> => {
+  const { data: video, error } = await supabaseAdmin
+    .from('youtube_videos')
+    .select('video_id')
+    .eq('video_id', videoId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!video) {
+    res.status(404).json({
+      success: false,
+      error: { message: 'Video not found' },
+    });
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * GET /api/youtube/transcripts/:video_id
+ * Get the stored transcript (timed segments and plain text) for a video, or null
+ */
+export const getTranscript = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const transcript = await transcriptsService.getTranscript(req.params.video_id);
+
+    res.json({
+      success: true,
+      data: transcript,
+    });
+  } catch (error: any) {
+    console.error('Error fetching transcript:', error);
+    next(error);
+  }
+};
+
+/**
+ * POST /api/youtube/transcripts/:video_id/captions
+ * Import the video's caption track, replacing any stored transcript
+ * Body: { language?: string } - default 'en'
+ */
+export const importCaptions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { video_id } = req.params;
+    const language = typeof req.body?.language === 'string' && req.body.language ? req.body.language : 'en';
+
+    if (!(await requireVideo(video_id, res))) return;
+
+    const transcript = await transcriptsService.importCaptions(video_id, language);
+
+    if (!transcript) {
+      res.status(404).json({
+        success: false,
+        error: { message: `No '${language}' captions available for this video` },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: transcript,
+    });
+  } catch (error: any) {
+    console.error('Error importing captions:', error);
+    next(error);
+  }
+};
+
+/**
+ * POST /api/youtube/transcripts/:video_id/upload
+ * Import an .srt or .vtt file, replacing any stored transcript
+ * Body: { filename: string, content: string, language?: string }
+ */
+export const uploadTranscript = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { video_id } = req.params;
+    const { filename, content, language } = req.body || {};
+
+    if (typeof filename !== 'string' || typeof content !== 'string' || !content.trim()) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'filename and content are required' },
+      });
+      return;
+    }
+
+    if (!(await requireVideo(video_id, res))) return;
+
+    const transcript = await transcriptsService.importFile(
+      video_id,
+      filename,
+      content,
+      typeof language === 'string' && language ? language : null
+    );
+
+    res.json({
+      success: true,
+      data: transcript,
+    });
+  } catch (error: any) {
+    console.error('Error uploading transcript:', error);
+    next(error);
+  }
+};
@@ -1,6 +1,16 @@
 import { Request, Response, NextFunction } from 'express';
 import { supabaseAdmin } from '../config/database.js';
 import { randomUUID } from 'crypto';
+import { embeddingVectorService } from '../services/embedding-vectors.service.js';
+import { similarVideosService } from '../services/similar-videos.service.js';
+
+// Semantic search results per request
+const MAX_SEARCH_LIMIT = 50;
+
+// Similar videos per request
+const MAX_SIMILAR_LIMIT = 30;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 interface VideoEmbedding {
   id?: string;
@@ -14,8 +24,23 @@ interface VideoEmbedding {
   end_cta?: string | null;
   script?: string | null;
   embedding_text?: string | null;
+  // Chat session and message a pending script was drafted from
+  source_session_id?: string | null;
+  source_message_index?: number | null;
 }
 
+/**
+ * Keep a row's search vector in step with its fields. Failures are logged
+ * rather than failing the save; POST /embeddings/reindex catches up later.
+ */
+const refreshVector = async (id: string): Promise<void> => {
+  try {
+    await embeddingVectorService.refresh(id);
+  } catch (error: any) {
+    console.error(`Error embedding video_embeddings row ${id}:`, error.message);
+  }
+};
+
 /**
  * GET /api/youtube/embeddings/:video_id
  * Get video embedding by video_id, or create a new one if it doesn't exist
@@ -173,6 +198,8 @@ export const updateEmbedding = async (
         throw updateError;
       }
 
+      await refreshVector(updatedEmbedding.id);
+
       res.json({
         success: true,
         data: updatedEmbedding,
@@ -196,6 +223,8 @@ export const updateEmbedding = async (
         throw createError;
       }
 
+      await refreshVector(createdEmbedding.id);
+
       res.json({
         success: true,
         data: createdEmbedding,
@@ -257,6 +286,8 @@ export const checkEmbeddingExists = async (
  * GET /api/youtube/embeddings/unassigned
  * Get all pending scripts (embeddings where video_id is null)
  * These are scripts created for future videos that haven't been published yet
+ * Scripts drafted in the chatbot carry `source_session: { id, title }` (null
+ * once the conversation is deleted)
  */
 export const getUnassignedEmbeddings = async (
   req: Request,
@@ -275,10 +306,33 @@ export const getUnassignedEmbeddings = async (
       throw embeddingsError;
     }
 
+    const sessionIds = Array.from(
+      new Set((unassigned || []).map((row) => row.source_session_id).filter(Boolean))
+    );
+    const sessionTitles = new Map<string, string>();
+    if (sessionIds.length > 0) {
+      const { data: sessions, error: sessionsError } = await supabaseAdmin
+        .from('chat_sessions')
+        .select('id, title')
+        .in('id', sessionIds);
+
+      if (sessionsError) {
+        throw sessionsError;
+      }
+      (sessions || []).forEach((session) => sessionTitles.set(session.id, session.title));
+    }
+
+    const data = (unassigned || []).map((row) => ({
+      ...row,
+      source_session: sessionTitles.has(row.source_session_id)
+        ? { id: row.source_session_id, title: sessionTitles.get(row.source_session_id) }
+        : null,
+    }));
+
     res.json({
       success: true,
-      data: unassigned || [],
-      count: (unassigned || []).length,
+      data,
+      count: data.length,
     });
   } catch (error: any) {
     console.error('Error fetching unassigned embeddings:', error);
@@ -360,6 +414,7 @@ export const getAvailableVideos = async (
  * POST /api/youtube/embeddings/unassigned
  * Create a new pending script (embedding with video_id set to null)
  * These are scripts for videos that haven't been published yet
+ * Drafts from the chatbot also send source_session_id and source_message_index
  */
 export const createUnassignedEmbedding = async (
   req: Request,
@@ -368,6 +423,26 @@ export const createUnassignedEmbedding = async (
 ): Promise<void> => {
   try {
     const embeddingData: Partial<VideoEmbedding> = req.body;
+    const { source_session_id, source_message_index } = embeddingData;
+
+    if (source_session_id != null && (typeof source_session_id !== 'string' || !UUID_PATTERN.test(source_session_id))) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'source_session_id must be a chat session id (UUID)' },
+      });
+      return;
+    }
+
+    if (
+      source_message_index != null &&
+      (!Number.isInteger(source_message_index) || source_message_index < 0 || !source_session_id)
+    ) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'source_message_index must be a non-negative integer with a source_session_id' },
+      });
+      return;
+    }
 
     // Create new embedding with NULL video_id (unassigned)
     const newEmbedding: VideoEmbedding = {
@@ -382,6 +457,8 @@ export const createUnassignedEmbedding = async (
       end_cta: embeddingData.end_cta || null,
       script: embeddingData.script || null,
       embedding_text: embeddingData.embedding_text || null,
+      source_session_id: source_session_id || null,
+      source_message_index: source_message_index ?? null,
     };
 
     const { data: createdEmbedding, error: createError } = await supabaseAdmin
@@ -390,10 +467,27 @@ export const createUnassignedEmbedding = async (
       .select()
       .single();
 
+    // The source session was deleted, or a field has the wrong type
+    if (createError?.code === '23503') {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Chat session not found' },
+      });
+      return;
+    }
+    if (createError?.code === '22P02') {
+      res.status(400).json({
+        success: false,
+        error: { message: createError.message },
+      });
+      return;
+    }
     if (createError) {
       throw createError;
     }
 
+    await refreshVector(createdEmbedding.id);
+
     res.json({
       success: true,
       data: createdEmbedding,
@@ -509,7 +603,15 @@ export const updateEmbeddingById = async (
     }
 
     // Remove id and video_id from update data (video_id should be updated via assign endpoint)
-    const { id, video_id: _, ...fieldsToUpdate } = updateData;
+    // The chat back-link is fixed when the script is drafted (source_session is only added when listing)
+    const {
+      id,
+      video_id: _,
+      source_session_id: _sessionId,
+      source_message_index: _messageIndex,
+      source_session: _session,
+      ...fieldsToUpdate
+    } = updateData as Partial<VideoEmbedding> & { source_session?: unknown };
 
     const { data: updatedEmbedding, error: updateError } = await supabaseAdmin
       .from('video_embeddings')
@@ -522,6 +624,8 @@ export const updateEmbeddingById = async (
       throw updateError;
     }
 
+    await refreshVector(embedding_id);
+
     res.json({
       success: true,
       data: updatedEmbedding,
@@ -605,6 +709,8 @@ export const deleteEmbedding = async (
       throw deleteError;
     }
 
+    await embeddingVectorService.remove(embedding_id);
+
     res.json({
       success: true,
       message: 'Embedding deleted successfully',
@@ -614,3 +720,97 @@ export const deleteEmbedding = async (
     next(error);
   }
 };
+
+/**
+ * GET /api/youtube/embeddings/search
+ * Semantic search over video_embeddings (hooks, scripts, topics, ...)
+ * Query: q (required) - free-text query
+ *        limit (optional) - default 10, max 50
+ */
+export const searchEmbeddings = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const limit = Math.max(1, Math.min(parseInt(String(req.query.limit || '10')) || 10, MAX_SEARCH_LIMIT));
+
+    if (!q) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'q is required' },
+      });
+      return;
+    }
+
+    const results = await embeddingVectorService.search(q, limit);
+
+    res.json({
+      success: true,
+      data: results,
+      count: results.length,
+    });
+  } catch (error: any) {
+    console.error('Error searching embeddings:', error);
+    next(error);
+  }
+};
+
+/**
+ * POST /api/youtube/embeddings/reindex
+ * Embed every row whose fields changed since it was last embedded
+ * (backfills rows created before vectors existed)
+ */
+export const reindexEmbeddings = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const result = await embeddingVectorService.reindex();
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error('Error reindexing embeddings:', error);
+    next(error);
+  }
+};
+
+/**
+ * GET /api/youtube/embeddings/:video_id/similar
+ * Past videos most similar to this one, by embedding vector and shared
+ * attributes, with their views and engagement
+ * Query: limit (optional) - default 8, max 30
+ */
+export const getSimilarVideos = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { video_id } = req.params;
+    const limit = Math.max(1, Math.min(parseInt(String(req.query.limit || '8')) || 8, MAX_SIMILAR_LIMIT));
+
+    const result = await similarVideosService.findSimilar(video_id, limit);
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: { message: `Video ${video_id} not found` },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error('Error finding similar videos:', error);
+    next(error);
+  }
+};
@@ -1,12 +1,75 @@
 import { Request, Response, NextFunction } from 'express';
 import { supabaseAdmin } from '../config/database.js';
-import { YouTubeService } from '../services/youtube.service.js';
+import { syncJobService } from '../services/sync-jobs.service.js';
+import { quotaService } from '../services/quota.service.js';
+import { SyncOptions } from '../services/sync.service.js';
 
-const youtubeService = new YouTubeService();
-const CHANNEL_ID = 'UCkKQDuX3OteRGzQjnjXMCKA';
+const CONTENT_TYPES = ['short', 'long', 'live', 'premiere'];
+const VIDEO_STATUSES = ['public', 'unlisted', 'private', 'gone'];
+
+/**
+ * Parse a comma-separated query filter, responding 400 if it has values
+ * outside the allowed set. Returns null when the request was refused.
+ */
+const parseListFilter = (
+  res: Response,
+  name: string,
+  value: string,
+  allowed: string[]
+): string[] | null => {
+  const values = value.split(',').map((v) => v.trim());
+  const unknown = values.filter((v) => !allowed.includes(v));
+
+  if (unknown.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: { message: `Unknown ${name}: ${unknown.join(', ')}. Expected one of ${allowed.join(', ')}` },
+    });
+    return null;
+  }
+
+  return values;
+};
+
+/**
+ * Sync options from the retrieve query string (?rescan=true walks every upload)
+ */
+const syncOptionsFromQuery = (req: Request): SyncOptions => ({
+  fullRescan: req.query.rescan === 'true',
+});
+
+/**
+ * Respond 429 if syncing these channels is estimated to exceed today's
+ * remaining YouTube quota budget. Returns true when the request was refused.
+ */
+const refuseOverBudget = async (
+  res: Response,
+  channelIds: string[],
+  options: SyncOptions = {}
+): Promise<boolean> => {
+  const estimatedCost = await syncJobService.estimateCost(channelIds, options);
+  const usage = await quotaService.getUsage();
+
+  if (estimatedCost <= usage.remaining) {
+    return false;
+  }
+
+  res.status(429).json({
+    success: false,
+    error: {
+      message: `Sync needs ~${estimatedCost} YouTube quota units but only ${usage.remaining} remain today`,
+    },
+    quota: usage,
+    estimatedCost,
+  });
+  return true;
+};
 
 /**
  * Get all videos from youtube_videos table
+ * Query: channel_id (optional) - only return videos from this channel
+ *        content_type (optional) - comma-separated list of short, long, live, premiere
+ *        status (optional) - comma-separated list of public, unlisted, private, gone
  */
 export const getAllVideos = async (
   req: Request,
@@ -14,11 +77,31 @@ export const getAllVideos = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { data, error } = await supabaseAdmin
+    const { channel_id, content_type, status } = req.query;
+
+    let query = supabaseAdmin
       .from('youtube_videos')
       .select('*')
       .order('published_at', { ascending: false });
 
+    if (typeof channel_id === 'string' && channel_id) {
+      query = query.eq('channel_id', channel_id);
+    }
+
+    if (typeof content_type === 'string' && content_type) {
+      const contentTypes = parseListFilter(res, 'content_type', content_type, CONTENT_TYPES);
+      if (!contentTypes) return;
+      query = query.in('content_type', contentTypes);
+    }
+
+    if (typeof status === 'string' && status) {
+      const statuses = parseListFilter(res, 'status', status, VIDEO_STATUSES);
+      if (!statuses) return;
+      query = query.in('status', statuses);
+    }
+
+    const { data, error } = await query;
+
     if (error) {
       throw error;
     }
@@ -90,8 +173,44 @@ export const getVideoStats = async (
 };
 
 /**
- * Retrieve all shorts from channel and populate youtube_videos table
- * Uses upsert to avoid duplicates based on video_id
+ * GET /api/youtube/revisions/:video_id
+ * Get the title, description, tags and thumbnail change history for a video,
+ * oldest first
+ */
+export const getVideoRevisions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { video_id } = req.params;
+
+    const { data, error } = await supabaseAdmin
+      .from('youtube_video_revisions')
+      .select('*')
+      .eq('video_id', video_id)
+      .order('changed_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    res.json({
+      success: true,
+      data: data || [],
+      count: data?.length || 0,
+    });
+  } catch (error: any) {
+    console.error('Error fetching video revisions:', error);
+    next(error);
+  }
+};
+
+/**
+ * POST /api/youtube/retrieve
+ * Queue a background sync of every active channel in the registry.
+ * Progress is available from /api/sync/jobs/:id (and /events for SSE).
+ * Query: rescan=true walks each channel's entire uploads playlist
  */
 export const retrieveChannelShorts = async (
   req: Request,
@@ -99,184 +218,86 @@ export const retrieveChannelShorts = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    console.log('Starting retrieval of shorts from channel:', CHANNEL_ID);
-
-    // Get channel name
-    const channelName = await youtubeService.getChannelName(CHANNEL_ID);
-    console.log('Channel name:', channelName);
-
-    // Fetch all shorts from channel
-    console.log('Fetching shorts from channel...');
-    const videoIds = await youtubeService.getAllShortsFromChannel(CHANNEL_ID);
-    console.log(`Found ${videoIds.length} shorts`);
-
-    if (videoIds.length === 0) {
-      res.json({
-        success: true,
-        message: 'No shorts found in channel',
-        videosProcessed: 0,
-        channelId: CHANNEL_ID,
-        channelName,
+    const { data: channels, error: channelsError } = await supabaseAdmin
+      .from('channels')
+      .select('channel_id')
+      .eq('is_active', true)
+      .order('created_at', { ascending: true });
+
+    if (channelsError) {
+      throw channelsError;
+    }
+
+    if (!channels || channels.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'No active channels configured. Add one via POST /api/channels' },
       });
       return;
     }
 
-    // Fetch video details
-    console.log('Fetching video details...');
-    const videos = await youtubeService.getVideoDetails(videoIds);
-    console.log(`Fetched details for ${videos.length} videos`);
-
-    let videosInserted = 0;
-    let videosUpdated = 0;
-    let statsArchived = 0;
-    let errors = 0;
-    const snapshotTimestamp = new Date().toISOString();
-
-    // Process each video
-    for (const video of videos) {
-      try {
-        const videoData = youtubeService.transformVideoData(
-          video,
-          CHANNEL_ID,
-          channelName
-        );
-
-        // Check if video already exists
-        const { data: existingVideo, error: fetchError } = await supabaseAdmin
-          .from('youtube_videos')
-          .select('*')
-          .eq('video_id', videoData.video_id)
-          .single();
-
-        // Video exists if we have data and no error, or if error is "not found" (PGRST116)
-        const isNotFound = fetchError && (fetchError.code === 'PGRST116' || fetchError.message?.includes('No rows'));
-        const videoExists = existingVideo && !isNotFound;
-
-        if (videoExists && existingVideo) {
-          // Archive the old stats to youtube_video_stats before updating
-          try {
-            // Get the previous stats entry to calculate growth
-            const { data: previousStats } = await supabaseAdmin
-              .from('youtube_video_stats')
-              .select('view_count, like_count, comment_count, recorded_at')
-              .eq('video_id', videoData.video_id)
-              .order('recorded_at', { ascending: false })
-              .limit(1)
-              .single();
-
-            // Calculate growth (difference from previous entry)
-            const viewGrowth = previousStats
-              ? (existingVideo.view_count || 0) - (previousStats.view_count || 0)
-              : 0;
-            const likeGrowth = previousStats
-              ? (existingVideo.like_count || 0) - (previousStats.like_count || 0)
-              : 0;
-            const commentGrowth = previousStats
-              ? (existingVideo.comment_count || 0) - (previousStats.comment_count || 0)
-              : 0;
-
-            // Calculate views_per_hour
-            // If we have previous stats, calculate based on time difference
-            let viewsPerHour: number | null = null;
-            if (previousStats && previousStats.recorded_at) {
-              const timeDiffHours = (new Date(snapshotTimestamp).getTime() - new Date(previousStats.recorded_at).getTime()) / (1000 * 60 * 60);
-              if (timeDiffHours > 0) {
-                viewsPerHour = viewGrowth / timeDiffHours;
-              }
-            } else if (existingVideo.views_per_day) {
-              // Fallback to views_per_day / 24 if available
-              viewsPerHour = existingVideo.views_per_day / 24;
-            }
-
-            // Build stats row with only the fields that exist in youtube_video_stats table
-            const statsRow: any = {
-              video_id: existingVideo.video_id,
-              recorded_at: snapshotTimestamp,
-              view_count: existingVideo.view_count || 0,
-              like_count: existingVideo.like_count || 0,
-              comment_count: existingVideo.comment_count || 0,
-              favorite_count: existingVideo.favorite_count || 0,
-              view_growth: viewGrowth,
-              like_growth: likeGrowth,
-              comment_growth: commentGrowth,
-              engagement_rate: existingVideo.engagement_rate || null,
-              views_per_hour: viewsPerHour,
-              days_since_published: existingVideo.days_since_published || null,
-            };
-
-            // Insert into youtube_video_stats
-            const { error: archiveError } = await supabaseAdmin
-              .from('youtube_video_stats')
-              .insert(statsRow);
-
-            if (archiveError) {
-              console.error(`Error archiving stats for video ${videoData.video_id}:`, archiveError);
-              // Don't fail the whole operation, just log the error
-            } else {
-              statsArchived++;
-              console.log(`Archived stats for video ${videoData.video_id} at ${snapshotTimestamp}`);
-            }
-          } catch (archiveErr: any) {
-            console.error(`Error archiving stats for video ${videoData.video_id}:`, archiveErr);
-            // Continue with update even if archiving fails
-          }
-
-          // Get current sync_count
-          const currentSyncCount = existingVideo.sync_count || 1;
-
-          // Update existing video with new data
-          const { error: updateError } = await supabaseAdmin
-            .from('youtube_videos')
-            .update({
-              ...videoData,
-              updated_at: new Date().toISOString(),
-              last_synced_at: new Date().toISOString(),
-              sync_count: currentSyncCount + 1,
-            })
-            .eq('video_id', videoData.video_id);
-
-          if (updateError) {
-            console.error(`Error updating video ${videoData.video_id}:`, updateError);
-            errors++;
-          } else {
-            videosUpdated++;
-          }
-        } else {
-          // Insert new video (no stats to archive for new videos)
-          const { error: insertError } = await supabaseAdmin
-            .from('youtube_videos')
-            .insert({
-              ...videoData,
-              first_synced_at: new Date().toISOString(),
-              last_synced_at: new Date().toISOString(),
-            });
-
-          if (insertError) {
-            console.error(`Error inserting video ${videoData.video_id}:`, insertError);
-            errors++;
-          } else {
-            videosInserted++;
-          }
-        }
-      } catch (error: any) {
-        console.error(`Error processing video ${video.id}:`, error);
-        errors++;
-      }
+    const channelIds = channels.map((c: any) => c.channel_id);
+    const options = syncOptionsFromQuery(req);
+    if (await refuseOverBudget(res, channelIds, options)) {
+      return;
     }
 
-    res.json({
+    const job = await syncJobService.enqueue(channelIds, 'manual', options);
+
+    res.status(202).json({
+      success: true,
+      message: `Sync queued for ${channels.length} channel(s)`,
+      jobId: job.id,
+      data: job,
+    });
+  } catch (error: any) {
+    console.error('Error queueing channel sync:', error);
+    next(error);
+  }
+};
+
+/**
+ * POST /api/youtube/retrieve/:channel_id
+ * Queue a background sync of a single registered channel
+ * Query: rescan=true walks the channel's entire uploads playlist
+ */
+export const retrieveSingleChannelShorts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { channel_id } = req.params;
+
+    const { data: channel, error: channelError } = await supabaseAdmin
+      .from('channels')
+      .select('channel_id')
+      .eq('channel_id', channel_id)
+      .single();
+
+    if (channelError || !channel) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Channel not found in channels registry' },
+      });
+      return;
+    }
+
+    const options = syncOptionsFromQuery(req);
+    if (await refuseOverBudget(res, [channel.channel_id], options)) {
+      return;
+    }
+
+    const job = await syncJobService.enqueue([channel.channel_id], 'manual', options);
+
+    res.status(202).json({
       success: true,
-      message: `Retrieved ${videos.length} shorts from channel`,
-      videosProcessed: videos.length,
-      videosInserted,
-      videosUpdated,
-      statsArchived,
-      errors,
-      channelId: CHANNEL_ID,
-      channelName,
+      message: 'Sync queued for channel',
+      jobId: job.id,
+      data: job,
     });
   } catch (error: any) {
-    console.error('Error retrieving channel shorts:', error);
+    console.error('Error queueing channel sync:', error);
     next(error);
   }
 };
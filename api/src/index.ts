@@ -7,13 +7,18 @@ import testRoutes from './routes/test.routes.js';
 import youtubeRoutes from './routes/youtube.routes.js';
 import chatRoutes from './routes/chat.routes.js';
 import whiteboardRoutes from './routes/whiteboard.routes.js';
+import channelsRoutes from './routes/channels.routes.js';
+import syncRoutes from './routes/sync.routes.js';
+import promptTemplatesRoutes from './routes/prompt-templates.routes.js';
 import { errorHandler, notFoundHandler } from './middleware/error.middleware.js';
+import { schedulerService } from './services/scheduler.service.js';
+import { syncJobService } from './services/sync-jobs.service.js';
 
 const app: Express = express();
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '2mb' })); // Transcript uploads carry whole subtitle files
 app.use(express.urlencoded({ extended: true }));
 
 // Routes
@@ -23,6 +28,9 @@ app.use('/api/analytics', analyticsRoutes);
 app.use('/api/youtube', youtubeRoutes);
 app.use('/api/chat', chatRoutes);
 app.use('/api/whiteboard', whiteboardRoutes);
+app.use('/api/channels', channelsRoutes);
+app.use('/api/sync', syncRoutes);
+app.use('/api/prompt-templates', promptTemplatesRoutes);
 
 // Error handling
 app.use(notFoundHandler);
@@ -32,4 +40,17 @@ app.use(errorHandler);
 app.listen(env.PORT, () => {
   console.log(`🚀 Server running on http://localhost:${env.PORT}`);
   console.log(`📊 Environment: ${env.NODE_ENV}`);
+
+  // Jobs of a previous run can't resume; fail them before new ones are queued
+  syncJobService
+    .failInterruptedJobs()
+    .then((count) => {
+      if (count > 0) console.log(`Marked ${count} interrupted sync jobs as failed`);
+    })
+    .catch((error) => console.error('Error failing interrupted sync jobs:', error))
+    .finally(() => {
+      if (env.SCHEDULER_ENABLED) {
+        schedulerService.start();
+      }
+    });
 });
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import {
+  getChannels,
+  getChannelById,
+  createChannel,
+  updateChannel,
+  deleteChannel,
+} from '../controllers/channels.controller.js';
+
+const router = Router();
+
+router.get('/', getChannels);
+router.get('/:id', getChannelById);
+router.post('/', createChannel);
+router.patch('/:id', updateChannel);
+router.delete('/:id', deleteChannel);
+
+export default router;
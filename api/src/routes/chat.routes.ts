@@ -1,5 +1,12 @@
 import { Router } from 'express';
-import { sendChatMessage } from '../controllers/chat.controller.js';
+import {
+  sendChatMessage,
+  streamChatMessage,
+  estimateChatMessage,
+  getChatProviders,
+  generateChatVariants,
+  draftScriptFromReply,
+} from '../controllers/chat.controller.js';
 import { 
   saveChatSession, 
   getChatSessions, 
@@ -14,6 +21,36 @@ const router = Router();
  */
 router.post('/', sendChatMessage);
 
+/**
+ * POST /api/chat/stream
+ * Same as POST /api/chat, with the reply streamed as Server-Sent Events
+ */
+router.post('/stream', streamChatMessage);
+
+/**
+ * POST /api/chat/estimate
+ * Estimated tokens and cost of a message before sending it
+ */
+router.post('/estimate', estimateChatMessage);
+
+/**
+ * GET /api/chat/providers
+ * Available model backends and the default model settings
+ */
+router.get('/providers', getChatProviders);
+
+/**
+ * POST /api/chat/variants
+ * A set of hook/script variants as structured JSON
+ */
+router.post('/variants', generateChatVariants);
+
+/**
+ * POST /api/chat/script-draft
+ * Pending script fields parsed from an assistant reply
+ */
+router.post('/script-draft', draftScriptFromReply);
+
 /**
  * Chat Session Management
  */
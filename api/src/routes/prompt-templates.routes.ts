@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import {
+  getPromptTemplates,
+  getPromptTemplate,
+  createPromptTemplate,
+  updatePromptTemplate,
+  restorePromptTemplateVersion,
+  setDefaultPromptTemplate,
+  renderPromptTemplate,
+  deletePromptTemplate,
+} from '../controllers/prompt-templates.controller.js';
+
+const router = Router();
+
+router.get('/', getPromptTemplates);
+router.post('/', createPromptTemplate);
+router.get('/:id', getPromptTemplate);
+router.patch('/:id', updatePromptTemplate);
+router.delete('/:id', deletePromptTemplate);
+router.post('/:id/default', setDefaultPromptTemplate);
+router.post('/:id/render', renderPromptTemplate);
+router.post('/:id/versions/:version/restore', restorePromptTemplateVersion);
+
+export default router;
@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { getSyncJobs, getSyncJob, streamSyncJob } from '../controllers/sync.controller.js';
+import {
+  getSchedules,
+  createSchedule,
+  updateSchedule,
+  pauseSchedule,
+  resumeSchedule,
+  deleteSchedule,
+} from '../controllers/sync-schedules.controller.js';
+
+const router = Router();
+
+/**
+ * GET /api/sync/jobs
+ * List recent sync jobs
+ */
+router.get('/jobs', getSyncJobs);
+
+/**
+ * GET /api/sync/jobs/:id
+ * Poll a sync job's status and counters
+ */
+router.get('/jobs/:id', getSyncJob);
+
+/**
+ * GET /api/sync/jobs/:id/events
+ * Server-Sent Events stream of a sync job's progress
+ */
+router.get('/jobs/:id/events', streamSyncJob);
+
+/**
+ * Automatic snapshot schedules (one per channel)
+ */
+router.get('/schedules', getSchedules);
+router.post('/schedules', createSchedule);
+router.patch('/schedules/:id', updateSchedule);
+router.post('/schedules/:id/pause', pauseSchedule);
+router.post('/schedules/:id/resume', resumeSchedule);
+router.delete('/schedules/:id', deleteSchedule);
+
+export default router;
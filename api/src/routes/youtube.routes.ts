@@ -1,5 +1,26 @@
 import { Router } from 'express';
-import { getAllVideos, retrieveChannelShorts, getVideoStats } from '../controllers/youtube.controller.js';
+import {
+  getAllVideos,
+  retrieveChannelShorts,
+  retrieveSingleChannelShorts,
+  getVideoStats,
+  getVideoRevisions,
+} from '../controllers/youtube.controller.js';
+import {
+  getVideoComments,
+  getVideoCommentInsights,
+  getAudienceVoice,
+  analyzeComments,
+} from '../controllers/comments.controller.js';
+import { getTranscript, importCaptions, uploadTranscript } from '../controllers/transcripts.controller.js';
+import {
+  startAutoTagJob,
+  getAutoTagJob,
+  suggestVideoTags,
+  getPendingSuggestions,
+  applySuggestion,
+  rejectSuggestion,
+} from '../controllers/auto-tag.controller.js';
 import { 
   getOrCreateEmbedding,
   checkEmbeddingExists,
@@ -11,28 +32,135 @@ import {
   assignVideoToEmbedding,
   unassignVideoFromEmbedding,
   deleteEmbedding,
+  searchEmbeddings,
+  reindexEmbeddings,
+  getSimilarVideos,
 } from '../controllers/video-embeddings.controller.js';
 
 const router = Router();
 
 /**
  * GET /api/youtube/videos
- * Get all videos from youtube_videos table
+ * Get all videos from youtube_videos table (optionally ?channel_id=, ?content_type= and ?status=)
  */
 router.get('/videos', getAllVideos);
 
 /**
  * POST /api/youtube/retrieve
- * Retrieve all shorts from the configured channel and populate youtube_videos table
+ * Queue a background sync of every active channel into youtube_videos
+ * (?rescan=true walks entire uploads playlists)
  */
 router.post('/retrieve', retrieveChannelShorts);
 
+/**
+ * POST /api/youtube/retrieve/:channel_id
+ * Queue a background sync of a single registered channel
+ */
+router.post('/retrieve/:channel_id', retrieveSingleChannelShorts);
+
 /**
  * GET /api/youtube/stats/:video_id
  * Get historical stats for a video
  */
 router.get('/stats/:video_id', getVideoStats);
 
+/**
+ * GET /api/youtube/revisions/:video_id
+ * Get metadata change history (title, description, tags, thumbnail) for a video
+ */
+router.get('/revisions/:video_id', getVideoRevisions);
+
+/**
+ * GET /api/youtube/comments/:video_id
+ * Get stored comments for a video (?q=, ?sort=likes|newest, ?new=true)
+ */
+router.get('/comments/:video_id', getVideoComments);
+
+/**
+ * GET /api/youtube/comments/:video_id/insights
+ * Get comment sentiment, top questions/objections and themes for a video
+ */
+router.get('/comments/:video_id/insights', getVideoCommentInsights);
+
+/**
+ * POST /api/youtube/comments/analyze
+ * Classify unanalyzed comments (body: { video_ids?, force? })
+ */
+router.post('/comments/analyze', analyzeComments);
+
+/**
+ * GET /api/youtube/audience-voice
+ * Get channel-wide comment insights with a per-video breakdown (?channel_id=)
+ */
+router.get('/audience-voice', getAudienceVoice);
+
+/**
+ * GET /api/youtube/transcripts/:video_id
+ * Get the stored timed transcript for a video (null if none)
+ */
+router.get('/transcripts/:video_id', getTranscript);
+
+/**
+ * POST /api/youtube/transcripts/:video_id/captions
+ * Import the video's caption track (body: { language? })
+ */
+router.post('/transcripts/:video_id/captions', importCaptions);
+
+/**
+ * POST /api/youtube/transcripts/:video_id/upload
+ * Import an .srt/.vtt file (body: { filename, content, language? })
+ */
+router.post('/transcripts/:video_id/upload', uploadTranscript);
+
+/**
+ * POST /api/youtube/auto-tag
+ * Start a background job suggesting tags for untagged videos (body: { limit?, channel_id? })
+ */
+router.post('/auto-tag', startAutoTagJob);
+
+/**
+ * GET /api/youtube/auto-tag/job
+ * Get progress of the current or last auto-tag job
+ */
+router.get('/auto-tag/job', getAutoTagJob);
+
+/**
+ * POST /api/youtube/auto-tag/videos/:video_id
+ * Suggest topic, format, poc, hook, style, gimmick and end_cta for one video
+ */
+router.post('/auto-tag/videos/:video_id', suggestVideoTags);
+
+/**
+ * GET /api/youtube/auto-tag/suggestions
+ * Get tag suggestions awaiting review
+ */
+router.get('/auto-tag/suggestions', getPendingSuggestions);
+
+/**
+ * POST /api/youtube/auto-tag/suggestions/:id/apply
+ * Write the accepted (possibly edited) fields of a suggestion (body: { fields })
+ */
+router.post('/auto-tag/suggestions/:id/apply', applySuggestion);
+
+/**
+ * POST /api/youtube/auto-tag/suggestions/:id/reject
+ * Discard a suggestion
+ */
+router.post('/auto-tag/suggestions/:id/reject', rejectSuggestion);
+
+/**
+ * GET /api/youtube/embeddings/search
+ * Semantic search over hooks, scripts, topics and other embedding fields (?q=, ?limit=)
+ * Must come BEFORE /embeddings/:video_id to avoid matching "search" as video_id
+ */
+router.get('/embeddings/search', searchEmbeddings);
+
+/**
+ * POST /api/youtube/embeddings/reindex
+ * Embed rows whose fields changed since they were last embedded
+ */
+router.post('/embeddings/reindex', reindexEmbeddings);
+
 /**
  * GET /api/youtube/embeddings/unassigned/list
  * Get all unassigned embeddings
@@ -54,6 +182,12 @@ router.get('/embeddings/available-videos', getAvailableVideos);
  */
 router.get('/embeddings/:video_id/check', checkEmbeddingExists);
 
+/**
+ * GET /api/youtube/embeddings/:video_id/similar
+ * Most similar past videos by embedding vector and shared attributes, with their performance (?limit=)
+ */
+router.get('/embeddings/:video_id/similar', getSimilarVideos);
+
 /**
  * GET /api/youtube/embeddings/:video_id
  * Get video embedding by video_id, or create a new one if it doesn't exist
@@ -0,0 +1,418 @@
+import { randomUUID } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabaseAdmin } from '../config/database.js';
+import { embeddingVectorService } from './embedding-vectors.service.js';
+import { LLMProvider, getLLMProvider } from './llm-providers.js';
+
+export const TAG_FIELDS = ['topic', 'format', 'poc', 'hook', 'style', 'gimmick', 'end_cta'] as const;
+
+export type TagField = typeof TAG_FIELDS[number];
+
+export type TagValues = Record<TagField, string | null>;
+
+export type TagSuggestionStatus = 'pending' | 'applied' | 'rejected';
+
+export interface TagSuggestion {
+  id: string;
+  video_id: string;
+  suggestions: TagValues;
+  status: TagSuggestionStatus;
+  model: string;
+  created_at: string;
+  reviewed_at: string | null;
+}
+
+export interface AutoTagJob {
+  id: string;
+  status: 'running' | 'done' | 'failed';
+  total: number;
+  completed: number;
+  failed: number;
+  error_message: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+export class TagSuggestionError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 502) {
+    super(message);
+    this.name = 'TagSuggestionError';
+    this.statusCode = statusCode;
+  }
+}
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// Ids per `in` filter (keeps request URLs short)
+const LOOKUP_CHUNK_SIZE = 200;
+
+// Characters of description and script/transcript sent to the model
+const MAX_DESCRIPTION_CHARS = 2000;
+const MAX_SCRIPT_CHARS = 4000;
+
+const SYSTEM_PROMPT = `You tag short-form marketing videos for a SaaS brand's content library.
+Given a video's title, description, tags and script or transcript, propose values for these fields:
+- topic: what the video is about, in a short phrase
+- format: the video format (e.g. talking head, screen recording tutorial, skit, listicle, reaction, before/after)
+- poc: the proof of concept shown, i.e. the concrete evidence the claim works (a demo, result, number, testimonial)
+- hook: the opening line or device used in the first seconds, quoted or paraphrased
+- style: tone and delivery (e.g. fast-paced and punchy, calm explainer, comedic)
+- gimmick: the memorable device or twist, if any
+- end_cta: the closing call to action, quoted or paraphrased
+Keep each value under 200 characters. Use null for anything the material doesn't support; don't guess.
+Reply with JSON: {"topic": ..., "format": ..., "poc": ..., "hook": ..., "style": ..., "gimmick": ..., "end_cta": ...}`;
+
+const isUntagged = (embedding: any) =>
+  !embedding || TAG_FIELDS.every((field) => !embedding[field] || !String(embedding[field]).trim());
+
+/**
+ * Proposes video_embeddings tag values with an LLM (LLM_PROVIDER) from a video's
+ * metadata and script (or transcript). Suggestions are stored in
+ * video_tag_suggestions for review and only written to video_embeddings once
+ * accepted. Bulk runs go through an in-process job, one at a time.
+ */
+export class AutoTagService {
+  private provider: LLMProvider;
+  private db: SupabaseClient;
+  private currentJob: AutoTagJob | null = null;
+
+  constructor(
+    provider: LLMProvider = getLLMProvider(),
+    db: SupabaseClient = supabaseAdmin
+  ) {
+    this.provider = provider;
+    this.db = db;
+  }
+
+  /**
+   * Generate a suggestion for one video, replacing its pending one if any.
+   * Returns null when the video doesn't exist.
+   */
+  async suggestTags(videoId: string): Promise<TagSuggestion | null> {
+    const { data: video, error: videoError } = await this.db
+      .from('youtube_videos')
+      .select('video_id, title, description, tags, content_type, duration_seconds')
+      .eq('video_id', videoId)
+      .maybeSingle();
+
+    if (videoError) {
+      throw videoError;
+    }
+
+    if (!video) {
+      return null;
+    }
+
+    const [{ data: embedding }, { data: transcript }] = await Promise.all([
+      this.db.from('video_embeddings').select('script').eq('video_id', videoId).maybeSingle(),
+      this.db.from('video_transcripts').select('text').eq('video_id', videoId).maybeSingle(),
+    ]);
+
+    const script = embedding?.script || transcript?.text || '';
+    const material = [
+      `Title: ${video.title || ''}`,
+      `Type: ${video.content_type || 'unknown'}${video.duration_seconds ? `, ${video.duration_seconds}s` : ''}`,
+      `Tags: ${(video.tags || []).join(', ') || 'none'}`,
+      `Description: ${(video.description || '').slice(0, MAX_DESCRIPTION_CHARS) || 'none'}`,
+      `${embedding?.script ? 'Script' : 'Transcript'}: ${script.slice(0, MAX_SCRIPT_CHARS) || 'none'}`,
+    ].join('\n\n');
+
+    const completion = await this.provider.complete(
+      [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: material },
+      ],
+      { temperature: 0.2, json: true }
+    );
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(completion.content || '{}');
+    } catch {
+      throw new TagSuggestionError(`The model's tag suggestions for ${videoId} are not valid JSON`);
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new TagSuggestionError(`The model's tag suggestions for ${videoId} are not a JSON object`);
+    }
+
+    const suggestions = Object.fromEntries(
+      TAG_FIELDS.map((field) => {
+        const value = typeof parsed[field] === 'string' ? parsed[field].trim() : '';
+        return [field, value || null];
+      })
+    ) as TagValues;
+
+    const { error: clearError } = await this.db
+      .from('video_tag_suggestions')
+      .delete()
+      .eq('video_id', videoId)
+      .eq('status', 'pending');
+
+    if (clearError) {
+      throw clearError;
+    }
+
+    const { data, error } = await this.db
+      .from('video_tag_suggestions')
+      .insert({ video_id: videoId, suggestions, status: 'pending', model: completion.model })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Pending suggestions, newest first, with each video's title and current tags
+   */
+  async listPending(): Promise<any[]> {
+    const suggestions: any[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await this.db
+        .from('video_tag_suggestions')
+        .select('*')
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false })
+        .order('id')
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw error;
+      }
+
+      suggestions.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    if (suggestions.length === 0) {
+      return [];
+    }
+
+    const videoById = new Map<string, any>();
+    const embeddingById = new Map<string, any>();
+    const videoIds = suggestions.map((s: any) => s.video_id);
+    for (let i = 0; i < videoIds.length; i += LOOKUP_CHUNK_SIZE) {
+      const ids = videoIds.slice(i, i + LOOKUP_CHUNK_SIZE);
+      const [{ data: videos, error: videosError }, { data: embeddings, error: embeddingsError }] = await Promise.all([
+        this.db.from('youtube_videos').select('video_id, title, thumbnail_url').in('video_id', ids),
+        this.db.from('video_embeddings').select(`video_id, ${TAG_FIELDS.join(', ')}`).in('video_id', ids),
+      ]);
+
+      if (videosError) {
+        throw videosError;
+      }
+      if (embeddingsError) {
+        throw embeddingsError;
+      }
+
+      (videos || []).forEach((v: any) => videoById.set(v.video_id, v));
+      (embeddings || []).forEach((e: any) => embeddingById.set(e.video_id, e));
+    }
+
+    return suggestions.map((suggestion: any) => ({
+      ...suggestion,
+      video: videoById.get(suggestion.video_id) || null,
+      current: embeddingById.get(suggestion.video_id) || null,
+    }));
+  }
+
+  /**
+   * Write the accepted (possibly edited) fields to the video's embedding,
+   * creating it if needed. Fields left out are not touched. Returns null
+   * when the suggestion doesn't exist or was already reviewed.
+   */
+  async applySuggestion(id: string, fields: Partial<TagValues>): Promise<TagSuggestion | null> {
+    const suggestion = await this.getPending(id);
+    if (!suggestion) {
+      return null;
+    }
+
+    const values = Object.fromEntries(
+      TAG_FIELDS.filter((field) => field in fields).map((field) => [field, fields[field]?.trim() || null])
+    );
+
+    if (Object.keys(values).length > 0) {
+      const { data: existing, error: fetchError } = await this.db
+        .from('video_embeddings')
+        .select('id')
+        .eq('video_id', suggestion.video_id)
+        .maybeSingle();
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      const embeddingId = existing?.id || randomUUID();
+      const { error: writeError } = existing
+        ? await this.db.from('video_embeddings').update(values).eq('id', embeddingId)
+        : await this.db.from('video_embeddings').insert({ id: embeddingId, video_id: suggestion.video_id, ...values });
+
+      if (writeError) {
+        throw writeError;
+      }
+
+      // The vector catches up on the next reindex if this fails
+      await embeddingVectorService.refresh(embeddingId).catch((error: any) => {
+        console.error(`Error embedding video_embeddings row ${embeddingId}:`, error.message);
+      });
+    }
+
+    return this.markReviewed(id, 'applied');
+  }
+
+  async rejectSuggestion(id: string): Promise<TagSuggestion | null> {
+    const suggestion = await this.getPending(id);
+    return suggestion ? this.markReviewed(id, 'rejected') : null;
+  }
+
+  getCurrentJob(): AutoTagJob | null {
+    return this.currentJob;
+  }
+
+  /**
+   * Start suggesting tags for videos that have no tag values yet and no
+   * pending suggestion, newest first. Returns null if a job is already running.
+   */
+  async startBulkJob(limit: number, channelId?: string): Promise<AutoTagJob | null> {
+    if (this.currentJob?.status === 'running') {
+      return null;
+    }
+
+    const videoIds = (await this.findUntaggedVideos(channelId)).slice(0, limit);
+    const job: AutoTagJob = {
+      id: randomUUID(),
+      status: 'running',
+      total: videoIds.length,
+      completed: 0,
+      failed: 0,
+      error_message: null,
+      started_at: new Date().toISOString(),
+      finished_at: null,
+    };
+    this.currentJob = job;
+
+    this.runBulkJob(job, videoIds).catch((error: any) => {
+      console.error(`Auto-tag job ${job.id} failed:`, error);
+      job.status = 'failed';
+      job.error_message = error.message || 'Auto-tagging failed';
+      job.finished_at = new Date().toISOString();
+    });
+
+    return job;
+  }
+
+  private async runBulkJob(job: AutoTagJob, videoIds: string[]): Promise<void> {
+    for (const videoId of videoIds) {
+      try {
+        await this.suggestTags(videoId);
+      } catch (error: any) {
+        console.error(`Auto-tagging ${videoId} failed:`, error.message);
+        job.failed++;
+      }
+      job.completed++;
+    }
+
+    job.status = 'done';
+    job.finished_at = new Date().toISOString();
+  }
+
+  private async findUntaggedVideos(channelId?: string): Promise<string[]> {
+    const videos: any[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      let query = this.db
+        .from('youtube_videos')
+        .select('video_id')
+        .neq('status', 'gone')
+        .order('published_at', { ascending: false })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (channelId) {
+        query = query.eq('channel_id', channelId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw error;
+      }
+
+      videos.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const embeddings: any[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await this.db
+        .from('video_embeddings')
+        .select(`video_id, ${TAG_FIELDS.join(', ')}`)
+        .not('video_id', 'is', null)
+        .order('video_id')
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw error;
+      }
+
+      embeddings.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const { data: pending, error: pendingError } = await this.db
+      .from('video_tag_suggestions')
+      .select('video_id')
+      .eq('status', 'pending');
+
+    if (pendingError) {
+      throw pendingError;
+    }
+
+    const embeddingById = new Map(embeddings.map((e) => [e.video_id, e]));
+    const pendingIds = new Set((pending || []).map((p: any) => p.video_id));
+
+    return videos
+      .map((video) => video.video_id)
+      .filter((videoId) => !pendingIds.has(videoId) && isUntagged(embeddingById.get(videoId)));
+  }
+
+  private async getPending(id: string): Promise<TagSuggestion | null> {
+    const { data, error } = await this.db
+      .from('video_tag_suggestions')
+      .select('*')
+      .eq('id', id)
+      .eq('status', 'pending')
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Close a pending suggestion; null if it was reviewed in the meantime
+   */
+  private async markReviewed(id: string, status: TagSuggestionStatus): Promise<TagSuggestion | null> {
+    const { data, error } = await this.db
+      .from('video_tag_suggestions')
+      .update({ status, reviewed_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+}
+
+export const autoTagService = new AutoTagService();
@@ -0,0 +1,51 @@
+import axios from 'axios';
+import { env } from '../config/env.js';
+
+export interface CaptionTrack {
+  language: string;
+  // WebVTT document
+  content: string;
+}
+
+/**
+ * Fetches a video's caption track. Returns null when the video has no
+ * captions in the requested language.
+ */
+export interface CaptionFetcher {
+  name: string;
+  fetchCaptions(videoId: string, language: string): Promise<CaptionTrack | null>;
+}
+
+/**
+ * Reads caption tracks from a timedtext endpoint (`?v=&lang=&fmt=vtt`).
+ * The Data API's captions.download needs OAuth as the channel owner, so this
+ * goes through YOUTUBE_CAPTIONS_BASE instead; point it at the fake server to
+ * serve caption fixtures offline.
+ */
+export class TimedTextCaptionFetcher implements CaptionFetcher {
+  name = 'timedtext';
+  private baseUrl: string;
+
+  constructor(baseUrl: string = env.YOUTUBE_CAPTIONS_BASE) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  async fetchCaptions(videoId: string, language: string): Promise<CaptionTrack | null> {
+    try {
+      const response = await axios.get<string>(this.baseUrl, {
+        params: { v: videoId, lang: language, fmt: 'vtt' },
+        responseType: 'text',
+        timeout: 15000,
+      });
+
+      // An empty body means there is no track in this language
+      const content = String(response.data || '');
+      return content.trim() ? { language, content } : null;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
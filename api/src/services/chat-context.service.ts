@@ -0,0 +1,216 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabaseAdmin } from '../config/database.js';
+import { EmbeddingVectorService, embeddingVectorService } from './embedding-vectors.service.js';
+
+// Videos retrieved for the message by embedding search
+const RELEVANT_COUNT = 6;
+
+// Best performers added regardless of the message, as a baseline of what works
+const TOP_PERFORMER_COUNT = 4;
+
+// Search results fetched per relevant slot, before the performance filters
+const SEARCH_CANDIDATES_PER_RESULT = 4;
+
+// Scripts are the longest field; the rest are short tag values
+const MAX_SCRIPT_CHARS = 600;
+
+// Ids per `in` filter (keeps request URLs short)
+const LOOKUP_CHUNK_SIZE = 200;
+
+const VIDEO_COLUMNS = 'video_id, title, thumbnail_url, content_type, status, published_at, view_count, engagement_rate, views_per_day';
+const EMBEDDING_COLUMNS = 'video_id, topic, hook, format, style, gimmick, poc, end_cta, script';
+
+export type ContextReason = 'selected' | 'relevant' | 'top_performer';
+
+/**
+ * What the model sees for each video: performance numbers and tag values,
+ * without ids, URLs, sync bookkeeping or other columns it can't use.
+ */
+export interface CompactVideo {
+  title: string | null;
+  type: string | null;
+  published: string | null;
+  views: number;
+  engagement_rate: number;
+  views_per_day: number;
+  topic?: string;
+  hook?: string;
+  format?: string;
+  style?: string;
+  gimmick?: string;
+  poc?: string;
+  end_cta?: string;
+  script?: string;
+}
+
+/**
+ * A video that went into the context, as shown to the user
+ */
+export interface ContextCitation {
+  video_id: string;
+  title: string | null;
+  thumbnail_url: string | null;
+  view_count: number;
+  engagement_rate: number;
+  reason: ContextReason;
+  // Embedding similarity to the message, for relevant videos
+  similarity: number | null;
+}
+
+export interface ChatContext {
+  videos: CompactVideo[];
+  citations: ContextCitation[];
+}
+
+export interface RetrievalOptions {
+  contentType?: string;
+  // Relevant videos below this view count are left out
+  minViews?: number;
+}
+
+const compactVideo = (video: any, embedding: any): CompactVideo => {
+  const compact: CompactVideo = {
+    title: video.title,
+    type: video.content_type,
+    published: video.published_at ? String(video.published_at).slice(0, 10) : null,
+    views: video.view_count || 0,
+    engagement_rate: Math.round((video.engagement_rate || 0) * 10000) / 10000,
+    views_per_day: Math.round(video.views_per_day || 0),
+  };
+
+  if (embedding) {
+    (['topic', 'hook', 'format', 'style', 'gimmick', 'poc', 'end_cta'] as const).forEach((field) => {
+      const value = typeof embedding[field] === 'string' ? embedding[field].trim() : '';
+      if (value) compact[field] = value;
+    });
+    const script = typeof embedding.script === 'string' ? embedding.script.trim() : '';
+    if (script) {
+      compact.script = script.length > MAX_SCRIPT_CHARS ? `${script.slice(0, MAX_SCRIPT_CHARS)}...` : script;
+    }
+  }
+
+  return compact;
+};
+
+/**
+ * Builds the video context sent to the chatbot: the videos the user picked,
+ * and in auto mode the videos most relevant to the message (embedding
+ * search) plus the best performers, trimmed to a compact schema.
+ */
+export class ChatContextService {
+  private vectors: EmbeddingVectorService;
+  private db: SupabaseClient;
+
+  constructor(
+    vectors: EmbeddingVectorService = embeddingVectorService,
+    db: SupabaseClient = supabaseAdmin
+  ) {
+    this.vectors = vectors;
+    this.db = db;
+  }
+
+  async buildContext(
+    message: string,
+    selectedIds: string[],
+    autoContext: boolean,
+    options: RetrievalOptions = {}
+  ): Promise<ChatContext> {
+    const picked = new Map<string, { reason: ContextReason; similarity: number | null }>();
+    selectedIds.forEach((videoId) => picked.set(videoId, { reason: 'selected', similarity: null }));
+
+    if (autoContext) {
+      const relevant = await this.findRelevant(message, options).catch((error: any) => {
+        // Top performers still make a useful context without search
+        console.error('Error retrieving relevant videos for chat:', error.message);
+        return [];
+      });
+      relevant.forEach(({ videoId, similarity }) => {
+        if (!picked.has(videoId)) picked.set(videoId, { reason: 'relevant', similarity });
+      });
+
+      (await this.findTopPerformers(options)).forEach((videoId) => {
+        if (!picked.has(videoId)) picked.set(videoId, { reason: 'top_performer', similarity: null });
+      });
+    }
+
+    const ids = Array.from(picked.keys());
+    const [videos, embeddings] = await Promise.all([
+      this.fetchByVideoId('youtube_videos', VIDEO_COLUMNS, ids),
+      this.fetchByVideoId('video_embeddings', EMBEDDING_COLUMNS, ids),
+    ]);
+
+    const context: ChatContext = { videos: [], citations: [] };
+    ids.forEach((videoId) => {
+      const video = videos.get(videoId);
+      if (!video) return;
+
+      const { reason, similarity } = picked.get(videoId)!;
+      context.videos.push(compactVideo(video, embeddings.get(videoId)));
+      context.citations.push({
+        video_id: videoId,
+        title: video.title,
+        thumbnail_url: video.thumbnail_url,
+        view_count: video.view_count || 0,
+        engagement_rate: video.engagement_rate || 0,
+        reason,
+        similarity,
+      });
+    });
+
+    return context;
+  }
+
+  private async findRelevant(message: string, options: RetrievalOptions): Promise<{ videoId: string; similarity: number }[]> {
+    const results = await this.vectors.search(message, RELEVANT_COUNT * SEARCH_CANDIDATES_PER_RESULT);
+
+    return results
+      .filter(({ video }) =>
+        video &&
+        video.status !== 'gone' &&
+        (!options.contentType || video.content_type === options.contentType) &&
+        (video.view_count || 0) >= (options.minViews || 0)
+      )
+      .slice(0, RELEVANT_COUNT)
+      .map(({ video, similarity }) => ({ videoId: video.video_id, similarity }));
+  }
+
+  private async findTopPerformers(options: RetrievalOptions): Promise<string[]> {
+    let query = this.db
+      .from('youtube_videos')
+      .select('video_id')
+      .neq('status', 'gone')
+      .order('views_per_day', { ascending: false, nullsFirst: false })
+      .limit(TOP_PERFORMER_COUNT);
+
+    if (options.contentType) {
+      query = query.eq('content_type', options.contentType);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).map((video: any) => video.video_id);
+  }
+
+  private async fetchByVideoId(table: string, columns: string, videoIds: string[]): Promise<Map<string, any>> {
+    const rows = new Map<string, any>();
+    for (let i = 0; i < videoIds.length; i += LOOKUP_CHUNK_SIZE) {
+      const { data, error } = await this.db
+        .from(table)
+        .select(columns)
+        .in('video_id', videoIds.slice(i, i + LOOKUP_CHUNK_SIZE));
+
+      if (error) {
+        throw error;
+      }
+
+      (data || []).forEach((row: any) => rows.set(row.video_id, row));
+    }
+    return rows;
+  }
+}
+
+export const chatContextService = new ChatContextService();
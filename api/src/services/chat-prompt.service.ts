@@ -0,0 +1,219 @@
+import { createHash } from 'crypto';
+import { env } from '../config/env.js';
+import { CompactVideo } from './chat-context.service.js';
+import { LLMMessage, LLMProvider } from './llm-providers.js';
+
+export interface PromptInput {
+  systemPrompt: string;
+  videos: CompactVideo[];
+  history: LLMMessage[];
+  message: string;
+}
+
+export interface BuiltPrompt {
+  messages: LLMMessage[];
+  // How many of the input videos (from the start) made it into the prompt
+  videosIncluded: number;
+  estimatedTokens: number;
+  budget: number;
+  // What was left out or shortened to fit the budget, one line each
+  truncated: string[];
+}
+
+export class PromptTooLargeError extends Error {
+  statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTooLargeError';
+  }
+}
+
+// Share of the budget left after the system prompt and message that history may use
+const HISTORY_SHARE = 0.4;
+
+// Most recent messages kept verbatim whenever they fit, even past the history share
+const MIN_RECENT_MESSAGES = 2;
+
+// Length of the summary replacing older turns
+const SUMMARY_MAX_TOKENS = 300;
+
+// Conversation characters sent to be summarised (the most recent ones)
+const MAX_SUMMARY_INPUT_CHARS = 48000;
+
+// Summaries kept for re-sent histories (the client sends the full history each time)
+const SUMMARY_CACHE_SIZE = 100;
+
+// Tokens each message costs on top of its content (role and separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Video fields dropped in this order when the context doesn't fit, before whole videos are
+const FIELD_DROP_ORDER: (keyof CompactVideo)[][] = [
+  ['script'],
+  ['poc', 'gimmick', 'style', 'end_cta'],
+  ['published', 'views_per_day'],
+];
+
+const SUMMARY_PROMPT = `Summarise this conversation between a marketer and an AI strategist in under 150 words.
+Keep the goals, constraints, decisions and ideas the marketer liked or rejected. Plain prose, no preamble.`;
+
+const CONTEXT_HEADER = '\n\n---\n\nContext:\n';
+
+/**
+ * Rough token count (about four characters per token for English and JSON
+ * with OpenAI and most other models). No tokenizer is bundled, so budgets
+ * are estimates.
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const messageTokens = (message: LLMMessage) => estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+
+const withoutFields = (video: CompactVideo, fields: (keyof CompactVideo)[]): CompactVideo => {
+  const copy = { ...video };
+  fields.forEach((field) => delete copy[field]);
+  return copy;
+};
+
+/**
+ * Assembles chat prompts within a token budget: the system prompt and the
+ * new message always go in, recent history is kept verbatim and older turns
+ * are summarised, and the video context is shrunk (less important fields
+ * first, then whole videos from the end) to fit what's left.
+ */
+export class ChatPromptService {
+  private budget: number;
+  private summaries = new Map<string, string>();
+
+  constructor(budget: number = env.CHAT_TOKEN_BUDGET) {
+    this.budget = budget;
+  }
+
+  /**
+   * Build the messages for a request. Older turns are summarised with the
+   * given model; without one they aren't sent anywhere and the summary is
+   * costed at its maximum length instead (used for estimates before sending).
+   */
+  async build(
+    input: PromptInput,
+    options: { summarizer: { provider: LLMProvider; model?: string; signal?: AbortSignal } | null }
+  ): Promise<BuiltPrompt> {
+    const summarize = options.summarizer !== null;
+    const truncated: string[] = [];
+    const message: LLMMessage = { role: 'user', content: input.message };
+    const fixedTokens = messageTokens({ role: 'system', content: input.systemPrompt }) + messageTokens(message);
+
+    if (fixedTokens > this.budget) {
+      throw new PromptTooLargeError(
+        `Message is too long: about ${fixedTokens} tokens with the system prompt, over the ${this.budget} token budget`
+      );
+    }
+
+    // History: newest turns verbatim, older ones folded into a summary
+    const history = input.history.filter(
+      (msg) => msg && (msg.role === 'user' || msg.role === 'assistant') && typeof msg.content === 'string' && msg.content
+    );
+    const historyBudget = Math.floor((this.budget - fixedTokens) * HISTORY_SHARE);
+    let keptFrom = history.length;
+    let historyTokens = 0;
+    while (keptFrom > 0) {
+      const tokens = messageTokens(history[keptFrom - 1]);
+      const recent = history.length - keptFrom < MIN_RECENT_MESSAGES;
+      const limit = recent ? this.budget - fixedTokens - SUMMARY_MAX_TOKENS : historyBudget;
+      if (historyTokens + tokens > limit) break;
+      historyTokens += tokens;
+      keptFrom--;
+    }
+
+    const historyMessages: LLMMessage[] = [];
+    if (keptFrom > 0) {
+      const older = history.slice(0, keptFrom);
+      const summary = options.summarizer ? await this.summarize(older, options.summarizer) : null;
+      const summaryMessage: LLMMessage = {
+        role: 'system',
+        content: `Summary of the earlier conversation:\n${summary ?? ''}`,
+      };
+      historyTokens += summary === null ? SUMMARY_MAX_TOKENS + MESSAGE_OVERHEAD_TOKENS : messageTokens(summaryMessage);
+      if (summary !== null) historyMessages.push(summaryMessage);
+      truncated.push(`${older.length} older message${older.length === 1 ? '' : 's'} summarised`);
+    }
+    historyMessages.push(...history.slice(keptFrom));
+
+    // Video context: whatever budget is left
+    const contextBudget = this.budget - fixedTokens - historyTokens - estimateTokens(CONTEXT_HEADER);
+    let videos = input.videos;
+    const dropped: (keyof CompactVideo)[] = [];
+    for (const fields of FIELD_DROP_ORDER) {
+      if (videos.length === 0 || estimateTokens(JSON.stringify(videos)) <= contextBudget) break;
+      dropped.push(...fields);
+      videos = videos.map((video) => withoutFields(video, fields));
+    }
+    if (dropped.length > 0) {
+      truncated.push(`Video fields left out: ${dropped.join(', ')}`);
+    }
+
+    while (videos.length > 0 && estimateTokens(JSON.stringify(videos)) > contextBudget) {
+      // Drop about a tenth at a time; re-stringifying 80 videos per video is wasteful
+      videos = videos.slice(0, Math.min(videos.length - 1, Math.floor(videos.length * 0.9)));
+    }
+    if (videos.length < input.videos.length) {
+      truncated.push(`${input.videos.length - videos.length} of ${input.videos.length} context videos left out`);
+    }
+
+    const systemContent = videos.length > 0
+      ? `${input.systemPrompt}${CONTEXT_HEADER}${JSON.stringify(videos)}`
+      : input.systemPrompt;
+    const messages: LLMMessage[] = [{ role: 'system', content: systemContent }, ...historyMessages, message];
+
+    const estimatedTokens = messages.reduce((sum, msg) => sum + messageTokens(msg), 0)
+      + (summarize || keptFrom === 0 ? 0 : SUMMARY_MAX_TOKENS + MESSAGE_OVERHEAD_TOKENS);
+
+    return {
+      messages,
+      videosIncluded: videos.length,
+      estimatedTokens,
+      budget: this.budget,
+      truncated,
+    };
+  }
+
+  /**
+   * Summary of older turns, cached by their content. Falls back to the
+   * start of the conversation, cut to the summary length, if the model
+   * call fails.
+   */
+  private async summarize(
+    turns: LLMMessage[],
+    { provider, model, signal }: { provider: LLMProvider; model?: string; signal?: AbortSignal }
+  ): Promise<string> {
+    const transcript = turns.map((turn) => `${turn.role === 'user' ? 'Marketer' : 'Strategist'}: ${turn.content}`).join('\n\n');
+    const key = createHash('sha1').update(`${provider.name}\n${model || provider.defaultModel}\n${transcript}`).digest('hex');
+
+    const cached = this.summaries.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    let summary: string;
+    try {
+      const completion = await provider.complete(
+        [
+          { role: 'system', content: SUMMARY_PROMPT },
+          { role: 'user', content: transcript.slice(-MAX_SUMMARY_INPUT_CHARS) },
+        ],
+        { model, temperature: 0.2, maxTokens: SUMMARY_MAX_TOKENS, signal }
+      );
+      summary = completion.content.trim();
+    } catch (error: any) {
+      console.error('Error summarising chat history:', error.message);
+      return transcript.slice(0, SUMMARY_MAX_TOKENS * 4);
+    }
+
+    if (this.summaries.size >= SUMMARY_CACHE_SIZE) {
+      this.summaries.delete(this.summaries.keys().next().value!);
+    }
+    this.summaries.set(key, summary);
+    return summary;
+  }
+}
+
+export const chatPromptService = new ChatPromptService();
@@ -0,0 +1,531 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabaseAdmin } from '../config/database.js';
+import { EmbeddingVectorService, embeddingVectorService } from './embedding-vectors.service.js';
+import {
+  CompletionOptions,
+  LLMMessage,
+  LLMProvider,
+  LLMTool,
+  LLMToolCall,
+  LLMUsage,
+} from './llm-providers.js';
+
+// Model turns per reply; the last one gets no tools, so it has to answer
+const MAX_TOOL_ROUNDS = 5;
+
+// Tool results are cut to this many characters before going back to the model
+const MAX_RESULT_CHARS = 8000;
+
+// Stats snapshots read for one aggregation (a month of daily syncs of ~1,500 videos)
+const MAX_STATS_ROWS = 50000;
+
+// Default window for stats aggregations
+const DEFAULT_STATS_DAYS = 30;
+
+const MAX_SCRIPT_CHARS = 600;
+const MAX_COMMENT_CHARS = 500;
+
+const PAGE_SIZE = 1000;
+const LOOKUP_CHUNK_SIZE = 200;
+
+const VIDEO_COLUMNS = 'video_id, title, content_type, published_at, view_count, like_count, comment_count, engagement_rate, views_per_day';
+const EMBEDDING_COLUMNS = 'video_id, topic, hook, format, style, gimmick, poc, end_cta, script';
+const ATTRIBUTE_FIELDS = ['topic', 'hook', 'format', 'style', 'gimmick', 'end_cta'] as const;
+
+const VIDEO_ORDER_COLUMNS = ['views_per_day', 'view_count', 'engagement_rate', 'like_count', 'comment_count', 'published_at'];
+const STATS_GROUPS = ['video', 'content_type', ...ATTRIBUTE_FIELDS];
+const STATS_SORTS = ['view_growth', 'like_growth', 'comment_growth', 'avg_engagement_rate', 'avg_views_per_hour', 'videos'] as const;
+
+/**
+ * The read-only tools offered to the chatbot. Each one maps to a fixed,
+ * parameterised query; the model never writes SQL.
+ */
+export const CHAT_TOOLS: LLMTool[] = [
+  {
+    name: 'query_videos',
+    description: 'List videos with their current performance numbers, filtered and sorted. Dates are YYYY-MM-DD.',
+    parameters: {
+      type: 'object',
+      properties: {
+        content_type: { type: 'string', enum: ['short', 'long', 'live', 'premiere'] },
+        title_contains: { type: 'string' },
+        published_after: { type: 'string', description: 'Published on or after this date' },
+        published_before: { type: 'string', description: 'Published before this date' },
+        min_views: { type: 'number' },
+        max_views: { type: 'number' },
+        order_by: { type: 'string', enum: VIDEO_ORDER_COLUMNS, description: 'Default views_per_day' },
+        ascending: { type: 'boolean' },
+        limit: { type: 'integer', minimum: 1, maximum: 25, description: 'Default 10' },
+      },
+    },
+  },
+  {
+    name: 'aggregate_video_stats',
+    description: 'Aggregate the stats snapshots taken at each sync (view/like/comment growth, engagement rate, views per hour) over a time window, grouped by video, content type or an embedding attribute such as hook or format. Dates are YYYY-MM-DD.',
+    parameters: {
+      type: 'object',
+      properties: {
+        group_by: { type: 'string', enum: STATS_GROUPS, description: 'Default video' },
+        recorded_after: { type: 'string', description: `Snapshots on or after this date (default ${DEFAULT_STATS_DAYS} days ago)` },
+        recorded_before: { type: 'string', description: 'Snapshots before this date (default now)' },
+        content_type: { type: 'string', enum: ['short', 'long', 'live', 'premiere'] },
+        published_after: { type: 'string', description: 'Only videos published on or after this date' },
+        published_before: { type: 'string', description: 'Only videos published before this date' },
+        sort_by: { type: 'string', enum: STATS_SORTS, description: 'Default view_growth' },
+        limit: { type: 'integer', minimum: 1, maximum: 25, description: 'Default 10' },
+      },
+    },
+  },
+  {
+    name: 'lookup_embeddings',
+    description: 'Get the creative attributes (topic, hook, format, style, gimmick, POC, end CTA, script) of videos, either by id or by semantic search on a description.',
+    parameters: {
+      type: 'object',
+      properties: {
+        video_ids: { type: 'array', items: { type: 'string' }, maxItems: 20 },
+        query: { type: 'string', description: 'Find videos whose attributes are closest in meaning to this text' },
+        limit: { type: 'integer', minimum: 1, maximum: 20, description: 'Results for a query, default 5' },
+      },
+    },
+  },
+  {
+    name: 'search_comments',
+    description: 'Search audience comments, with their sentiment, question/objection flags and themes.',
+    parameters: {
+      type: 'object',
+      properties: {
+        text_contains: { type: 'string' },
+        video_id: { type: 'string' },
+        sentiment: { type: 'string', enum: ['positive', 'neutral', 'negative'] },
+        is_question: { type: 'boolean' },
+        is_objection: { type: 'boolean' },
+        theme: { type: 'string', description: 'A theme keyword or phrase, e.g. "battery life"' },
+        order_by: { type: 'string', enum: ['like_count', 'published_at'], description: 'Default like_count' },
+        limit: { type: 'integer', minimum: 1, maximum: 50, description: 'Default 20' },
+      },
+    },
+  },
+];
+
+export type ToolLoopEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'tool_call'; call: LLMToolCall }
+  | { type: 'tool_result'; id: string; name: string; result: any; error: string | null }
+  | { type: 'usage'; usage: LLMUsage };
+
+class ToolArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolArgumentError';
+  }
+}
+
+const optionalString = (args: Record<string, any>, key: string): string | undefined => {
+  const value = args[key];
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') throw new ToolArgumentError(`${key} must be a string`);
+  return value.trim().slice(0, 200);
+};
+
+const optionalNumber = (args: Record<string, any>, key: string): number | undefined => {
+  const value = args[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new ToolArgumentError(`${key} must be a number`);
+  return value;
+};
+
+const optionalBoolean = (args: Record<string, any>, key: string): boolean | undefined => {
+  const value = args[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'boolean') throw new ToolArgumentError(`${key} must be true or false`);
+  return value;
+};
+
+const optionalEnum = <T extends string>(args: Record<string, any>, key: string, values: readonly T[]): T | undefined => {
+  const value = optionalString(args, key);
+  if (value !== undefined && !(values as readonly string[]).includes(value)) {
+    throw new ToolArgumentError(`${key} must be one of ${values.join(', ')}`);
+  }
+  return value as T | undefined;
+};
+
+const optionalDate = (args: Record<string, any>, key: string): string | undefined => {
+  const value = optionalString(args, key);
+  if (value === undefined) return undefined;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) throw new ToolArgumentError(`${key} must be a date (YYYY-MM-DD)`);
+  return new Date(time).toISOString();
+};
+
+const limitArg = (args: Record<string, any>, fallback: number, max: number): number => {
+  const value = optionalNumber(args, 'limit');
+  return value === undefined ? fallback : Math.min(max, Math.max(1, Math.floor(value)));
+};
+
+// `%` and `_` are wildcards in ilike patterns
+const likePattern = (text: string) => `%${text.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+
+const round = (value: number, digits = 4) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null);
+
+const clip = (text: unknown, max: number) =>
+  typeof text === 'string' && text.length > max ? `${text.slice(0, max)}...` : text ?? null;
+
+/**
+ * Runs the chatbot's database tools and the call loop around them: the
+ * model is asked, the tools it calls are run and their results sent back,
+ * until it answers (or runs out of rounds).
+ */
+export class ChatToolsService {
+  private db: SupabaseClient;
+  private vectors: EmbeddingVectorService;
+
+  constructor(
+    db: SupabaseClient = supabaseAdmin,
+    vectors: EmbeddingVectorService = embeddingVectorService
+  ) {
+    this.db = db;
+    this.vectors = vectors;
+  }
+
+  /**
+   * Stream a reply that may call tools first. Yields the reply's text as it
+   * arrives, each tool call and its result, and the usage summed over all
+   * model turns.
+   */
+  async *run(
+    provider: LLMProvider,
+    messages: LLMMessage[],
+    options: CompletionOptions
+  ): AsyncIterable<ToolLoopEvent> {
+    const conversation = [...messages];
+    const total: LLMUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    let reported = false;
+
+    for (let round = 1; round <= MAX_TOOL_ROUNDS; round++) {
+      const calls: LLMToolCall[] = [];
+      let content = '';
+
+      const tools = round < MAX_TOOL_ROUNDS ? CHAT_TOOLS : undefined;
+      for await (const chunk of provider.stream(conversation, { ...options, tools })) {
+        if (chunk.type === 'delta') {
+          content += chunk.content;
+          yield chunk;
+        } else if (chunk.type === 'tool_call') {
+          calls.push(chunk.call);
+        } else {
+          total.prompt_tokens += chunk.usage.prompt_tokens;
+          total.completion_tokens += chunk.usage.completion_tokens;
+          total.total_tokens += chunk.usage.total_tokens;
+          reported = true;
+        }
+      }
+
+      if (calls.length === 0) break;
+
+      conversation.push({ role: 'assistant', content, toolCalls: calls });
+      for (const call of calls) {
+        yield { type: 'tool_call', call };
+        const { result, error } = await this.execute(call);
+        yield { type: 'tool_result', id: call.id, name: call.name, result, error };
+
+        const text = JSON.stringify(error ? { error } : result);
+        conversation.push({
+          role: 'tool',
+          toolCallId: call.id,
+          content: text.length > MAX_RESULT_CHARS ? `${text.slice(0, MAX_RESULT_CHARS)}... (cut)` : text,
+        });
+      }
+    }
+
+    if (reported) {
+      yield { type: 'usage', usage: total };
+    }
+  }
+
+  /**
+   * Run one tool call. Bad arguments and query failures are returned as the
+   * error, so the model can correct itself instead of the reply failing.
+   */
+  async execute(call: LLMToolCall): Promise<{ result: any; error: string | null }> {
+    try {
+      switch (call.name) {
+        case 'query_videos':
+          return { result: await this.queryVideos(call.arguments), error: null };
+        case 'aggregate_video_stats':
+          return { result: await this.aggregateVideoStats(call.arguments), error: null };
+        case 'lookup_embeddings':
+          return { result: await this.lookupEmbeddings(call.arguments), error: null };
+        case 'search_comments':
+          return { result: await this.searchComments(call.arguments), error: null };
+        default:
+          return { result: null, error: `Unknown tool '${call.name}'` };
+      }
+    } catch (error: any) {
+      if (!(error instanceof ToolArgumentError)) {
+        console.error(`Error running chat tool ${call.name}:`, error);
+      }
+      return { result: null, error: error.message || 'Tool failed' };
+    }
+  }
+
+  private async queryVideos(args: Record<string, any>) {
+    const contentType = optionalString(args, 'content_type');
+    const titleContains = optionalString(args, 'title_contains');
+    const publishedAfter = optionalDate(args, 'published_after');
+    const publishedBefore = optionalDate(args, 'published_before');
+    const minViews = optionalNumber(args, 'min_views');
+    const maxViews = optionalNumber(args, 'max_views');
+    const orderBy = optionalEnum(args, 'order_by', VIDEO_ORDER_COLUMNS) || 'views_per_day';
+    const ascending = optionalBoolean(args, 'ascending') ?? false;
+    const limit = limitArg(args, 10, 25);
+
+    let query = this.db
+      .from('youtube_videos')
+      .select(VIDEO_COLUMNS, { count: 'exact' })
+      .neq('status', 'gone');
+
+    if (contentType) query = query.eq('content_type', contentType);
+    if (titleContains) query = query.ilike('title', likePattern(titleContains));
+    if (publishedAfter) query = query.gte('published_at', publishedAfter);
+    if (publishedBefore) query = query.lt('published_at', publishedBefore);
+    if (minViews !== undefined) query = query.gte('view_count', minViews);
+    if (maxViews !== undefined) query = query.lte('view_count', maxViews);
+
+    const { data, error, count } = await query
+      .order(orderBy, { ascending, nullsFirst: false })
+      .limit(limit);
+
+    if (error) {
+      throw error;
+    }
+
+    return {
+      matching: count ?? (data || []).length,
+      videos: (data || []).map((video: any) => ({
+        ...video,
+        engagement_rate: round(video.engagement_rate || 0),
+        views_per_day: Math.round(video.views_per_day || 0),
+      })),
+    };
+  }
+
+  private async aggregateVideoStats(args: Record<string, any>) {
+    const groupBy = optionalEnum(args, 'group_by', STATS_GROUPS) || 'video';
+    const recordedAfter = optionalDate(args, 'recorded_after')
+      || new Date(Date.now() - DEFAULT_STATS_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const recordedBefore = optionalDate(args, 'recorded_before') || new Date().toISOString();
+    const contentType = optionalString(args, 'content_type');
+    const publishedAfter = optionalDate(args, 'published_after');
+    const publishedBefore = optionalDate(args, 'published_before');
+    const sortBy = optionalEnum(args, 'sort_by', STATS_SORTS) || 'view_growth';
+    const limit = limitArg(args, 10, 25);
+
+    // Snapshots in the window
+    const snapshots: any[] = [];
+    let truncated = false;
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await this.db
+        .from('youtube_video_stats')
+        .select('video_id, view_growth, like_growth, comment_growth, engagement_rate, views_per_hour')
+        .gte('recorded_at', recordedAfter)
+        .lt('recorded_at', recordedBefore)
+        .order('recorded_at')
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw error;
+      }
+
+      snapshots.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+      if (snapshots.length >= MAX_STATS_ROWS) {
+        truncated = true;
+        break;
+      }
+    }
+
+    const videoIds = Array.from(new Set(snapshots.map((row) => row.video_id)));
+    const [videos, embeddings] = await Promise.all([
+      this.fetchByVideoId('youtube_videos', 'video_id, title, content_type, published_at', videoIds),
+      (ATTRIBUTE_FIELDS as readonly string[]).includes(groupBy)
+        ? this.fetchByVideoId('video_embeddings', `video_id, ${groupBy}`, videoIds)
+        : Promise.resolve(new Map<string, any>()),
+    ]);
+
+    const groups = new Map<string, {
+      group: string;
+      videoIds: Set<string>;
+      snapshots: number;
+      view_growth: number;
+      like_growth: number;
+      comment_growth: number;
+      engagement: number[];
+      viewsPerHour: number[];
+    }>();
+    const ungrouped = new Set<string>();
+
+    snapshots.forEach((row) => {
+      const video = videos.get(row.video_id);
+      if (!video) return;
+      if (contentType && video.content_type !== contentType) return;
+      const published = video.published_at ? Date.parse(video.published_at) : null;
+      if (publishedAfter && (published === null || published < Date.parse(publishedAfter))) return;
+      if (publishedBefore && (published === null || published >= Date.parse(publishedBefore))) return;
+
+      let label: string | null;
+      if (groupBy === 'video') {
+        label = video.title || row.video_id;
+      } else if (groupBy === 'content_type') {
+        label = video.content_type;
+      } else {
+        const value = embeddings.get(row.video_id)?.[groupBy];
+        label = typeof value === 'string' && value.trim() ? value.trim() : null;
+      }
+      if (!label) {
+        ungrouped.add(row.video_id);
+        return;
+      }
+
+      // Free-text attributes match regardless of case
+      const key = groupBy === 'video' ? row.video_id : label.toLowerCase();
+      let group = groups.get(key);
+      if (!group) {
+        group = { group: label, videoIds: new Set(), snapshots: 0, view_growth: 0, like_growth: 0, comment_growth: 0, engagement: [], viewsPerHour: [] };
+        groups.set(key, group);
+      }
+      group.videoIds.add(row.video_id);
+      group.snapshots++;
+      group.view_growth += row.view_growth || 0;
+      group.like_growth += row.like_growth || 0;
+      group.comment_growth += row.comment_growth || 0;
+      if (typeof row.engagement_rate === 'number') group.engagement.push(row.engagement_rate);
+      if (typeof row.views_per_hour === 'number') group.viewsPerHour.push(row.views_per_hour);
+    });
+
+    const rows = Array.from(groups.entries()).map(([key, group]) => {
+      const avgEngagement = average(group.engagement);
+      const avgViewsPerHour = average(group.viewsPerHour);
+      return {
+        ...(groupBy === 'video' && { video_id: key }),
+        group: group.group,
+        videos: group.videoIds.size,
+        snapshots: group.snapshots,
+        view_growth: group.view_growth,
+        like_growth: group.like_growth,
+        comment_growth: group.comment_growth,
+        avg_engagement_rate: avgEngagement === null ? null : round(avgEngagement),
+        avg_views_per_hour: avgViewsPerHour === null ? null : round(avgViewsPerHour, 1),
+      };
+    });
+
+    rows.sort((a, b) => (b[sortBy] ?? -Infinity) - (a[sortBy] ?? -Infinity));
+
+    return {
+      window: { from: recordedAfter, to: recordedBefore },
+      group_by: groupBy,
+      total_groups: rows.length,
+      groups: rows.slice(0, limit),
+      ...(ungrouped.size > 0 && { videos_without_value: ungrouped.size }),
+      ...(truncated && { note: `Only the first ${MAX_STATS_ROWS} snapshots in the window were read` }),
+    };
+  }
+
+  private async lookupEmbeddings(args: Record<string, any>) {
+    const query = optionalString(args, 'query');
+    const videoIds = Array.isArray(args.video_ids)
+      ? args.video_ids.filter((id: unknown) => typeof id === 'string').slice(0, 20)
+      : [];
+
+    if (!query && videoIds.length === 0) {
+      throw new ToolArgumentError('Give video_ids or a query');
+    }
+
+    const describe = (embedding: any, title: string | null, similarity: number | null) => ({
+      video_id: embedding.video_id,
+      title,
+      ...(similarity !== null && { similarity: round(similarity, 3) }),
+      ...Object.fromEntries(
+        ['topic', 'hook', 'format', 'style', 'gimmick', 'poc', 'end_cta'].map((field) => [field, embedding[field] || null])
+      ),
+      script: clip(embedding.script, MAX_SCRIPT_CHARS),
+    });
+
+    if (query) {
+      const results = await this.vectors.search(query, limitArg(args, 5, 20));
+      return {
+        videos: results.map(({ embedding, video, similarity }) => describe(embedding, video?.title ?? null, similarity)),
+      };
+    }
+
+    const [embeddings, videos] = await Promise.all([
+      this.fetchByVideoId('video_embeddings', EMBEDDING_COLUMNS, videoIds),
+      this.fetchByVideoId('youtube_videos', 'video_id, title', videoIds),
+    ]);
+
+    return {
+      videos: videoIds
+        .filter((id: string) => embeddings.has(id))
+        .map((id: string) => describe(embeddings.get(id), videos.get(id)?.title ?? null, null)),
+      ...(embeddings.size < videoIds.length && {
+        missing: videoIds.filter((id: string) => !embeddings.has(id)),
+      }),
+    };
+  }
+
+  private async searchComments(args: Record<string, any>) {
+    const textContains = optionalString(args, 'text_contains');
+    const videoId = optionalString(args, 'video_id');
+    const sentiment = optionalEnum(args, 'sentiment', ['positive', 'neutral', 'negative']);
+    const isQuestion = optionalBoolean(args, 'is_question');
+    const isObjection = optionalBoolean(args, 'is_objection');
+    const theme = optionalString(args, 'theme');
+    const orderBy = optionalEnum(args, 'order_by', ['like_count', 'published_at']) || 'like_count';
+    const limit = limitArg(args, 20, 50);
+
+    let query = this.db
+      .from('youtube_comments')
+      .select('video_id, text, like_count, reply_count, published_at, sentiment, is_question, is_objection, themes', { count: 'exact' });
+
+    if (textContains) query = query.ilike('text', likePattern(textContains));
+    if (videoId) query = query.eq('video_id', videoId);
+    if (sentiment) query = query.eq('sentiment', sentiment);
+    if (isQuestion !== undefined) query = query.eq('is_question', isQuestion);
+    if (isObjection !== undefined) query = query.eq('is_objection', isObjection);
+    // Themes are stored lowercase; braces, quotes and commas would break the array literal
+    if (theme) query = query.contains('themes', [theme.toLowerCase().replace(/[{}",]/g, ' ').replace(/\s+/g, ' ').trim()]);
+
+    const { data, error, count } = await query
+      .order(orderBy, { ascending: false, nullsFirst: false })
+      .limit(limit);
+
+    if (error) {
+      throw error;
+    }
+
+    return {
+      matching: count ?? (data || []).length,
+      comments: (data || []).map((comment: any) => ({ ...comment, text: clip(comment.text, MAX_COMMENT_CHARS) })),
+    };
+  }
+
+  private async fetchByVideoId(table: string, columns: string, videoIds: string[]): Promise<Map<string, any>> {
+    const rows = new Map<string, any>();
+    for (let i = 0; i < videoIds.length; i += LOOKUP_CHUNK_SIZE) {
+      const { data, error } = await this.db
+        .from(table)
+        .select(columns)
+        .in('video_id', videoIds.slice(i, i + LOOKUP_CHUNK_SIZE));
+
+      if (error) {
+        throw error;
+      }
+
+      (data || []).forEach((row: any) => rows.set(row.video_id, row));
+    }
+    return rows;
+  }
+}
+
+export const chatToolsService = new ChatToolsService();
@@ -0,0 +1,198 @@
+import { z } from 'zod';
+import { ContextCitation } from './chat-context.service.js';
+import { CompletionOptions, LLMMessage, LLMProvider, LLMUsage } from './llm-providers.js';
+
+export const DEFAULT_VARIANTS = 3;
+export const MAX_VARIANTS = 6;
+
+// A reply that doesn't match the schema is sent back once with what was wrong
+const MAX_ATTEMPTS = 2;
+
+export interface ScriptVariant {
+  hook: string;
+  // Script beats in order
+  outline: string[];
+  cta: string;
+  // The angle taken and why it should perform
+  angle: string;
+  rationale: string;
+  // Past videos it borrows from: video_id is null when the title isn't one of the context videos
+  borrowed_from: { title: string; video_id: string | null; pattern: string }[];
+}
+
+export interface VariantSet {
+  variants: ScriptVariant[];
+  model: string;
+  // Summed over attempts
+  usage: LLMUsage | null;
+}
+
+export class VariantGenerationError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 502) {
+    super(message);
+    this.name = 'VariantGenerationError';
+    this.statusCode = statusCode;
+  }
+}
+
+// What the model is asked for (JSON Schema) and what the reply is checked against (zod); keep them in step
+const variantJsonSchema = (count: number) => ({
+  type: 'object',
+  properties: {
+    variants: {
+      type: 'array',
+      minItems: count,
+      maxItems: count,
+      items: {
+        type: 'object',
+        properties: {
+          hook: { type: 'string', description: 'The opening line, as spoken or shown in the first seconds' },
+          outline: { type: 'array', items: { type: 'string' }, description: 'The script as beats, in order' },
+          cta: { type: 'string', description: 'The closing call to action' },
+          angle: { type: 'string', description: 'The angle taken and why it should perform for this audience' },
+          rationale: { type: 'string', description: 'Which patterns from the past videos it borrows, and why' },
+          borrowed_from: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                title: { type: 'string', description: 'Title of the past video, as given' },
+                pattern: { type: 'string', description: 'What was borrowed from it' },
+              },
+              required: ['title', 'pattern'],
+              additionalProperties: false,
+            },
+          },
+        },
+        required: ['hook', 'outline', 'cta', 'angle', 'rationale', 'borrowed_from'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['variants'],
+  additionalProperties: false,
+});
+
+const text = z.string().trim().min(1);
+
+const variantSetSchema = (count: number) =>
+  z.object({
+    variants: z
+      .array(
+        z.object({
+          hook: text,
+          outline: z.array(text).min(1),
+          cta: text,
+          angle: text,
+          rationale: text,
+          borrowed_from: z.array(z.object({ title: text, pattern: text })),
+        })
+      )
+      .min(count),
+  });
+
+type ParsedVariant = z.infer<ReturnType<typeof variantSetSchema>>['variants'][number];
+
+/**
+ * Added to the system prompt: what to generate, and variants to stay clear of
+ * when regenerating some of a set
+ */
+export const variantInstructions = (count: number, existing: ScriptVariant[] = []): string => {
+  const lines = [
+    '',
+    '---',
+    '',
+    `Generate exactly ${count} distinct variant${count === 1 ? '' : 's'} for the request that follows, as JSON. Each has a hook, a script outline (beats in order), a closing CTA, the angle it takes and why it should perform, and a rationale naming the patterns it borrows. List those past videos in borrowed_from by their exact title with the pattern taken (an empty list if none applies); the rationale and borrowed_from may refer to the past videos by name. Make the variants differ in angle and hook structure, not just in wording.`,
+  ];
+  if (existing.length > 0) {
+    lines.push(
+      '',
+      'These variants already exist; make yours clearly different from each of them:',
+      JSON.stringify(existing.map(({ hook, angle }) => ({ hook, angle })))
+    );
+  }
+  return lines.join('\n');
+};
+
+const addUsage = (total: LLMUsage | null, usage: LLMUsage | null): LLMUsage | null =>
+  usage
+    ? {
+        prompt_tokens: (total?.prompt_tokens || 0) + usage.prompt_tokens,
+        completion_tokens: (total?.completion_tokens || 0) + usage.completion_tokens,
+        total_tokens: (total?.total_tokens || 0) + usage.total_tokens,
+      }
+    : total;
+
+/**
+ * Generates sets of hook/script variants as structured output. The reply is
+ * parsed and validated against the variant schema; past videos it names are
+ * matched to the context by title.
+ */
+export class ChatVariantsService {
+  async generate(
+    provider: LLMProvider,
+    messages: LLMMessage[],
+    options: CompletionOptions,
+    count: number,
+    citations: ContextCitation[]
+  ): Promise<VariantSet> {
+    const conversation = [...messages];
+    const schema = variantSetSchema(count);
+    let usage: LLMUsage | null = null;
+    let problem = '';
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const completion = await provider.complete(conversation, {
+        ...options,
+        jsonSchema: { name: 'script_variants', schema: variantJsonSchema(count) },
+      });
+      usage = addUsage(usage, completion.usage);
+
+      problem = '';
+      let parsed: unknown;
+      try {
+        // Models without structured output sometimes fence the JSON
+        parsed = JSON.parse(completion.content.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+      } catch {
+        problem = 'the reply is not valid JSON';
+      }
+
+      if (!problem) {
+        const result = schema.safeParse(parsed);
+        if (result.success) {
+          const variants = result.data.variants.slice(0, count).map((variant) => this.linkVideos(variant, citations));
+          return { variants, model: completion.model, usage };
+        }
+        problem = result.error.issues
+          .slice(0, 5)
+          .map((issue) => `${issue.path.join('.') || 'reply'}: ${issue.message}`)
+          .join('; ');
+      }
+
+      conversation.push(
+        { role: 'assistant', content: completion.content },
+        { role: 'user', content: `That reply doesn't match the schema (${problem}). Reply again with the complete JSON object.` }
+      );
+    }
+
+    throw new VariantGenerationError(`The model's variants didn't match the schema: ${problem}`);
+  }
+
+  private linkVideos(variant: ParsedVariant, citations: ContextCitation[]): ScriptVariant {
+    const byTitle = new Map(
+      citations.filter((c) => c.title).map((c) => [c.title!.trim().toLowerCase(), c.video_id])
+    );
+    return {
+      ...variant,
+      borrowed_from: variant.borrowed_from.map(({ title, pattern }) => ({
+        title,
+        video_id: byTitle.get(title.toLowerCase()) ?? null,
+        pattern,
+      })),
+    };
+  }
+}
+
+export const chatVariantsService = new ChatVariantsService();
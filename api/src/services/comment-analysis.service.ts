@@ -0,0 +1,290 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabaseAdmin } from '../config/database.js';
+import { CommentClassifier, createCommentClassifier } from './comment-classifiers.js';
+
+// Comments classified and written back per round trip
+const ANALYZE_BATCH_SIZE = 500;
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// Ids per `in` filter (keeps request URLs short)
+const LOOKUP_CHUNK_SIZE = 200;
+
+// A theme must appear in at least this many comments to be reported
+const MIN_THEME_COMMENTS = 2;
+
+const MAX_THEMES = 12;
+const MAX_HIGHLIGHTS = 10;
+
+export interface CommentHighlight {
+  comment_id: string;
+  video_id: string;
+  text: string;
+  like_count: number;
+  sentiment: string | null;
+}
+
+export interface ThemeSummary {
+  theme: string;
+  count: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  // Most liked comment mentioning the theme
+  example: string;
+}
+
+export interface VideoVoiceSummary {
+  video_id: string;
+  title: string | null;
+  comments: number;
+  average_score: number;
+  negative_share: number;
+  questions: number;
+  objections: number;
+}
+
+export interface CommentInsights {
+  total: number;
+  analyzed: number;
+  sentiment: {
+    positive: number;
+    neutral: number;
+    negative: number;
+    average_score: number;
+  };
+  questions: CommentHighlight[];
+  objections: CommentHighlight[];
+  themes: ThemeSummary[];
+  // Per-video breakdown, only for channel-wide insights
+  videos?: VideoVoiceSummary[];
+}
+
+const byLikes = (a: any, b: any) => (b.like_count || 0) - (a.like_count || 0);
+
+const toHighlight = (comment: any): CommentHighlight => ({
+  comment_id: comment.comment_id,
+  video_id: comment.video_id,
+  text: comment.text,
+  like_count: comment.like_count || 0,
+  sentiment: comment.sentiment,
+});
+
+const averageScore = (comments: any[]) =>
+  comments.length > 0
+    ? Math.round((comments.reduce((sum, c) => sum + (c.sentiment_score || 0), 0) / comments.length) * 100) / 100
+    : 0;
+
+/**
+ * Group comments by the themes they mention, most common first. A keyword
+ * that mostly appears inside an already chosen phrase ("battery" within
+ * "battery life") is folded into that phrase rather than listed again.
+ */
+const clusterThemes = (comments: any[]): ThemeSummary[] => {
+  const members = new Map<string, any[]>();
+  for (const comment of comments) {
+    for (const theme of comment.themes || []) {
+      if (!members.has(theme)) members.set(theme, []);
+      members.get(theme)!.push(comment);
+    }
+  }
+
+  const candidates = Array.from(members.entries())
+    .filter(([, list]) => list.length >= MIN_THEME_COMMENTS)
+    .sort((a, b) => b[1].length - a[1].length || b[0].split(' ').length - a[0].split(' ').length);
+
+  const chosen: [string, any[]][] = [];
+  for (const [theme, list] of candidates) {
+    const coveredBy = chosen.find(([phrase, phraseList]) =>
+      phrase !== theme &&
+      phrase.split(' ').includes(theme) &&
+      phraseList.length >= list.length / 2
+    );
+    if (coveredBy) continue;
+
+    chosen.push([theme, list]);
+    if (chosen.length >= MAX_THEMES) break;
+  }
+
+  return chosen.map(([theme, list]) => ({
+    theme,
+    count: list.length,
+    positive: list.filter((c) => c.sentiment === 'positive').length,
+    neutral: list.filter((c) => c.sentiment === 'neutral').length,
+    negative: list.filter((c) => c.sentiment === 'negative').length,
+    example: [...list].sort(byLikes)[0]?.text || '',
+  }));
+};
+
+/**
+ * Classifies stored comments (sentiment, questions, objections, themes) with
+ * the configured classifier and aggregates the results per video or channel.
+ */
+export class CommentAnalysisService {
+  private classifier: CommentClassifier;
+  private db: SupabaseClient;
+
+  constructor(
+    classifier: CommentClassifier = createCommentClassifier(),
+    db: SupabaseClient = supabaseAdmin
+  ) {
+    this.classifier = classifier;
+    this.db = db;
+  }
+
+  /**
+   * Classify comments that haven't been analyzed yet (or all of them with
+   * force), optionally limited to some videos. Returns how many were analyzed.
+   */
+  async analyzeComments(videoIds?: string[], force = false): Promise<number> {
+    let analyzed = 0;
+    const groups = videoIds ? this.chunk(videoIds, LOOKUP_CHUNK_SIZE) : [null];
+
+    for (const ids of groups) {
+      let offset = 0;
+      while (true) {
+        let query = this.db
+          .from('youtube_comments')
+          .select('comment_id, video_id, text')
+          .order('comment_id')
+          .range(offset, offset + ANALYZE_BATCH_SIZE - 1);
+
+        if (ids) query = query.in('video_id', ids);
+        if (!force) query = query.is('analyzed_at', null);
+
+        const { data, error } = await query;
+
+        if (error) {
+          throw error;
+        }
+
+        const comments = data || [];
+        if (comments.length === 0) break;
+
+        const results = await this.classifier.classify(comments.map((c: any) => c.text || ''));
+        const analyzedAt = new Date().toISOString();
+        const rows = comments.map((comment: any, i: number) => ({
+          comment_id: comment.comment_id,
+          video_id: comment.video_id,
+          text: comment.text,
+          ...results[i],
+          classifier: results[i].classifier || this.classifier.name,
+          analyzed_at: analyzedAt,
+        }));
+
+        const { error: writeError } = await this.db
+          .from('youtube_comments')
+          .upsert(rows, { onConflict: 'comment_id' });
+
+        if (writeError) {
+          throw writeError;
+        }
+
+        analyzed += rows.length;
+        if (comments.length < ANALYZE_BATCH_SIZE) break;
+
+        // Pending comments leave the analyzed_at filter once written, so only re-analysis pages forward
+        if (force) offset += ANALYZE_BATCH_SIZE;
+      }
+    }
+
+    return analyzed;
+  }
+
+  /**
+   * Aggregate sentiment, top questions and objections, and recurring themes
+   * over the comments of the given videos, optionally with a per-video
+   * breakdown.
+   */
+  async getInsights(videoIds: string[], perVideo = false): Promise<CommentInsights> {
+    const comments = await this.loadComments(videoIds);
+    const analyzed = comments.filter((c) => c.analyzed_at);
+
+    const insights: CommentInsights = {
+      total: comments.length,
+      analyzed: analyzed.length,
+      sentiment: {
+        positive: analyzed.filter((c) => c.sentiment === 'positive').length,
+        neutral: analyzed.filter((c) => c.sentiment === 'neutral').length,
+        negative: analyzed.filter((c) => c.sentiment === 'negative').length,
+        average_score: averageScore(analyzed),
+      },
+      questions: analyzed.filter((c) => c.is_question).sort(byLikes).slice(0, MAX_HIGHLIGHTS).map(toHighlight),
+      objections: analyzed.filter((c) => c.is_objection).sort(byLikes).slice(0, MAX_HIGHLIGHTS).map(toHighlight),
+      themes: clusterThemes(analyzed),
+    };
+
+    if (perVideo) {
+      insights.videos = await this.summarizeVideos(analyzed);
+    }
+
+    return insights;
+  }
+
+  private async summarizeVideos(comments: any[]): Promise<VideoVoiceSummary[]> {
+    const byVideo = new Map<string, any[]>();
+    for (const comment of comments) {
+      if (!byVideo.has(comment.video_id)) byVideo.set(comment.video_id, []);
+      byVideo.get(comment.video_id)!.push(comment);
+    }
+
+    const titles = new Map<string, string>();
+    for (const ids of this.chunk(Array.from(byVideo.keys()), LOOKUP_CHUNK_SIZE)) {
+      const { data, error } = await this.db
+        .from('youtube_videos')
+        .select('video_id, title')
+        .in('video_id', ids);
+
+      if (error) {
+        throw error;
+      }
+
+      (data || []).forEach((video: any) => titles.set(video.video_id, video.title));
+    }
+
+    return Array.from(byVideo.entries())
+      .map(([videoId, list]) => ({
+        video_id: videoId,
+        title: titles.get(videoId) || null,
+        comments: list.length,
+        average_score: averageScore(list),
+        negative_share: Math.round((list.filter((c) => c.sentiment === 'negative').length / list.length) * 100) / 100,
+        questions: list.filter((c) => c.is_question).length,
+        objections: list.filter((c) => c.is_objection).length,
+      }))
+      .sort((a, b) => b.comments - a.comments);
+  }
+
+  private async loadComments(videoIds: string[]): Promise<any[]> {
+    const comments: any[] = [];
+    for (const ids of this.chunk(videoIds, LOOKUP_CHUNK_SIZE)) {
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        const { data, error } = await this.db
+          .from('youtube_comments')
+          .select('comment_id, video_id, text, like_count, sentiment, sentiment_score, is_question, is_objection, themes, analyzed_at')
+          .in('video_id', ids)
+          .order('comment_id')
+          .range(offset, offset + PAGE_SIZE - 1);
+
+        if (error) {
+          throw error;
+        }
+
+        comments.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+    }
+    return comments;
+  }
+
+  private chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+      chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+  }
+}
+
+export const commentAnalysisService = new CommentAnalysisService();
@@ -0,0 +1,223 @@
+import OpenAI from 'openai';
+import { env } from '../config/env.js';
+import { createOpenAIClient } from './llm-providers.js';
+
+export type CommentSentiment = 'positive' | 'neutral' | 'negative';
+
+export interface CommentClassification {
+  sentiment: CommentSentiment;
+  // -1 (negative) to 1 (positive)
+  sentiment_score: number;
+  is_question: boolean;
+  // Pushback on the product or claim (price, trust, "doesn't work", ...)
+  is_objection: boolean;
+  // Short lowercase keywords or phrases the comment is about
+  themes: string[];
+  // Set when a different classifier than the configured one produced this result
+  classifier?: string;
+}
+
+/**
+ * Classifies comment texts. Implementations must return one result per
+ * input text, in order.
+ */
+export interface CommentClassifier {
+  name: string;
+  classify(texts: string[]): Promise<CommentClassification[]>;
+}
+
+const POSITIVE_WORDS = new Set([
+  'love', 'loved', 'loving', 'great', 'awesome', 'amazing', 'best', 'good', 'nice', 'cool',
+  'helpful', 'useful', 'thanks', 'thank', 'perfect', 'excellent', 'brilliant', 'fantastic', 'genius',
+  'wow', 'fire', 'favorite', 'favourite', 'clean', 'easy', 'fun', 'beautiful', 'incredible', 'wonderful',
+  'recommend', 'worth', 'works', 'saved', 'impressive', 'underrated', 'legend', 'goat', 'insane',
+]);
+
+const NEGATIVE_WORDS = new Set([
+  'hate', 'bad', 'worst', 'terrible', 'awful', 'boring', 'useless', 'broken', 'bug', 'buggy', 'scam',
+  'fake', 'clickbait', 'expensive', 'overpriced', 'slow', 'annoying', 'disappointed', 'disappointing',
+  'trash', 'garbage', 'confusing', 'wrong', 'fail', 'failed', 'fails', 'problem', 'issue', 'issues',
+  'crash', 'crashes', 'lag', 'laggy', 'waste', 'misleading', 'spam', 'cringe', 'meh', 'sucks', 'ugly',
+]);
+
+const NEGATORS = new Set(['not', 'no', 'never', "don't", 'dont', "doesn't", 'doesnt', "isn't", 'isnt', "wasn't", 'wasnt', "can't", 'cant', "won't", 'wont']);
+
+const INTENSIFIERS = new Set(['very', 'really', 'so', 'super', 'extremely', 'absolutely', 'totally']);
+
+const QUESTION_STARTERS = /^(who|what|when|where|why|how|which|is|are|can|could|does|do|did|will|would|should|has|have|any|anyone)\b/;
+
+// Phrases that signal pushback rather than just a bad mood
+const OBJECTION_PATTERNS = [
+  /too (expensive|pricey|much|complicated|hard)/,
+  /\b(overpriced|scam|clickbait|misleading|fake|gimmick)\b/,
+  /\bnot worth\b/,
+  /\b(doesn'?t|does not|didn'?t|won'?t|can'?t) (work|help|load|sync|connect)\b/,
+  /\bwhy (would|should) (i|anyone)\b/,
+  /\bi'?ll (stick with|keep using)\b/,
+  /\b(just use|already have|better off)\b/,
+  /\b(privacy|security|data) (concern|issue|risk)/,
+  /\bcancel(l?ed)? my\b/,
+  /\bwhat about\b/,
+];
+
+const STOPWORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'if', 'then', 'so', 'to', 'of', 'in', 'on', 'at', 'for', 'with',
+  'this', 'that', 'these', 'those', 'it', 'its', "it's", 'is', 'are', 'was', 'were', 'be', 'been', 'am',
+  'i', 'me', 'my', 'you', 'your', 'we', 'our', 'they', 'them', 'their', 'he', 'she', 'his', 'her',
+  'do', 'does', 'did', 'have', 'has', 'had', 'can', 'could', 'will', 'would', 'should', 'just', 'like',
+  'what', 'when', 'where', 'why', 'how', 'who', 'which', 'all', 'any', 'some', 'more', 'most', 'much',
+  'very', 'really', 'too', 'also', 'about', 'from', 'as', 'by', 'up', 'out', 'not', 'no', 'yes', 'one',
+  'get', 'got', 'make', 'made', 'use', 'using', 'used', 'there', 'here', 'than', 'now', 'only', 'way',
+  'video', 'videos', 'thing', 'things', 'lol', 'omg', 'im', "i'm", 'dont', "don't", 'know', 'need',
+  'want', 'see', 'thanks', 'thank', 'please', 'still', 'even', 'been', 'being', 'into', 'over', 'well',
+  "i'll", "i've", "i'd", "you're", "that's", "there's", "can't", "won't", "doesn't", "isn't", 'ill', 'ive',
+]);
+
+// Sentiment words say how people feel, not what they're talking about
+const isThemeWord = (token: string) =>
+  token.length >= 3 && !STOPWORDS.has(token) && !POSITIVE_WORDS.has(token) && !NEGATIVE_WORDS.has(token) && !/^\d+$/.test(token);
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().match(/[a-z0-9']+/g)?.map((token) => token.replace(/^'+|'+$/g, '')).filter(Boolean) || [];
+
+/**
+ * Normalise a keyword so plural and singular forms group together
+ */
+const stem = (word: string): string =>
+  word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+
+/**
+ * Dependency-free default: word-list sentiment with negation handling,
+ * punctuation and pattern based question/objection flags, and keyword
+ * (unigram + bigram) themes.
+ */
+export class LexiconClassifier implements CommentClassifier {
+  name = 'lexicon';
+
+  async classify(texts: string[]): Promise<CommentClassification[]> {
+    return texts.map((text) => this.classifyOne(text));
+  }
+
+  private classifyOne(text: string): CommentClassification {
+    const lower = text.toLowerCase().trim();
+    const tokens = tokenize(lower);
+
+    let score = 0;
+    let hits = 0;
+    tokens.forEach((token, i) => {
+      const polarity = POSITIVE_WORDS.has(token) ? 1 : NEGATIVE_WORDS.has(token) ? -1 : 0;
+      if (!polarity) return;
+
+      const window = tokens.slice(Math.max(0, i - 3), i);
+      const negated = window.some((word) => NEGATORS.has(word));
+      const weight = INTENSIFIERS.has(tokens[i - 1]) ? 1.5 : 1;
+      score += (negated ? -polarity : polarity) * weight;
+      hits++;
+    });
+
+    // Emoji carry a lot of the sentiment in short-form comments
+    score += (lower.match(/😍|🔥|❤️|👏|🙌|💯|😂|🤩|👍/gu)?.length || 0) * 0.5;
+    score -= (lower.match(/👎|😡|🤮|😒|🙄|💩/gu)?.length || 0) * 0.5;
+
+    const normalized = hits > 0 || score !== 0 ? Math.max(-1, Math.min(1, score / Math.max(hits, 1))) : 0;
+    const sentiment: CommentSentiment = normalized > 0.2 ? 'positive' : normalized < -0.2 ? 'negative' : 'neutral';
+
+    const isQuestion = lower.includes('?') || QUESTION_STARTERS.test(lower);
+    const isObjection = OBJECTION_PATTERNS.some((pattern) => pattern.test(lower));
+
+    const keywords = tokens.filter(isThemeWord).map(stem);
+    // Phrases don't span punctuation ("not good, battery" is not a theme)
+    const bigrams: string[] = [];
+    for (const clause of lower.split(/[.,!?;:\n]+/)) {
+      const words = tokenize(clause);
+      for (let i = 0; i < words.length - 1; i++) {
+        if (isThemeWord(words[i]) && isThemeWord(words[i + 1])) {
+          bigrams.push(`${stem(words[i])} ${stem(words[i + 1])}`);
+        }
+      }
+    }
+
+    return {
+      sentiment,
+      sentiment_score: Math.round(normalized * 100) / 100,
+      is_question: isQuestion,
+      is_objection: isObjection,
+      themes: Array.from(new Set([...bigrams, ...keywords])),
+    };
+  }
+}
+
+// Comments sent per chat completion
+const OPENAI_BATCH_SIZE = 40;
+
+const OPENAI_PROMPT = `Classify each YouTube comment. Reply with JSON: {"results": [...]} with one entry per comment, in order, each:
+{"sentiment": "positive" | "neutral" | "negative", "score": number from -1 to 1, "question": boolean, "objection": boolean, "themes": [1-3 short lowercase topic phrases]}
+An objection is pushback on the product or claim (price, trust, doesn't work, prefers a competitor).`;
+
+/**
+ * Classifies with an OpenAI chat model in batches, asking for JSON output.
+ * Batches that fail or come back malformed fall back to the lexicon.
+ */
+export class OpenAIClassifier implements CommentClassifier {
+  name = 'openai';
+  private apiKey: string | undefined;
+  private client: OpenAI | null = null;
+  private fallback = new LexiconClassifier();
+
+  constructor(apiKey: string | undefined = env.OPENAI_API_KEY) {
+    this.apiKey = apiKey;
+  }
+
+  async classify(texts: string[]): Promise<CommentClassification[]> {
+    const results: CommentClassification[] = [];
+    for (let i = 0; i < texts.length; i += OPENAI_BATCH_SIZE) {
+      results.push(...(await this.classifyBatch(texts.slice(i, i + OPENAI_BATCH_SIZE))));
+    }
+    return results;
+  }
+
+  private async classifyBatch(texts: string[]): Promise<CommentClassification[]> {
+    try {
+      // Created on first use; without a key every batch falls back to the lexicon
+      this.client ??= createOpenAIClient(this.apiKey);
+      const completion = await this.client.chat.completions.create({
+        model: 'gpt-4o-mini',
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: OPENAI_PROMPT },
+          { role: 'user', content: JSON.stringify(texts.map((text, index) => ({ index, text: text.slice(0, 1000) }))) },
+        ],
+      });
+
+      const parsed = JSON.parse(completion.choices[0]?.message?.content || '{}');
+      const items: any[] = parsed.results;
+      if (!Array.isArray(items) || items.length !== texts.length) {
+        throw new Error(`expected ${texts.length} results, got ${Array.isArray(items) ? items.length : 'none'}`);
+      }
+
+      return items.map((item) => {
+        const score = Math.max(-1, Math.min(1, Number(item.score) || 0));
+        return {
+          sentiment: ['positive', 'neutral', 'negative'].includes(item.sentiment) ? item.sentiment : 'neutral',
+          sentiment_score: Math.round(score * 100) / 100,
+          is_question: !!item.question,
+          is_objection: !!item.objection,
+          themes: Array.isArray(item.themes)
+            ? item.themes.map((theme: unknown) => String(theme).toLowerCase().trim()).filter(Boolean).slice(0, 3)
+            : [],
+        };
+      });
+    } catch (error: any) {
+      console.warn(`OpenAI comment classification failed, using lexicon for ${texts.length} comments:`, error.message);
+      const results = await this.fallback.classify(texts);
+      return results.map((result) => ({ ...result, classifier: this.fallback.name }));
+    }
+  }
+}
+
+/**
+ * The classifier selected by COMMENT_CLASSIFIER
+ */
+export const createCommentClassifier = (): CommentClassifier =>
+  env.COMMENT_CLASSIFIER === 'openai' ? new OpenAIClassifier() : new LexiconClassifier();
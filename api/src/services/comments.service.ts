@@ -0,0 +1,224 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabaseAdmin } from '../config/database.js';
+import { YouTubeService } from './youtube.service.js';
+import { quotaService, QuotaService, QuotaExceededError, QUOTA_COSTS } from './quota.service.js';
+
+// Comment pages (of 100 threads) fetched per video per sync
+const MAX_COMMENT_PAGES = 3;
+
+// Ids per `in` filter when loading video rows
+const LOOKUP_CHUNK_SIZE = 200;
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+export interface CommentSyncResult {
+  videosChecked: number;
+  commentsInserted: number;
+  commentsUpdated: number;
+  errors: number;
+}
+
+/**
+ * Map a commentThread resource to a youtube_comments row
+ */
+const toCommentRow = (thread: any, videoId: string) => {
+  const snippet = thread.snippet?.topLevelComment?.snippet || {};
+  return {
+    comment_id: thread.id,
+    video_id: videoId,
+    author_display_name: snippet.authorDisplayName || null,
+    author_channel_id: snippet.authorChannelId?.value || null,
+    author_profile_image_url: snippet.authorProfileImageUrl || null,
+    text: snippet.textOriginal ?? snippet.textDisplay ?? '',
+    like_count: snippet.likeCount || 0,
+    reply_count: thread.snippet?.totalReplyCount || 0,
+    published_at: snippet.publishedAt,
+    edited_at: snippet.updatedAt && snippet.updatedAt !== snippet.publishedAt ? snippet.updatedAt : null,
+  };
+};
+
+/**
+ * Pulls top-level comments for synced videos into youtube_comments.
+ * Only videos whose comment_count grew since their last comment fetch are
+ * visited, each is capped at MAX_COMMENT_PAGES pages, and fetching stops
+ * (without failing the sync) once the quota budget can't cover another video.
+ */
+export class CommentsService {
+  private youtubeService: YouTubeService;
+  private db: SupabaseClient;
+  private quota: QuotaService;
+
+  constructor(
+    youtubeService: YouTubeService = new YouTubeService(),
+    db: SupabaseClient = supabaseAdmin,
+    quota: QuotaService = quotaService
+  ) {
+    this.youtubeService = youtubeService;
+    this.db = db;
+    this.quota = quota;
+  }
+
+  async syncComments(videoIds: string[]): Promise<CommentSyncResult> {
+    const result: CommentSyncResult = { videosChecked: 0, commentsInserted: 0, commentsUpdated: 0, errors: 0 };
+    const pending = await this.loadVideosWithNewComments(videoIds);
+
+    for (const video of pending) {
+      if (!(await this.quota.canAfford(MAX_COMMENT_PAGES * QUOTA_COSTS.commentThreads))) {
+        console.warn(`Skipping comments for ${pending.length - result.videosChecked} videos: quota budget low`);
+        break;
+      }
+
+      try {
+        const { inserted, updated } = await this.syncVideoComments(video.video_id, video.comment_count);
+        result.videosChecked++;
+        result.commentsInserted += inserted;
+        result.commentsUpdated += updated;
+      } catch (error: any) {
+        if (error instanceof QuotaExceededError) {
+          console.warn('Stopping comment sync:', error.message);
+          break;
+        }
+        console.error(`Error syncing comments for ${video.video_id}:`, error);
+        result.videosChecked++;
+        result.errors++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Estimate the quota units a sync of this channel will spend on comments:
+   * every video already behind on comments, at the page cap. Counts that
+   * grow during the sync itself aren't known yet; those are fetched only
+   * while the budget allows.
+   */
+  async estimateQuotaCost(channelId: string, publishedAfter?: string): Promise<number> {
+    let pending = 0;
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      let query = this.db
+        .from('youtube_videos')
+        .select('video_id, comment_count, comments_fetched_count')
+        .eq('channel_id', channelId)
+        .neq('status', 'gone')
+        .order('video_id')
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (publishedAfter) {
+        query = query.gte('published_at', publishedAfter);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw error;
+      }
+
+      pending += (data || []).filter((video: any) => (video.comment_count || 0) > (video.comments_fetched_count || 0)).length;
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return pending * MAX_COMMENT_PAGES * QUOTA_COSTS.commentThreads;
+  }
+
+  /**
+   * Fetch new comment threads for one video. New comments are inserted with
+   * first_seen_at set to this run; already stored ones get their likes,
+   * reply count and text refreshed.
+   */
+  private async syncVideoComments(
+    videoId: string,
+    commentCount: number
+  ): Promise<{ inserted: number; updated: number }> {
+    const syncStartedAt = new Date().toISOString();
+
+    const known: any[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await this.db
+        .from('youtube_comments')
+        .select('comment_id, text, analyzed_at')
+        .eq('video_id', videoId)
+        .order('comment_id')
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw error;
+      }
+
+      known.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const knownComments = new Map(known.map((row: any) => [row.comment_id, row]));
+    const knownIds = new Set(knownComments.keys());
+    const threads = await this.youtubeService.getCommentThreads(videoId, knownIds, MAX_COMMENT_PAGES);
+    const rows = threads.map((thread) => ({ ...toCommentRow(thread, videoId), last_seen_at: syncStartedAt }));
+
+    const newRows = rows
+      .filter((row) => !knownIds.has(row.comment_id))
+      .map((row) => ({ ...row, first_seen_at: syncStartedAt }));
+    // Edited comments are queued for analysis again
+    const existingRows = rows
+      .filter((row) => knownIds.has(row.comment_id))
+      .map((row) => {
+        const stored = knownComments.get(row.comment_id);
+        return { ...row, analyzed_at: stored.text === row.text ? stored.analyzed_at : null };
+      });
+
+    if (newRows.length > 0) {
+      // Upserted in case a comment was stored between the lookup and now
+      const { error } = await this.db
+        .from('youtube_comments')
+        .upsert(newRows, { onConflict: 'comment_id' });
+      if (error) throw error;
+    }
+
+    if (existingRows.length > 0) {
+      const { error } = await this.db
+        .from('youtube_comments')
+        .upsert(existingRows, { onConflict: 'comment_id' });
+      if (error) throw error;
+    }
+
+    const { error: videoError } = await this.db
+      .from('youtube_videos')
+      .update({ comments_fetched_count: commentCount, comments_synced_at: syncStartedAt })
+      .eq('video_id', videoId);
+
+    if (videoError) {
+      throw videoError;
+    }
+
+    return { inserted: newRows.length, updated: existingRows.length };
+  }
+
+  /**
+   * Load the given videos whose comment_count is higher than at their last
+   * comment fetch, busiest first
+   */
+  private async loadVideosWithNewComments(
+    videoIds: string[]
+  ): Promise<{ video_id: string; comment_count: number }[]> {
+    const videos: any[] = [];
+    for (let i = 0; i < videoIds.length; i += LOOKUP_CHUNK_SIZE) {
+      const { data, error } = await this.db
+        .from('youtube_videos')
+        .select('video_id, comment_count, comments_fetched_count')
+        .in('video_id', videoIds.slice(i, i + LOOKUP_CHUNK_SIZE))
+        .neq('status', 'gone');
+
+      if (error) {
+        throw error;
+      }
+
+      videos.push(...(data || []));
+    }
+
+    return videos
+      .filter((video) => (video.comment_count || 0) > (video.comments_fetched_count || 0))
+      .sort((a, b) =>
+        (b.comment_count - (b.comments_fetched_count || 0)) - (a.comment_count - (a.comments_fetched_count || 0))
+      );
+  }
+}
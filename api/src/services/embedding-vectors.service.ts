@@ -0,0 +1,253 @@
+import { createHash } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabaseAdmin } from '../config/database.js';
+import { TextEmbedder, OpenAIEmbedder } from './text-embedders.js';
+import { VectorStore, VectorMatch, createVectorStore } from './vector-stores.js';
+
+// video_embeddings fields that make up a row's vector, in document order
+const DOCUMENT_FIELDS = [
+  { key: 'topic', label: 'Topic' },
+  { key: 'hook', label: 'Hook' },
+  { key: 'format', label: 'Format' },
+  { key: 'style', label: 'Style' },
+  { key: 'gimmick', label: 'Gimmick' },
+  { key: 'poc', label: 'Proof of concept' },
+  { key: 'end_cta', label: 'End CTA' },
+  { key: 'script', label: 'Script' },
+  { key: 'embedding_text', label: 'Notes' },
+] as const;
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// Ids per `in` filter (keeps request URLs short)
+const LOOKUP_CHUNK_SIZE = 200;
+
+// Scripts can be long; the embedding model reads at most ~8k tokens
+const MAX_DOCUMENT_CHARS = 12000;
+
+export interface ReindexResult {
+  embedded: number;
+  unchanged: number;
+  removed: number;
+}
+
+export interface EmbeddingSearchResult {
+  similarity: number;
+  embedding: any;
+  video: any | null;
+}
+
+/**
+ * The text a video_embeddings row is embedded from: its filled-in fields,
+ * one labelled line each. Empty for rows with nothing filled in.
+ */
+export const buildEmbeddingDocument = (row: any): string =>
+  DOCUMENT_FIELDS
+    .filter(({ key }) => typeof row[key] === 'string' && row[key].trim())
+    .map(({ key, label }) => `${label}: ${row[key].trim()}`)
+    .join('\n')
+    .slice(0, MAX_DOCUMENT_CHARS);
+
+/**
+ * Keeps a vector for every video_embeddings row in the configured store and
+ * answers semantic searches over them. Rows are re-embedded only when the
+ * text they're built from (or the embedding model) changes.
+ */
+export class EmbeddingVectorService {
+  private embedder: TextEmbedder;
+  private store: VectorStore;
+  private db: SupabaseClient;
+  private indexing: Promise<ReindexResult> | null = null;
+
+  constructor(
+    embedder: TextEmbedder = new OpenAIEmbedder(),
+    store: VectorStore = createVectorStore(),
+    db: SupabaseClient = supabaseAdmin
+  ) {
+    this.embedder = embedder;
+    this.store = store;
+    this.db = db;
+  }
+
+  /**
+   * Re-embed one row after its fields were written. Returns true when a new
+   * vector was stored.
+   */
+  async refresh(id: string): Promise<boolean> {
+    const { data: row, error } = await this.db
+      .from('video_embeddings')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!row) {
+      await this.store.remove([id]);
+      return false;
+    }
+
+    const [embedded] = await this.embedRows([row], await this.store.storedHashes([id]));
+    return embedded > 0;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.store.remove([id]);
+  }
+
+  /**
+   * Embed every row whose text changed since it was last embedded, and drop
+   * vectors of rows that no longer exist or have no text.
+   */
+  async reindex(): Promise<ReindexResult> {
+    // Concurrent callers share one pass
+    if (!this.indexing) {
+      this.indexing = this.runReindex().finally(() => {
+        this.indexing = null;
+      });
+    }
+    return this.indexing;
+  }
+
+  /**
+   * Rows closest in meaning to the query, with their video's title and
+   * performance numbers
+   */
+  async search(query: string, limit: number): Promise<EmbeddingSearchResult[]> {
+    if (!this.store.persistent) {
+      await this.reindex();
+    }
+
+    const [vector] = await this.embedder.embed([query]);
+    return this.resolveMatches(await this.store.search(vector, limit));
+  }
+
+  /**
+   * Rows closest to an already stored row, excluding the row itself.
+   * Returns null when that row has no vector (no text filled in yet).
+   */
+  async searchSimilarTo(id: string, limit: number): Promise<EmbeddingSearchResult[] | null> {
+    if (!this.store.persistent) {
+      await this.reindex();
+    }
+
+    const vector = await this.store.getVector(id);
+    if (!vector) {
+      return null;
+    }
+
+    return this.resolveMatches(await this.store.search(vector, limit, [id]));
+  }
+
+  private async runReindex(): Promise<ReindexResult> {
+    const rows: any[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await this.db
+        .from('video_embeddings')
+        .select(`id, ${DOCUMENT_FIELDS.map(({ key }) => key).join(', ')}`)
+        .order('id')
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw error;
+      }
+
+      rows.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const stored = await this.store.storedHashes();
+    const [embedded, unchanged] = await this.embedRows(rows, stored);
+
+    const withText = new Set(rows.filter((row) => buildEmbeddingDocument(row)).map((row) => row.id));
+    const stale = Array.from(stored.keys()).filter((id) => !withText.has(id));
+    await this.store.remove(stale);
+
+    return { embedded, unchanged, removed: stale.length };
+  }
+
+  /**
+   * Embed the rows whose document hash differs from the stored one.
+   * Returns [embedded, unchanged] counts.
+   */
+  private async embedRows(rows: any[], stored: Map<string, string>): Promise<[number, number]> {
+    const pending: { id: string; document: string; hash: string }[] = [];
+    const empty: string[] = [];
+    let unchanged = 0;
+
+    for (const row of rows) {
+      const document = buildEmbeddingDocument(row);
+      if (!document) {
+        if (stored.has(row.id)) empty.push(row.id);
+        continue;
+      }
+
+      const hash = createHash('sha1').update(`${this.embedder.model}\n${document}`).digest('hex');
+      if (stored.get(row.id) === hash) {
+        unchanged++;
+      } else {
+        pending.push({ id: row.id, document, hash });
+      }
+    }
+
+    await this.store.remove(empty);
+
+    if (pending.length > 0) {
+      const vectors = await this.embedder.embed(pending.map((item) => item.document));
+      await this.store.upsert(
+        pending.map((item, i) => ({ id: item.id, vector: vectors[i], hash: item.hash, model: this.embedder.model }))
+      );
+    }
+
+    return [pending.length, unchanged];
+  }
+
+  private async resolveMatches(matches: VectorMatch[]): Promise<EmbeddingSearchResult[]> {
+    if (matches.length === 0) {
+      return [];
+    }
+
+    const { data: rows, error } = await this.db
+      .from('video_embeddings')
+      .select(`id, video_id, created_at, ${DOCUMENT_FIELDS.map(({ key }) => key).join(', ')}`)
+      .in('id', matches.map((match) => match.id));
+
+    if (error) {
+      throw error;
+    }
+
+    const rowById = new Map((rows || []).map((row: any) => [row.id, row]));
+    const videoIds = (rows || []).map((row: any) => row.video_id).filter(Boolean);
+
+    const videoById = new Map<string, any>();
+    for (let i = 0; i < videoIds.length; i += LOOKUP_CHUNK_SIZE) {
+      const { data: videos, error: videosError } = await this.db
+        .from('youtube_videos')
+        .select('video_id, title, thumbnail_url, published_at, content_type, status, view_count, like_count, comment_count, engagement_rate, views_per_day')
+        .in('video_id', videoIds.slice(i, i + LOOKUP_CHUNK_SIZE));
+
+      if (videosError) {
+        throw videosError;
+      }
+
+      (videos || []).forEach((video: any) => videoById.set(video.video_id, video));
+    }
+
+    // Rows deleted since they were indexed drop out here
+    return matches
+      .filter((match) => rowById.has(match.id))
+      .map((match) => {
+        const embedding: any = rowById.get(match.id);
+        return {
+          similarity: Math.round(match.similarity * 1000) / 1000,
+          embedding,
+          video: embedding.video_id ? videoById.get(embedding.video_id) || null : null,
+        };
+      });
+  }
+}
+
+export const embeddingVectorService = new EmbeddingVectorService();
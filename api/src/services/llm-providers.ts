@@ -0,0 +1,565 @@
+import OpenAI from 'openai';
+import { env } from '../config/env.js';
+
+export const LLM_PROVIDER_NAMES = ['openai', 'anthropic', 'ollama', 'mock'] as const;
+
+export type LLMProviderName = typeof LLM_PROVIDER_NAMES[number];
+
+/**
+ * A tool the model may call: its arguments are described by a JSON Schema
+ * object
+ */
+export interface LLMTool {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  // Tools an assistant message asked to call
+  toolCalls?: LLMToolCall[];
+  // The call a tool message answers
+  toolCallId?: string;
+}
+
+export interface LLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface CompletionOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a single JSON object as the reply
+  json?: boolean;
+  // Ask for a JSON object matching this JSON Schema (strict: every property
+  // required, no additional properties); the caller still validates it
+  jsonSchema?: { name: string; schema: Record<string, any> };
+  // Tools the model may call instead of (or before) replying
+  tools?: LLMTool[];
+  signal?: AbortSignal;
+}
+
+export interface Completion {
+  content: string;
+  model: string;
+  usage: LLMUsage | null;
+  toolCalls: LLMToolCall[];
+}
+
+export type CompletionChunk =
+  | { type: 'delta'; content: string }
+  | { type: 'tool_call'; call: LLMToolCall }
+  | { type: 'usage'; usage: LLMUsage };
+
+/**
+ * A chat model backend. `stream` yields the reply in pieces as they are
+ * generated, each tool call once its arguments are complete, then its usage
+ * when the backend reports one.
+ */
+export interface LLMProvider {
+  name: LLMProviderName;
+  defaultModel: string;
+  // False when required settings (API key) are missing; calls then throw
+  configured: boolean;
+  complete(messages: LLMMessage[], options?: CompletionOptions): Promise<Completion>;
+  stream(messages: LLMMessage[], options?: CompletionOptions): AsyncIterable<CompletionChunk>;
+}
+
+export class LLMProviderError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.statusCode = statusCode;
+  }
+}
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  ollama: 'llama3.1',
+  mock: 'mock-echo',
+};
+
+/**
+ * A numeric env setting, or the fallback when it is malformed (parses to NaN)
+ */
+const finiteOr = (value: number, fallback: number): number => (Number.isFinite(value) ? value : fallback);
+
+// Sampling settings used when a request doesn't set its own
+export const DEFAULT_TEMPERATURE = finiteOr(env.LLM_TEMPERATURE, 0.7);
+export const DEFAULT_MAX_TOKENS = finiteOr(env.LLM_MAX_TOKENS, 2048);
+
+// List prices, USD per million tokens [input, output]
+const MODEL_PRICES: Record<string, [number, number]> = {
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4o': [2.5, 10],
+  'gpt-4.1-mini': [0.4, 1.6],
+  'gpt-4.1': [2, 8],
+  'claude-3-5-haiku-latest': [0.8, 4],
+  'claude-3-5-sonnet-latest': [3, 15],
+};
+
+const JSON_INSTRUCTION = 'Reply with a single JSON object and nothing else.';
+
+/**
+ * An OpenAI client, or a clear error when the key isn't set (the SDK would
+ * otherwise throw a generic one on construction)
+ */
+export const createOpenAIClient = (apiKey: string | undefined = env.OPENAI_API_KEY, baseURL?: string): OpenAI => {
+  if (!apiKey) {
+    throw new LLMProviderError('OPENAI_API_KEY is not set', 503);
+  }
+  return new OpenAI({ apiKey, baseURL });
+};
+
+// Arguments arrive as JSON text; a malformed object becomes empty rather than failing the reply
+const parseToolArguments = (text: string | undefined): Record<string, any> => {
+  try {
+    const parsed = JSON.parse(text || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const toOpenAIMessages = (messages: LLMMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] =>
+  messages.map((message): OpenAI.Chat.ChatCompletionMessageParam => {
+    switch (message.role) {
+      case 'tool':
+        return { role: 'tool', tool_call_id: message.toolCallId || '', content: message.content };
+      case 'assistant':
+        return message.toolCalls?.length
+          ? {
+              role: 'assistant',
+              content: message.content || null,
+              tool_calls: message.toolCalls.map((call) => ({
+                id: call.id,
+                type: 'function' as const,
+                function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+              })),
+            }
+          : { role: 'assistant', content: message.content };
+      default:
+        return { role: message.role, content: message.content };
+    }
+  });
+
+const toOpenAIResponseFormat = (
+  options: CompletionOptions
+): OpenAI.Chat.ChatCompletionCreateParams['response_format'] | undefined => {
+  if (options.jsonSchema) {
+    return { type: 'json_schema', json_schema: { ...options.jsonSchema, strict: true } };
+  }
+  return options.json ? { type: 'json_object' } : undefined;
+};
+
+const toOpenAITools = (tools: LLMTool[] | undefined): OpenAI.Chat.ChatCompletionTool[] | undefined =>
+  tools?.length
+    ? tools.map((tool) => ({
+        type: 'function' as const,
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+      }))
+    : undefined;
+
+/**
+ * Upper-bound cost in USD of a request, or null when the model's price isn't
+ * known. Local and mock models are free.
+ */
+export const estimateCost = (provider: LLMProviderName, model: string, inputTokens: number, outputTokens: number): number | null => {
+  if (provider === 'ollama' || provider === 'mock') {
+    return 0;
+  }
+  const prices = MODEL_PRICES[model];
+  return prices ? Number(((inputTokens * prices[0] + outputTokens * prices[1]) / 1_000_000).toFixed(6)) : null;
+};
+
+/**
+ * OpenAI's chat completions API, or any server that implements it (Ollama
+ * serves one at /v1)
+ */
+export class OpenAIProvider implements LLMProvider {
+  name: LLMProviderName;
+  defaultModel: string;
+  configured: boolean;
+  private apiKey: string | undefined;
+  private baseURL: string | undefined;
+  private client: OpenAI | null = null;
+
+  constructor(name: LLMProviderName, apiKey: string | undefined, baseURL: string | undefined, defaultModel: string) {
+    this.name = name;
+    this.apiKey = apiKey;
+    this.baseURL = baseURL;
+    this.defaultModel = defaultModel;
+    this.configured = !!apiKey;
+  }
+
+  async complete(messages: LLMMessage[], options: CompletionOptions = {}): Promise<Completion> {
+    const model = options.model || this.defaultModel;
+    const completion = await this.getClient().chat.completions.create(
+      {
+        model,
+        messages: toOpenAIMessages(messages),
+        tools: toOpenAITools(options.tools),
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+        response_format: toOpenAIResponseFormat(options),
+      },
+      { signal: options.signal }
+    );
+
+    const message = completion.choices[0]?.message;
+    return {
+      content: message?.content || '',
+      model: completion.model || model,
+      usage: completion.usage || null,
+      toolCalls: (message?.tool_calls || [])
+        .filter((call) => call.type === 'function')
+        .map((call: any) => ({ id: call.id, name: call.function.name, arguments: parseToolArguments(call.function.arguments) })),
+    };
+  }
+
+  async *stream(messages: LLMMessage[], options: CompletionOptions = {}): AsyncIterable<CompletionChunk> {
+    const stream = await this.getClient().chat.completions.create(
+      {
+        model: options.model || this.defaultModel,
+        messages: toOpenAIMessages(messages),
+        tools: toOpenAITools(options.tools),
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+        stream: true,
+        stream_options: { include_usage: true },
+        response_format: toOpenAIResponseFormat(options),
+      },
+      { signal: options.signal }
+    );
+
+    // Tool calls arrive in fragments keyed by index; they're complete when the stream ends
+    const calls: { id: string; name: string; arguments: string }[] = [];
+    let usage: LLMUsage | null = null;
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.content) yield { type: 'delta', content: delta.content };
+      (delta?.tool_calls || []).forEach((fragment) => {
+        const call = (calls[fragment.index] ??= { id: '', name: '', arguments: '' });
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+      });
+      if (chunk.usage) usage = chunk.usage;
+    }
+
+    for (const call of calls.filter(Boolean)) {
+      yield { type: 'tool_call', call: { id: call.id, name: call.name, arguments: parseToolArguments(call.arguments) } };
+    }
+    if (usage) yield { type: 'usage', usage };
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      if (!this.apiKey) {
+        throw new LLMProviderError(`LLM provider '${this.name}' is not configured (no API key)`, 503);
+      }
+      this.client = createOpenAIClient(this.apiKey, this.baseURL);
+    }
+    return this.client;
+  }
+}
+
+/**
+ * The Anthropic Messages API, or a server compatible with it. System
+ * messages are sent as the `system` parameter; the rest must alternate
+ * user/assistant starting with user, so same-role neighbours are merged.
+ */
+export class AnthropicProvider implements LLMProvider {
+  name: LLMProviderName = 'anthropic';
+  defaultModel: string;
+  configured: boolean;
+  private apiKey: string | undefined;
+  private baseURL: string;
+
+  constructor(apiKey: string | undefined, baseURL: string, defaultModel: string) {
+    this.apiKey = apiKey;
+    this.baseURL = baseURL.replace(/\/$/, '');
+    this.defaultModel = defaultModel;
+    this.configured = !!apiKey;
+  }
+
+  async complete(messages: LLMMessage[], options: CompletionOptions = {}): Promise<Completion> {
+    const response = await this.request(messages, options, false);
+    const data: any = await response.json();
+
+    const usage = data.usage
+      ? {
+          prompt_tokens: data.usage.input_tokens || 0,
+          completion_tokens: data.usage.output_tokens || 0,
+          total_tokens: (data.usage.input_tokens || 0) + (data.usage.output_tokens || 0),
+        }
+      : null;
+
+    const blocks: any[] = data.content || [];
+    return {
+      content: blocks.filter((block) => block.type === 'text').map((block) => block.text).join(''),
+      model: data.model || options.model || this.defaultModel,
+      usage,
+      toolCalls: blocks
+        .filter((block) => block.type === 'tool_use')
+        .map((block) => ({ id: block.id, name: block.name, arguments: block.input || {} })),
+    };
+  }
+
+  async *stream(messages: LLMMessage[], options: CompletionOptions = {}): AsyncIterable<CompletionChunk> {
+    const response = await this.request(messages, options, true);
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let inputTokens = 0;
+    // Tool use blocks by content index, their input arriving as JSON fragments
+    const toolBlocks = new Map<number, { id: string; name: string; json: string }>();
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+
+      for (const event of events) {
+        const line = event.split('\n').find((l) => l.startsWith('data: '));
+        if (!line) continue;
+
+        const data = JSON.parse(line.slice('data: '.length));
+        if (data.type === 'message_start') {
+          inputTokens = data.message?.usage?.input_tokens || 0;
+        } else if (data.type === 'content_block_start' && data.content_block?.type === 'tool_use') {
+          toolBlocks.set(data.index, { id: data.content_block.id, name: data.content_block.name, json: '' });
+        } else if (data.type === 'content_block_delta' && data.delta?.type === 'text_delta') {
+          yield { type: 'delta', content: data.delta.text };
+        } else if (data.type === 'content_block_delta' && data.delta?.type === 'input_json_delta') {
+          const block = toolBlocks.get(data.index);
+          if (block) block.json += data.delta.partial_json || '';
+        } else if (data.type === 'content_block_stop' && toolBlocks.has(data.index)) {
+          const block = toolBlocks.get(data.index)!;
+          yield { type: 'tool_call', call: { id: block.id, name: block.name, arguments: parseToolArguments(block.json) } };
+        } else if (data.type === 'message_delta' && data.usage) {
+          const outputTokens = data.usage.output_tokens || 0;
+          yield {
+            type: 'usage',
+            usage: { prompt_tokens: inputTokens, completion_tokens: outputTokens, total_tokens: inputTokens + outputTokens },
+          };
+        } else if (data.type === 'error') {
+          throw new Error(data.error?.message || 'Anthropic stream failed');
+        }
+      }
+    }
+  }
+
+  private async request(messages: LLMMessage[], options: CompletionOptions, stream: boolean): Promise<globalThis.Response> {
+    if (!this.apiKey) {
+      throw new LLMProviderError(`LLM provider '${this.name}' is not configured (no API key)`, 503);
+    }
+
+    const system = messages.filter((m) => m.role === 'system').map((m) => m.content);
+    if (options.jsonSchema) {
+      system.push(`${JSON_INSTRUCTION} It must match this JSON Schema:\n${JSON.stringify(options.jsonSchema.schema)}`);
+    } else if (options.json) {
+      system.push(JSON_INSTRUCTION);
+    }
+
+    // Tool calls are content blocks of the assistant turn, and their results blocks of the next user turn
+    const turns: { role: 'user' | 'assistant'; content: any[] }[] = [];
+    for (const message of messages) {
+      if (message.role === 'system') continue;
+      const role = message.role === 'assistant' ? 'assistant' : 'user';
+      const blocks: any[] = message.role === 'tool'
+        ? [{ type: 'tool_result', tool_use_id: message.toolCallId, content: message.content }]
+        : [
+            ...(message.content ? [{ type: 'text', text: message.content }] : []),
+            ...(message.toolCalls || []).map((call) => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments })),
+          ];
+      if (blocks.length === 0) continue;
+
+      const last = turns[turns.length - 1];
+      if (last && last.role === role) {
+        last.content.push(...blocks);
+      } else {
+        turns.push({ role, content: blocks });
+      }
+    }
+    if (turns[0]?.role === 'assistant') {
+      turns.unshift({ role: 'user', content: [{ type: 'text', text: '(continuing our conversation)' }] });
+    }
+
+    const response = await fetch(`${this.baseURL}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: options.model || this.defaultModel,
+        system: system.join('\n\n') || undefined,
+        messages: turns,
+        tools: options.tools?.length
+          ? options.tools.map((tool) => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }))
+          : undefined,
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+        stream,
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      const body: any = await response.json().catch(() => null);
+      const error: any = new Error(body?.error?.message || `Anthropic request failed with status ${response.status}`);
+      error.status = response.status;
+      throw error;
+    }
+
+    return response;
+  }
+}
+
+/**
+ * A placeholder value of a JSON Schema, labelled by its path ("variants 1
+ * hook"), for the mock provider
+ */
+const exampleFromSchema = (schema: Record<string, any>, label: string): any => {
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, property]) => [
+          key,
+          exampleFromSchema(property as Record<string, any>, `${label} ${key}`.trim()),
+        ])
+      );
+    case 'array':
+      return Array.from({ length: Math.max(schema.minItems || 0, 1) }, (_, i) =>
+        exampleFromSchema(schema.items || {}, `${label} ${i + 1}`.trim())
+      );
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    default:
+      return label || 'value';
+  }
+};
+
+/**
+ * Deterministic stand-in for tests and offline development: echoes the last
+ * user message (or `{}` in JSON mode, a placeholder object when given a
+ * schema) without calling anything. A message
+ * like `/query_videos {"limit": 3}` calls that tool when it is offered, and
+ * the reply after a tool call echoes its result.
+ */
+export class MockProvider implements LLMProvider {
+  name: LLMProviderName = 'mock';
+  defaultModel = DEFAULT_MODELS.mock;
+  configured = true;
+
+  async complete(messages: LLMMessage[], options: CompletionOptions = {}): Promise<Completion> {
+    const toolCalls = this.toolCalls(messages, options);
+    const content = toolCalls.length > 0 ? '' : this.reply(messages, options);
+    const promptTokens = Math.ceil(messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      content,
+      model: options.model || this.defaultModel,
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+      toolCalls,
+    };
+  }
+
+  async *stream(messages: LLMMessage[], options: CompletionOptions = {}): AsyncIterable<CompletionChunk> {
+    const completion = await this.complete(messages, options);
+    for (const piece of completion.content.match(/\S+\s*/g) || []) {
+      if (options.signal?.aborted) return;
+      yield { type: 'delta', content: piece };
+    }
+    for (const call of completion.toolCalls) {
+      yield { type: 'tool_call', call };
+    }
+    yield { type: 'usage', usage: completion.usage! };
+  }
+
+  private reply(messages: LLMMessage[], options: CompletionOptions): string {
+    if (options.jsonSchema) {
+      return JSON.stringify(exampleFromSchema(options.jsonSchema.schema, ''));
+    }
+    if (options.json) {
+      return '{}';
+    }
+    const last = messages[messages.length - 1];
+    if (last?.role === 'tool') {
+      return `Echo (${options.model || this.defaultModel}, tool result): ${last.content}`;
+    }
+    const lastUser = [...messages].reverse().find((m) => m.role === 'user');
+    return `Echo (${options.model || this.defaultModel}, ${messages.length} messages): ${lastUser?.content || ''}`;
+  }
+
+  private toolCalls(messages: LLMMessage[], options: CompletionOptions): LLMToolCall[] {
+    const last = messages[messages.length - 1];
+    const match = last?.role === 'user' ? last.content.trim().match(/^\/(\w+)\s*(\{[\s\S]*\})?$/) : null;
+    if (!match || !options.tools?.some((tool) => tool.name === match[1])) {
+      return [];
+    }
+    return [{ id: `mock-call-${messages.length}`, name: match[1], arguments: parseToolArguments(match[2]) }];
+  }
+}
+
+const providers = new Map<LLMProviderName, LLMProvider>();
+
+const defaultModelFor = (name: LLMProviderName) =>
+  (name === env.LLM_PROVIDER && env.LLM_MODEL) || DEFAULT_MODELS[name];
+
+/**
+ * The provider with this name (LLM_PROVIDER by default). Providers are
+ * created once; a missing API key only fails when the provider is called.
+ */
+export const getLLMProvider = (name: LLMProviderName = env.LLM_PROVIDER): LLMProvider => {
+  let provider = providers.get(name);
+  if (!provider) {
+    switch (name) {
+      case 'openai':
+        provider = new OpenAIProvider('openai', env.OPENAI_API_KEY, undefined, defaultModelFor(name));
+        break;
+      case 'anthropic':
+        provider = new AnthropicProvider(env.ANTHROPIC_API_KEY, env.ANTHROPIC_BASE_URL, defaultModelFor(name));
+        break;
+      case 'ollama':
+        // Ollama ignores the key, but the SDK requires one
+        provider = new OpenAIProvider('ollama', 'ollama', env.OLLAMA_BASE_URL, defaultModelFor(name));
+        break;
+      case 'mock':
+        provider = new MockProvider();
+        break;
+      default:
+        throw new LLMProviderError(`Unknown LLM provider '${name}' (expected one of ${LLM_PROVIDER_NAMES.join(', ')})`);
+    }
+    providers.set(name, provider);
+  }
+  return provider;
+};
+
+export const isLLMProviderName = (value: unknown): value is LLMProviderName =>
+  typeof value === 'string' && (LLM_PROVIDER_NAMES as readonly string[]).includes(value);
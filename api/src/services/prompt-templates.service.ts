@@ -0,0 +1,475 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabaseAdmin } from '../config/database.js';
+
+// Stands in for stored templates until one is made the default, and can't be edited or deleted
+export const BUILT_IN_TEMPLATE_ID = 'built-in';
+
+const BUILT_IN_BODY = `You are a marketing strategist and creative copy generator for {{product}}.
+
+Your role is to generate high-performing promotional content (hooks, scripts, captions, CTAs, angles, positioning statements) that is direct-response oriented, optimized for short-form and long-form digital platforms.
+
+You will be provided with structured JSON data representing selected video content. This data may include (but is not limited to):
+– topics
+– hooks
+– formats
+– scripts or notes
+– pacing
+– tone or style descriptors
+– gimmicks
+– endings / CTAs
+– performance indicators or qualitative trends
+
+Treat this JSON as ground truth pattern data.
+
+How to use the JSON:
+
+Extract recurring patterns, trends, and stylistic signals (e.g. hook structure, language choices, pacing, emotional triggers, narrative devices).
+
+Infer what works for this audience and product category without explicitly referencing the raw data.
+
+Use these patterns to influence the structure, tone, and creative decisions of your output.
+
+Output rules:
+
+– Do not summarize or restate the JSON.
+– Do not mention "the data," "the JSON," or "selected videos."
+– Produce original marketing content that feels native to the identified trends.
+– Favor clarity, memorability, and conversion over generic brand language.
+– When uncertain, default to bold, specific, and testable ideas rather than safe generalities.
+
+The user's prompt that follows represents the intent and goal of the content.
+
+Your task is to combine:
+– the user's intent
+– the inferred patterns from the provided data
+– best-practice SaaS marketing principles
+– the best practices for marketing on {{platform}} that are proven to work based on data in both the JSON and {{platform}} landscape trends and historical data
+
+…to generate content that is distinct, compelling, and optimized to perform.`;
+
+const BUILT_IN_DEFAULTS: Record<string, string> = {
+  product: 'a SaaS product',
+  platform: 'YouTube Shorts',
+};
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g;
+
+const MAX_BODY_CHARS = 20000;
+
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  // Values used for variables the request leaves empty
+  defaults: Record<string, string>;
+  note: string | null;
+  created_at: string | null;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  is_default: boolean;
+  built_in: boolean;
+  current_version: number;
+  // Variable names in the current body, in order of first use
+  variables: string[];
+  body: string;
+  defaults: Record<string, string>;
+  updated_at: string | null;
+}
+
+export interface RenderedTemplate {
+  template_id: string;
+  version: number;
+  text: string;
+}
+
+export class PromptTemplateError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'PromptTemplateError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Variable names used in a template body, in order of first use
+ */
+export const templateVariables = (body: string): string[] =>
+  Array.from(new Set(Array.from(body.matchAll(VARIABLE_PATTERN), (match) => match[1])));
+
+/**
+ * Fill a body's {{variables}} from the given values, then the defaults.
+ * Throws when a variable has neither.
+ */
+export const renderTemplateBody = (
+  body: string,
+  defaults: Record<string, string>,
+  values: Record<string, unknown> = {}
+): string => {
+  const resolve = (name: string) => {
+    const value = values[name];
+    return typeof value === 'string' && value.trim() ? value.trim() : defaults[name] || '';
+  };
+
+  const missing = templateVariables(body).filter((name) => !resolve(name));
+  if (missing.length > 0) {
+    throw new PromptTemplateError(`Fill in the template variable${missing.length === 1 ? '' : 's'} ${missing.join(', ')}`);
+  }
+
+  return body.replace(VARIABLE_PATTERN, (_match, name: string) => resolve(name));
+};
+
+const builtInTemplate = (isDefault: boolean): PromptTemplate => ({
+  id: BUILT_IN_TEMPLATE_ID,
+  name: 'Marketing strategist (built-in)',
+  description: 'The original chatbot and prompt assistant prompt',
+  is_default: isDefault,
+  built_in: true,
+  current_version: 1,
+  variables: templateVariables(BUILT_IN_BODY),
+  body: BUILT_IN_BODY,
+  defaults: BUILT_IN_DEFAULTS,
+  updated_at: null,
+});
+
+// Before the prompt_templates tables are created only the built-in template exists
+const isMissingTable = (error: any) => error?.code === '42P01' || error?.code === 'PGRST205';
+
+const parseDefaults = (value: unknown): Record<string, string> => {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new PromptTemplateError('defaults must be an object of variable values');
+  }
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => typeof v === 'string' && v.trim())
+      .map(([k, v]) => [k, (v as string).trim()])
+  );
+};
+
+const parseBody = (value: unknown): string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new PromptTemplateError('body is required');
+  }
+  if (value.length > MAX_BODY_CHARS) {
+    throw new PromptTemplateError(`body must be at most ${MAX_BODY_CHARS} characters`);
+  }
+  return value.trim();
+};
+
+/**
+ * Versioned system prompt templates with {{variables}}, stored in
+ * prompt_templates (one row per template, pointing at its current version)
+ * and prompt_template_versions (every body ever saved). Editing the body or
+ * defaults adds a version; older versions can be restored as a new one.
+ */
+export class PromptTemplateService {
+  private db: SupabaseClient;
+
+  constructor(db: SupabaseClient = supabaseAdmin) {
+    this.db = db;
+  }
+
+  /**
+   * All templates with their current version, the built-in one first
+   */
+  async list(): Promise<PromptTemplate[]> {
+    const { data, error } = await this.db
+      .from('prompt_templates')
+      .select('*, prompt_template_versions(*)')
+      .order('name');
+
+    if (error) {
+      if (isMissingTable(error)) return [builtInTemplate(true)];
+      throw error;
+    }
+
+    const templates = (data || []).map((row: any) => this.toTemplate(row));
+    return [builtInTemplate(!templates.some((t) => t.is_default)), ...templates];
+  }
+
+  /**
+   * A template with its current version and every version before it (newest first)
+   */
+  async get(id: string): Promise<PromptTemplate & { versions: PromptTemplateVersion[] }> {
+    if (id === BUILT_IN_TEMPLATE_ID) {
+      const defaultRow = await this.findDefaultRow();
+      const template = builtInTemplate(!defaultRow);
+      return {
+        ...template,
+        versions: [{ version: 1, body: template.body, defaults: template.defaults, note: null, created_at: null }],
+      };
+    }
+
+    const row = await this.findRow(id);
+    return {
+      ...this.toTemplate(row),
+      versions: this.versionsOf(row).sort((a, b) => b.version - a.version),
+    };
+  }
+
+  async create(input: { name?: unknown; description?: unknown; body?: unknown; defaults?: unknown; is_default?: unknown }): Promise<PromptTemplate> {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      throw new PromptTemplateError('name is required');
+    }
+    const body = parseBody(input.body);
+    const defaults = parseDefaults(input.defaults);
+
+    const { data: template, error } = await this.db
+      .from('prompt_templates')
+      .insert({
+        name: input.name.trim(),
+        description: typeof input.description === 'string' ? input.description.trim() || null : null,
+        current_version: 1,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') throw new PromptTemplateError(`A template named "${input.name.trim()}" already exists`, 409);
+      throw error;
+    }
+
+    try {
+      await this.insertVersion(template.id, 1, body, defaults, null);
+    } catch (versionError) {
+      // A template without a version can't be rendered
+      await this.db.from('prompt_templates').delete().eq('id', template.id);
+      throw versionError;
+    }
+    if (input.is_default === true) {
+      await this.setDefault(template.id);
+    }
+
+    return this.toTemplate(await this.findRow(template.id));
+  }
+
+  /**
+   * Rename or re-describe a template in place; a changed body or defaults
+   * is saved as a new version
+   */
+  async update(
+    id: string,
+    input: { name?: unknown; description?: unknown; body?: unknown; defaults?: unknown; note?: unknown }
+  ): Promise<PromptTemplate> {
+    this.assertEditable(id);
+    const row = await this.findRow(id);
+    const current = this.currentVersion(row);
+
+    const fields: Record<string, any> = {};
+    if (input.name !== undefined) {
+      if (typeof input.name !== 'string' || !input.name.trim()) throw new PromptTemplateError('name must not be empty');
+      fields.name = input.name.trim();
+    }
+    if (input.description !== undefined) {
+      fields.description = typeof input.description === 'string' ? input.description.trim() || null : null;
+    }
+
+    const body = input.body !== undefined ? parseBody(input.body) : current.body;
+    const defaults = input.defaults !== undefined ? parseDefaults(input.defaults) : current.defaults;
+    if (body !== current.body || JSON.stringify(defaults) !== JSON.stringify(current.defaults)) {
+      const version = row.current_version + 1;
+      await this.insertVersion(id, version, body, defaults, typeof input.note === 'string' ? input.note.trim() || null : null);
+      fields.current_version = version;
+    }
+
+    if (Object.keys(fields).length > 0) {
+      const { error } = await this.db
+        .from('prompt_templates')
+        .update({ ...fields, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) {
+        if (error.code === '23505') throw new PromptTemplateError(`A template named "${fields.name}" already exists`, 409);
+        throw error;
+      }
+    }
+
+    return this.toTemplate(await this.findRow(id));
+  }
+
+  /**
+   * Save an earlier version's body and defaults as the newest version
+   */
+  async restore(id: string, version: number): Promise<PromptTemplate> {
+    this.assertEditable(id);
+    const row = await this.findRow(id);
+    const old = this.versionsOf(row).find((v) => v.version === version);
+    if (!old) {
+      throw new PromptTemplateError(`Version ${version} not found`, 404);
+    }
+
+    return this.update(id, { body: old.body, defaults: old.defaults, note: `Restored version ${version}` });
+  }
+
+  /**
+   * Make a template the default (the built-in one clears the stored default)
+   */
+  async setDefault(id: string): Promise<void> {
+    if (id !== BUILT_IN_TEMPLATE_ID) {
+      await this.findRow(id);
+    }
+
+    // Clear first: a unique index allows only one default
+    const { error: clearError } = await this.db
+      .from('prompt_templates')
+      .update({ is_default: false })
+      .eq('is_default', true);
+
+    if (clearError && !(id === BUILT_IN_TEMPLATE_ID && isMissingTable(clearError))) {
+      throw clearError;
+    }
+    if (id === BUILT_IN_TEMPLATE_ID) return;
+
+    const { error } = await this.db
+      .from('prompt_templates')
+      .update({ is_default: true })
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async remove(id: string): Promise<void> {
+    this.assertEditable(id);
+    const { error } = await this.db
+      .from('prompt_templates')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * The system prompt for a request: the given template (the default one
+   * when no id is given) at its current version, or at an earlier version
+   * to reproduce a saved conversation, variables filled in
+   */
+  async render(id: string | undefined, values: Record<string, unknown> = {}, version?: number): Promise<RenderedTemplate> {
+    let template: PromptTemplate;
+    if (!id) {
+      // The chat shouldn't stop working because the default can't be loaded
+      const defaultRow = await this.findDefaultRow().catch((error: any) => {
+        console.error('Error loading the default prompt template, using the built-in one:', error.message);
+        return null;
+      });
+      template = defaultRow ? this.toTemplate(defaultRow) : builtInTemplate(true);
+    } else if (id === BUILT_IN_TEMPLATE_ID) {
+      template = builtInTemplate(false);
+    } else {
+      const row = await this.findRow(id);
+      template = this.toTemplate(row);
+      if (version !== undefined && version !== template.current_version) {
+        const pinned = this.versionsOf(row).find((v) => v.version === version);
+        if (!pinned) {
+          throw new PromptTemplateError(`Version ${version} of prompt template "${template.name}" not found`, 404);
+        }
+        template = { ...template, current_version: pinned.version, body: pinned.body, defaults: pinned.defaults };
+      }
+    }
+
+    return {
+      template_id: template.id,
+      version: template.current_version,
+      text: renderTemplateBody(template.body, template.defaults, values),
+    };
+  }
+
+  private async findRow(id: string): Promise<any> {
+    const { data, error } = await this.db
+      .from('prompt_templates')
+      .select('*, prompt_template_versions(*)')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      // Malformed UUIDs fail the query rather than matching nothing
+      if (error.code === '22P02') throw new PromptTemplateError('Prompt template not found', 404);
+      throw error;
+    }
+    if (!data) {
+      throw new PromptTemplateError('Prompt template not found', 404);
+    }
+    return data;
+  }
+
+  private async findDefaultRow(): Promise<any | null> {
+    const { data, error } = await this.db
+      .from('prompt_templates')
+      .select('*, prompt_template_versions(*)')
+      .eq('is_default', true)
+      .maybeSingle();
+
+    if (error) {
+      if (isMissingTable(error)) return null;
+      throw error;
+    }
+    return data;
+  }
+
+  private async insertVersion(
+    templateId: string,
+    version: number,
+    body: string,
+    defaults: Record<string, string>,
+    note: string | null
+  ): Promise<void> {
+    const { error } = await this.db
+      .from('prompt_template_versions')
+      .insert({ template_id: templateId, version, body, defaults, note });
+
+    if (error) {
+      if (error.code === '23505') throw new PromptTemplateError('The template was changed at the same time; reload and try again', 409);
+      throw error;
+    }
+  }
+
+  private assertEditable(id: string) {
+    if (id === BUILT_IN_TEMPLATE_ID) {
+      throw new PromptTemplateError('The built-in template can\'t be changed; create a new template instead');
+    }
+  }
+
+  private versionsOf(row: any): PromptTemplateVersion[] {
+    return (row.prompt_template_versions || []).map((v: any) => ({
+      version: v.version,
+      body: v.body,
+      defaults: v.defaults || {},
+      note: v.note,
+      created_at: v.created_at,
+    }));
+  }
+
+  private currentVersion(row: any): PromptTemplateVersion {
+    const current = this.versionsOf(row).find((v) => v.version === row.current_version);
+    if (!current) {
+      throw new Error(`Prompt template ${row.id} is missing version ${row.current_version}`);
+    }
+    return current;
+  }
+
+  private toTemplate(row: any): PromptTemplate {
+    const current = this.currentVersion(row);
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      is_default: row.is_default,
+      built_in: false,
+      current_version: row.current_version,
+      variables: templateVariables(current.body),
+      body: current.body,
+      defaults: current.defaults,
+      updated_at: row.updated_at,
+    };
+  }
+}
+
+export const promptTemplateService = new PromptTemplateService();
@@ -0,0 +1,140 @@
+import { supabaseAdmin } from '../config/database.js';
+import { env } from '../config/env.js';
+
+/**
+ * YouTube Data API v3 quota cost per list call, by endpoint
+ * https://developers.google.com/youtube/v3/determine_quota_cost
+ */
+export const QUOTA_COSTS: Record<string, number> = {
+  channels: 1,
+  search: 100,
+  videos: 1,
+  playlistItems: 1,
+  commentThreads: 1,
+  captions: 50,
+};
+
+export interface QuotaUsage {
+  date: string;
+  used: number;
+  budget: number;
+  dailyLimit: number;
+  remaining: number;
+}
+
+export class QuotaExceededError extends Error {
+  statusCode = 429;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * YouTube quota resets at midnight Pacific time, so usage is bucketed by that day
+ */
+const quotaDay = (date: Date = new Date()): string =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: 'America/Los_Angeles' }).format(date);
+
+/**
+ * Tracks YouTube API quota spent per day in the youtube_quota_usage table
+ * and refuses calls that would go over the configured budget.
+ */
+export class QuotaService {
+  private day: string | null = null;
+  private used = 0;
+  private loading: Promise<void> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  get budget(): number {
+    return Math.min(env.YOUTUBE_QUOTA_BUDGET ?? env.YOUTUBE_DAILY_QUOTA, env.YOUTUBE_DAILY_QUOTA);
+  }
+
+  async getUsage(): Promise<QuotaUsage> {
+    await this.ensureCurrentDay();
+    return {
+      date: this.day!,
+      used: this.used,
+      budget: this.budget,
+      dailyLimit: env.YOUTUBE_DAILY_QUOTA,
+      remaining: Math.max(0, this.budget - this.used),
+    };
+  }
+
+  /**
+   * Whether the given number of units can still be spent today
+   */
+  async canAfford(units: number): Promise<boolean> {
+    const usage = await this.getUsage();
+    return units <= usage.remaining;
+  }
+
+  /**
+   * Record units about to be spent on an endpoint, throwing if the budget would be exceeded
+   */
+  async reserve(endpoint: string, units: number = QUOTA_COSTS[endpoint] ?? 1): Promise<void> {
+    await this.ensureCurrentDay();
+
+    if (this.used + units > this.budget) {
+      throw new QuotaExceededError(
+        `YouTube quota budget exhausted (${this.used}/${this.budget} units used today, ${endpoint} needs ${units})`
+      );
+    }
+
+    this.used += units;
+    this.persist();
+  }
+
+  /**
+   * The API reported the daily quota as exceeded; stop spending until it resets
+   */
+  markExhausted(): void {
+    this.used = Math.max(this.used, env.YOUTUBE_DAILY_QUOTA);
+    this.persist();
+  }
+
+  private async ensureCurrentDay(): Promise<void> {
+    const today = quotaDay();
+    if (this.day === today) return;
+
+    if (!this.loading) {
+      this.loading = this.load(today).finally(() => {
+        this.loading = null;
+      });
+    }
+    await this.loading;
+  }
+
+  private async load(today: string): Promise<void> {
+    const { data, error } = await supabaseAdmin
+      .from('youtube_quota_usage')
+      .select('units_used')
+      .eq('date', today)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      console.error('Error loading YouTube quota usage:', error);
+    }
+
+    this.day = today;
+    this.used = data?.units_used || 0;
+  }
+
+  private persist(): void {
+    const date = this.day;
+    const units = this.used;
+    // Writes are chained so an older total never lands after a newer one
+    this.writes = this.writes.then(async () => {
+      const { error } = await supabaseAdmin
+        .from('youtube_quota_usage')
+        .upsert({ date, units_used: units, updated_at: new Date().toISOString() }, { onConflict: 'date' });
+
+      if (error) {
+        console.error('Error saving YouTube quota usage:', error);
+      }
+    });
+  }
+}
+
+export const quotaService = new QuotaService();
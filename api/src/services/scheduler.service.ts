@@ -0,0 +1,146 @@
+import { supabaseAdmin } from '../config/database.js';
+import { syncJobService, SyncJobService } from './sync-jobs.service.js';
+import { quotaService } from './quota.service.js';
+
+export interface SyncSchedule {
+  id: string;
+  channel_id: string;
+  is_paused: boolean;
+  // Recent videos (published within fresh_window_hours) are snapshotted every fresh_interval_minutes
+  fresh_interval_minutes: number;
+  fresh_window_hours: number;
+  // The whole channel (including new uploads) is synced every full_interval_minutes
+  full_interval_minutes: number;
+  last_fresh_run_at: string | null;
+  last_full_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const DEFAULT_SCHEDULE = {
+  fresh_interval_minutes: 60,
+  fresh_window_hours: 72,
+  full_interval_minutes: 24 * 60,
+};
+
+// How often the scheduler checks for due schedules
+const TICK_INTERVAL_MS = 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+const isDue = (lastRunAt: string | null, intervalMinutes: number, now: number) =>
+  !lastRunAt || now - new Date(lastRunAt).getTime() >= intervalMinutes * MINUTE_MS;
+
+/**
+ * In-process scheduler that queues stat snapshot syncs per channel according
+ * to the sync_schedules table. Due runs are queued through the sync job
+ * service so they share its queue and show up in the job history.
+ */
+export class SchedulerService {
+  private jobs: SyncJobService;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(jobs: SyncJobService = syncJobService) {
+    this.jobs = jobs;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.tick(), TICK_INTERVAL_MS);
+    void this.tick();
+    console.log('⏰ Sync scheduler started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue every schedule of an active channel that is due. A full sync also counts as a fresh run.
+   * Runs that don't fit in the remaining YouTube quota are deferred: the
+   * schedule is left untouched so it is retried on later ticks.
+   */
+  async tick(): Promise<void> {
+    // Don't overlap ticks if a previous one is still waiting on the database
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const { data: schedules, error } = await supabaseAdmin
+        .from('sync_schedules')
+        .select('*')
+        .eq('is_paused', false);
+
+      if (error) {
+        console.error('Error loading sync schedules:', error);
+        return;
+      }
+
+      const { data: channels, error: channelsError } = await supabaseAdmin
+        .from('channels')
+        .select('channel_id')
+        .eq('is_active', true);
+
+      if (channelsError) {
+        console.error('Error loading active channels:', channelsError);
+        return;
+      }
+
+      const activeChannelIds = new Set((channels || []).map((channel: any) => channel.channel_id));
+      const now = Date.now();
+      for (const schedule of (schedules || []) as SyncSchedule[]) {
+        if (!activeChannelIds.has(schedule.channel_id) || this.jobs.hasActiveJob(schedule.channel_id)) {
+          continue;
+        }
+
+        try {
+          if (isDue(schedule.last_full_run_at, schedule.full_interval_minutes, now)) {
+            if (!(await this.fitsQuota(schedule.channel_id))) continue;
+            await this.jobs.enqueue([schedule.channel_id], 'schedule');
+            await this.markRun(schedule.id, {
+              last_full_run_at: new Date(now).toISOString(),
+              last_fresh_run_at: new Date(now).toISOString(),
+            });
+          } else if (isDue(schedule.last_fresh_run_at, schedule.fresh_interval_minutes, now)) {
+            const publishedAfter = new Date(now - schedule.fresh_window_hours * 60 * MINUTE_MS).toISOString();
+            if (!(await this.fitsQuota(schedule.channel_id, publishedAfter))) continue;
+            await this.jobs.enqueue([schedule.channel_id], 'schedule', { publishedAfter });
+            await this.markRun(schedule.id, {
+              last_fresh_run_at: new Date(now).toISOString(),
+            });
+          }
+        } catch (err: any) {
+          console.error(`Error queueing scheduled sync for ${schedule.channel_id}:`, err);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async fitsQuota(channelId: string, publishedAfter?: string): Promise<boolean> {
+    const cost = await this.jobs.estimateCost([channelId], { publishedAfter });
+    if (await quotaService.canAfford(cost)) {
+      return true;
+    }
+    console.warn(`Deferring scheduled sync for ${channelId}: needs ~${cost} quota units`);
+    return false;
+  }
+
+  private async markRun(id: string, fields: Partial<SyncSchedule>): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('sync_schedules')
+      .update(fields)
+      .eq('id', id);
+
+    if (error) {
+      console.error(`Error updating sync schedule ${id}:`, error);
+    }
+  }
+}
+
+export const schedulerService = new SchedulerService();
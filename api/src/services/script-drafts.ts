@@ -0,0 +1,129 @@
+// video_embeddings fields a chatbot reply can fill in
+export const SCRIPT_FIELDS = ['topic', 'format', 'poc', 'hook', 'style', 'gimmick', 'end_cta', 'script'] as const;
+
+export type ScriptField = (typeof SCRIPT_FIELDS)[number];
+
+export interface ScriptDraft {
+  fields: Partial<Record<ScriptField, string>>;
+  // False when the reply had no recognisable sections and went into script whole
+  labeled: boolean;
+}
+
+// Section labels as models write them, after lowercasing and dropping notes in brackets
+const FIELD_LABELS: Record<ScriptField, string[]> = {
+  topic: ['topic', 'title', 'concept', 'angle', 'idea'],
+  format: ['format'],
+  poc: ['poc', 'proof of concept'],
+  hook: ['hook', 'opening', 'opening line'],
+  style: ['style', 'tone', 'visual style'],
+  gimmick: ['gimmick'],
+  end_cta: ['end cta', 'cta', 'call to action', 'ending', 'outro'],
+  script: ['script', 'full script', 'voiceover', 'body'],
+};
+
+// Longest labels first so "end cta" wins over "cta"
+const LABELS: [string, ScriptField][] = (Object.entries(FIELD_LABELS) as [ScriptField, string[]][])
+  .flatMap(([field, labels]) => labels.map((label) => [label, field] as [string, ScriptField]))
+  .sort((a, b) => b[0].length - a[0].length);
+
+const MAX_LABEL_CHARS = 40;
+
+/**
+ * The field a section label names: an exact label or one with a single
+ * qualifier in front ("Opening hook", "Suggested CTA")
+ */
+const fieldForLabel = (label: string): ScriptField | null => {
+  const normalized = label
+    .toLowerCase()
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, ' ')
+    .replace(/[^a-z ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!normalized || normalized.length > MAX_LABEL_CHARS) return null;
+
+  const words = normalized.split(' ').length;
+  const match = LABELS.find(
+    ([candidate]) =>
+      normalized === candidate ||
+      (normalized.endsWith(` ${candidate}`) && words === candidate.split(' ').length + 1)
+  );
+  return match ? match[1] : null;
+};
+
+interface SectionLine {
+  field: ScriptField;
+  // Text after the label on the same line
+  rest: string;
+  // A heading or bold label rather than a plain `Label:` prefix
+  marked: boolean;
+}
+
+/**
+ * A line that starts a section: a markdown heading, a bold label or a
+ * `Label:` prefix, optionally inside a list item
+ */
+const parseSectionLine = (line: string): SectionLine | null => {
+  const heading = line.match(/^\s*#{1,6}\s+(.*)$/);
+  if (heading) {
+    const text = heading[1].replace(/\*\*|__/g, '');
+    const [label, ...rest] = text.split(':');
+    const field = fieldForLabel(label);
+    return field ? { field, rest: rest.join(':').trim(), marked: true } : null;
+  }
+
+  const text = line.replace(/^\s*(?:[-*+]\s+|\d+[.)]\s+)?/, '');
+
+  const bold = text.match(/^(\*\*|__)(.+?)\1\s*:?\s*(.*)$/);
+  if (bold) {
+    const field = fieldForLabel(bold[2].replace(/:\s*$/, ''));
+    return field ? { field, rest: bold[3].trim(), marked: true } : null;
+  }
+
+  const prefixed = text.match(/^([^:]{1,40}):\s*(.*)$/);
+  if (prefixed) {
+    const field = fieldForLabel(prefixed[1]);
+    return field ? { field, rest: prefixed[2].trim(), marked: false } : null;
+  }
+
+  return null;
+};
+
+/**
+ * Split a chatbot reply into video_embeddings fields by its section labels
+ * ("**Hook:** ...", "## Script", "CTA: ..."). Text before the first section is
+ * taken as preamble and dropped; a field named twice keeps both parts. Scripts
+ * often mark their own beats ("HOOK: ..."), so inside the script only a heading
+ * or bold label starts the next section. A reply without sections becomes the
+ * script.
+ */
+export const parseScriptDraft = (content: string): ScriptDraft => {
+  const sections: Partial<Record<ScriptField, string[]>> = {};
+  let currentField: ScriptField | null = null;
+
+  for (const line of content.replace(/\r\n/g, '\n').split('\n')) {
+    // Horizontal rules between sections
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) continue;
+
+    const section = parseSectionLine(line);
+    if (section && (section.marked || currentField !== 'script')) {
+      const lines = (sections[section.field] ??= []);
+      if (lines.length > 0) lines.push('');
+      if (section.rest) lines.push(section.rest);
+      currentField = section.field;
+    } else if (currentField) {
+      sections[currentField]!.push(line);
+    }
+  }
+
+  const fields: ScriptDraft['fields'] = {};
+  for (const field of SCRIPT_FIELDS) {
+    const text = sections[field]?.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+    if (text) fields[field] = text;
+  }
+
+  if (Object.keys(fields).length === 0) {
+    const script = content.trim();
+    return { fields: script ? { script } : {}, labeled: false };
+  }
+  return { fields, labeled: true };
+};
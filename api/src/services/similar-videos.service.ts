@@ -0,0 +1,252 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabaseAdmin } from '../config/database.js';
+import { EmbeddingVectorService, embeddingVectorService } from './embedding-vectors.service.js';
+
+// video_embeddings fields compared for shared attributes
+const ATTRIBUTE_FIELDS = ['topic', 'format', 'style', 'gimmick', 'end_cta'] as const;
+
+// Word overlap (Jaccard) at which two field values count as the same
+const ATTRIBUTE_MATCH_THRESHOLD = 0.5;
+
+// Weight of the vector similarity in the combined score; the rest is attributes
+const VECTOR_WEIGHT = 0.7;
+
+// Nearest vectors fetched per result slot, before filtering by type and status
+const VECTOR_CANDIDATES_PER_RESULT = 3;
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// Ids per `in` filter (keeps request URLs short)
+const LOOKUP_CHUNK_SIZE = 200;
+
+type AttributeField = typeof ATTRIBUTE_FIELDS[number];
+
+type EmbeddingAttributes = { id: string } & Record<AttributeField, string | null>;
+
+export interface SimilarVideo {
+  video_id: string;
+  title: string | null;
+  thumbnail_url: string | null;
+  published_at: string | null;
+  view_count: number;
+  engagement_rate: number;
+  views_per_day: number;
+  // Cosine similarity of the embedding vectors; null when only attributes matched
+  similarity: number | null;
+  score: number;
+  // Human-readable reasons, e.g. "format", "3 shared tags"
+  shared: string[];
+}
+
+export interface SimilarVideosResult {
+  video_id: string;
+  has_vector: boolean;
+  similar: SimilarVideo[];
+  summary: {
+    count: number;
+    median_views: number | null;
+    median_engagement_rate: number | null;
+  };
+}
+
+const tokenize = (value: unknown): Set<string> =>
+  new Set(
+    String(value || '')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 2)
+  );
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((item) => {
+    if (b.has(item)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Finds past videos similar to a given one, by the distance between their
+ * video_embeddings vectors and by shared tag values (format, style, ...) and
+ * YouTube tags. Only videos of the same content type that are still live and
+ * were published before it are returned, with their performance numbers, so
+ * a concept can be judged as proven or saturated. When vector search fails
+ * (e.g. no embedding key), attributes and tags are still compared.
+ */
+export class SimilarVideosService {
+  private vectors: EmbeddingVectorService;
+  private db: SupabaseClient;
+
+  constructor(
+    vectors: EmbeddingVectorService = embeddingVectorService,
+    db: SupabaseClient = supabaseAdmin
+  ) {
+    this.vectors = vectors;
+    this.db = db;
+  }
+
+  /**
+   * Returns null when the video doesn't exist
+   */
+  async findSimilar(videoId: string, limit: number): Promise<SimilarVideosResult | null> {
+    const { data: target, error: targetError } = await this.db
+      .from('youtube_videos')
+      .select('video_id, content_type, tags, published_at')
+      .eq('video_id', videoId)
+      .maybeSingle();
+
+    if (targetError) {
+      throw targetError;
+    }
+
+    if (!target) {
+      return null;
+    }
+
+    const { data: embedding, error: embeddingError } = await this.db
+      .from('video_embeddings')
+      .select(`id, ${ATTRIBUTE_FIELDS.join(', ')}`)
+      .eq('video_id', videoId)
+      .maybeSingle<EmbeddingAttributes>();
+
+    if (embeddingError) {
+      throw embeddingError;
+    }
+
+    const vectorMatches = embedding ? await this.searchVectors(embedding.id, limit) : null;
+    const similarityByVideo = new Map<string, number>();
+    (vectorMatches || []).forEach((match) => {
+      if (match.embedding.video_id) similarityByVideo.set(match.embedding.video_id, match.similarity);
+    });
+
+    const sharedFieldsByVideo = embedding ? await this.findSharedAttributes(videoId, embedding) : new Map();
+
+    const candidateIds = Array.from(new Set([...similarityByVideo.keys(), ...sharedFieldsByVideo.keys()]));
+    const videos = await this.fetchVideos(candidateIds);
+    const targetTags = new Set<string>((target.tags || []).map((tag: string) => tag.toLowerCase()));
+
+    const publishedBefore = target.published_at ? Date.parse(target.published_at) : null;
+    const similar: SimilarVideo[] = videos
+      .filter((video) => video.status !== 'gone' && (!target.content_type || video.content_type === target.content_type))
+      .filter((video) => publishedBefore === null || (video.published_at && Date.parse(video.published_at) < publishedBefore))
+      .map((video) => {
+        const sharedFields: string[] = sharedFieldsByVideo.get(video.video_id) || [];
+        const tags = new Set<string>((video.tags || []).map((tag: string) => tag.toLowerCase()));
+        const tagOverlap = jaccard(targetTags, tags);
+        const sharedTagCount = Array.from(tags).filter((tag) => targetTags.has(tag)).length;
+
+        const attributeScore = (sharedFields.length / ATTRIBUTE_FIELDS.length) * 0.7 + tagOverlap * 0.3;
+        const similarity = similarityByVideo.has(video.video_id) ? similarityByVideo.get(video.video_id)! : null;
+        const score = similarity === null
+          ? attributeScore * (1 - VECTOR_WEIGHT)
+          : similarity * VECTOR_WEIGHT + attributeScore * (1 - VECTOR_WEIGHT);
+
+        return {
+          video_id: video.video_id,
+          title: video.title,
+          thumbnail_url: video.thumbnail_url,
+          published_at: video.published_at,
+          view_count: video.view_count || 0,
+          engagement_rate: video.engagement_rate || 0,
+          views_per_day: video.views_per_day || 0,
+          similarity,
+          score: Math.round(score * 1000) / 1000,
+          shared: [
+            ...sharedFields,
+            ...(sharedTagCount > 0 ? [`${sharedTagCount} shared tag${sharedTagCount === 1 ? '' : 's'}`] : []),
+          ],
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    return {
+      video_id: videoId,
+      has_vector: vectorMatches !== null,
+      similar,
+      summary: {
+        count: similar.length,
+        median_views: median(similar.map((video) => video.view_count)),
+        median_engagement_rate: median(similar.map((video) => video.engagement_rate)),
+      },
+    };
+  }
+
+  /**
+   * Nearest vectors to an embedding row, or null when the search fails so the
+   * attribute comparison can carry on alone
+   */
+  private async searchVectors(embeddingId: string, limit: number) {
+    try {
+      return await this.vectors.searchSimilarTo(embeddingId, limit * VECTOR_CANDIDATES_PER_RESULT);
+    } catch (error: any) {
+      console.error(`Vector search for video_embeddings row ${embeddingId} failed, using attributes only:`, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Videos whose embedding shares at least one attribute value with the
+   * given one, mapped to the names of the shared fields
+   */
+  private async findSharedAttributes(videoId: string, embedding: EmbeddingAttributes): Promise<Map<string, string[]>> {
+    const targetTokens = ATTRIBUTE_FIELDS.map((field) => tokenize(embedding[field]));
+    if (targetTokens.every((tokens) => tokens.size === 0)) {
+      return new Map();
+    }
+
+    const shared = new Map<string, string[]>();
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await this.db
+        .from('video_embeddings')
+        .select(`video_id, ${ATTRIBUTE_FIELDS.join(', ')}`)
+        .not('video_id', 'is', null)
+        .neq('video_id', videoId)
+        .order('video_id')
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw error;
+      }
+
+      (data || []).forEach((row: any) => {
+        const fields = ATTRIBUTE_FIELDS.filter(
+          (field, i) => jaccard(targetTokens[i], tokenize(row[field])) >= ATTRIBUTE_MATCH_THRESHOLD
+        );
+        if (fields.length > 0) shared.set(row.video_id, fields);
+      });
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return shared;
+  }
+
+  private async fetchVideos(videoIds: string[]): Promise<any[]> {
+    const videos: any[] = [];
+    for (let i = 0; i < videoIds.length; i += LOOKUP_CHUNK_SIZE) {
+      const { data, error } = await this.db
+        .from('youtube_videos')
+        .select('video_id, title, thumbnail_url, published_at, content_type, status, tags, view_count, engagement_rate, views_per_day')
+        .in('video_id', videoIds.slice(i, i + LOOKUP_CHUNK_SIZE));
+
+      if (error) {
+        throw error;
+      }
+
+      videos.push(...(data || []));
+    }
+    return videos;
+  }
+}
+
+export const similarVideosService = new SimilarVideosService();
@@ -0,0 +1,288 @@
+import { EventEmitter } from 'events';
+import { supabaseAdmin } from '../config/database.js';
+import { SyncService, SyncOptions } from './sync.service.js';
+
+export type SyncJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export type SyncJobTrigger = 'manual' | 'schedule';
+
+export interface SyncJob {
+  id: string;
+  channel_ids: string[];
+  status: SyncJobStatus;
+  trigger: SyncJobTrigger;
+  published_after: string | null;
+  full_rescan: boolean;
+  current_channel_id: string | null;
+  videos_total: number;
+  videos_completed: number;
+  videos_inserted: number;
+  videos_updated: number;
+  stats_archived: number;
+  videos_removed: number;
+  errors: number;
+  error_message: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+// Minimum delay between progress writes to sync_jobs while a job is running
+const PERSIST_INTERVAL_MS = 1000;
+
+/**
+ * Runs channel syncs as background jobs, one at a time, persisting their
+ * status and counters to the sync_jobs table. Live progress is published
+ * through an in-process event emitter for SSE subscribers.
+ */
+export class SyncJobService {
+  private syncService: SyncService;
+  private events = new EventEmitter();
+  private activeJobs = new Map<string, SyncJob>();
+  private queue: Promise<void> = Promise.resolve();
+  // Each job's row writes, chained so an older snapshot never lands after a newer one
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(syncService: SyncService = new SyncService()) {
+    this.syncService = syncService;
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Create a queued job for the given channels and schedule it to run
+   */
+  async enqueue(
+    channelIds: string[],
+    trigger: SyncJobTrigger = 'manual',
+    options: SyncOptions = {}
+  ): Promise<SyncJob> {
+    const { data, error } = await supabaseAdmin
+      .from('sync_jobs')
+      .insert({
+        channel_ids: channelIds,
+        status: 'queued',
+        trigger,
+        published_after: options.publishedAfter || null,
+        full_rescan: !!options.fullRescan,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    const job: SyncJob = {
+      ...data,
+      videos_total: data.videos_total ?? 0,
+      videos_completed: data.videos_completed ?? 0,
+      videos_inserted: data.videos_inserted ?? 0,
+      videos_updated: data.videos_updated ?? 0,
+      stats_archived: data.stats_archived ?? 0,
+      videos_removed: data.videos_removed ?? 0,
+      errors: data.errors ?? 0,
+    };
+    this.activeJobs.set(job.id, job);
+
+    this.queue = this.queue
+      .then(() => this.run(job))
+      .catch((err) => console.error(`Sync job ${job.id} crashed:`, err));
+
+    return job;
+  }
+
+  /**
+   * Estimate the quota units a job over these channels would spend
+   */
+  async estimateCost(channelIds: string[], options: SyncOptions = {}): Promise<number> {
+    let total = 0;
+    for (const channelId of channelIds) {
+      total += await this.syncService.estimateQuotaCost(channelId, options);
+    }
+    return total;
+  }
+
+  /**
+   * Get a job, preferring the live in-memory copy over the persisted row
+   */
+  async getJob(id: string): Promise<SyncJob | null> {
+    const active = this.activeJobs.get(id);
+    if (active) {
+      return { ...active };
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('sync_jobs')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw error;
+    }
+
+    return data || null;
+  }
+
+  /**
+   * List the most recent jobs
+   */
+  async listJobs(limit = 20): Promise<SyncJob[]> {
+    const { data, error } = await supabaseAdmin
+      .from('sync_jobs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw error;
+    }
+
+    // Overlay live progress for jobs that are still in flight
+    return (data || []).map((job: SyncJob) => this.activeJobs.get(job.id) || job);
+  }
+
+  /**
+   * Whether a queued or running job already covers the given channel
+   */
+  hasActiveJob(channelId: string): boolean {
+    for (const job of this.activeJobs.values()) {
+      if (job.channel_ids.includes(channelId)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Whether the job is queued or running in this process, so it will still
+   * publish progress
+   */
+  isActive(id: string): boolean {
+    return this.activeJobs.has(id);
+  }
+
+  /**
+   * Mark jobs left queued or running by an earlier process (a restart or
+   * crash) as failed; nothing will pick them up again. Returns how many.
+   */
+  async failInterruptedJobs(): Promise<number> {
+    const { data, error } = await supabaseAdmin
+      .from('sync_jobs')
+      .select('id')
+      .in('status', ['queued', 'running']);
+
+    if (error) {
+      throw error;
+    }
+
+    const ids = (data || []).map((row: any) => row.id).filter((id: string) => !this.activeJobs.has(id));
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('sync_jobs')
+      .update({
+        status: 'failed',
+        current_channel_id: null,
+        error_message: 'Interrupted by a server restart',
+        finished_at: new Date().toISOString(),
+      })
+      .in('id', ids);
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    return ids.length;
+  }
+
+  /**
+   * Subscribe to progress updates for a job. Returns an unsubscribe function.
+   */
+  subscribe(id: string, listener: (job: SyncJob) => void): () => void {
+    this.events.on(id, listener);
+    return () => {
+      this.events.off(id, listener);
+    };
+  }
+
+  private async run(job: SyncJob): Promise<void> {
+    job.status = 'running';
+    job.started_at = new Date().toISOString();
+    await this.persist(job);
+
+    let lastPersistedAt = Date.now();
+
+    try {
+      for (const channelId of job.channel_ids) {
+        job.current_channel_id = channelId;
+
+        // Counters from channels finished earlier in this job
+        const base = {
+          videos_total: job.videos_total,
+          videos_completed: job.videos_completed,
+          videos_inserted: job.videos_inserted,
+          videos_updated: job.videos_updated,
+          stats_archived: job.stats_archived,
+          videos_removed: job.videos_removed,
+          errors: job.errors,
+        };
+
+        await this.syncService.syncChannel(channelId, (progress, videosCompleted) => {
+          job.videos_total = base.videos_total + progress.videosProcessed;
+          job.videos_completed = base.videos_completed + videosCompleted;
+          job.videos_inserted = base.videos_inserted + progress.videosInserted;
+          job.videos_updated = base.videos_updated + progress.videosUpdated;
+          job.stats_archived = base.stats_archived + progress.statsArchived;
+          job.videos_removed = base.videos_removed + progress.videosRemoved;
+          job.errors = base.errors + progress.errors;
+          this.publish(job);
+
+          if (Date.now() - lastPersistedAt >= PERSIST_INTERVAL_MS) {
+            lastPersistedAt = Date.now();
+            void this.persist(job);
+          }
+        }, { publishedAfter: job.published_after, fullRescan: job.full_rescan });
+      }
+
+      job.status = 'done';
+    } catch (error: any) {
+      console.error(`Sync job ${job.id} failed:`, error);
+      job.status = 'failed';
+      job.error_message = error.message || 'Sync failed';
+    }
+
+    job.current_channel_id = null;
+    job.finished_at = new Date().toISOString();
+    await this.persist(job);
+    this.writes.delete(job.id);
+    this.activeJobs.delete(job.id);
+  }
+
+  private publish(job: SyncJob): void {
+    this.events.emit(job.id, { ...job });
+  }
+
+  private persist(job: SyncJob): Promise<void> {
+    this.publish(job);
+
+    // Snapshot now; the write may wait for earlier ones
+    const { id, created_at, ...fields } = job;
+    const write = (this.writes.get(id) || Promise.resolve()).then(async () => {
+      const { error } = await supabaseAdmin
+        .from('sync_jobs')
+        .update(fields)
+        .eq('id', id);
+
+      if (error) {
+        console.error(`Error persisting sync job ${id}:`, error);
+      }
+    });
+    this.writes.set(id, write);
+    return write;
+  }
+}
+
+export const syncJobService = new SyncJobService();
@@ -0,0 +1,590 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabaseAdmin } from '../config/database.js';
+import { YouTubeService, VideoLookup } from './youtube.service.js';
+import { CommentsService } from './comments.service.js';
+import { commentAnalysisService, CommentAnalysisService } from './comment-analysis.service.js';
+
+// Videos written per stats insert + video upsert unit
+const WRITE_BATCH_SIZE = 100;
+
+// Ids per `in` filter when bulk-loading rows (keeps request URLs short)
+const LOOKUP_CHUNK_SIZE = 200;
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// Thumbnails downloaded in parallel when fingerprinting
+const THUMBNAIL_CONCURRENCY = 8;
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+/**
+ * Build the youtube_video_stats row archiving a video's stored numbers,
+ * with growth relative to its previous snapshot
+ */
+const buildStatsRow = (existingVideo: any, previousStats: any, snapshotTimestamp: string) => {
+  // Calculate growth (difference from previous entry)
+  const viewGrowth = previousStats
+    ? (existingVideo.view_count || 0) - (previousStats.view_count || 0)
+    : 0;
+  const likeGrowth = previousStats
+    ? (existingVideo.like_count || 0) - (previousStats.like_count || 0)
+    : 0;
+  const commentGrowth = previousStats
+    ? (existingVideo.comment_count || 0) - (previousStats.comment_count || 0)
+    : 0;
+
+  // Calculate views_per_hour
+  // If we have previous stats, calculate based on time difference
+  let viewsPerHour: number | null = null;
+  if (previousStats && previousStats.recorded_at) {
+    const timeDiffHours = (new Date(snapshotTimestamp).getTime() - new Date(previousStats.recorded_at).getTime()) / (1000 * 60 * 60);
+    if (timeDiffHours > 0) {
+      viewsPerHour = viewGrowth / timeDiffHours;
+    }
+  } else if (existingVideo.views_per_day) {
+    // Fallback to views_per_day / 24 if available
+    viewsPerHour = existingVideo.views_per_day / 24;
+  }
+
+  // Only the fields that exist in youtube_video_stats table
+  return {
+    video_id: existingVideo.video_id,
+    recorded_at: snapshotTimestamp,
+    view_count: existingVideo.view_count || 0,
+    like_count: existingVideo.like_count || 0,
+    comment_count: existingVideo.comment_count || 0,
+    favorite_count: existingVideo.favorite_count || 0,
+    view_growth: viewGrowth,
+    like_growth: likeGrowth,
+    comment_growth: commentGrowth,
+    engagement_rate: existingVideo.engagement_rate || null,
+    views_per_hour: viewsPerHour,
+    days_since_published: existingVideo.days_since_published || null,
+  };
+};
+
+const sameTags = (a: string[] | null | undefined, b: string[] | null | undefined) =>
+  JSON.stringify([...(a || [])].sort()) === JSON.stringify([...(b || [])].sort());
+
+/**
+ * Build youtube_video_revisions rows for the title, description, tags and
+ * thumbnail changes between a stored video and its freshly fetched row.
+ * Fields the stored row doesn't carry are not compared, and a thumbnail is
+ * only compared when both fingerprints are known (or its URL changed).
+ */
+const buildRevisionRows = (
+  existingVideo: any,
+  row: any,
+  thumbnailHash: string | null,
+  snapshotTimestamp: string
+) => {
+  const revision = (field: string, previousValue: any, newValue: any) => ({
+    video_id: row.video_id,
+    field,
+    previous_value: previousValue,
+    new_value: newValue,
+    previous_synced_at: existingVideo.last_synced_at || null,
+    changed_at: snapshotTimestamp,
+  });
+
+  const revisions = [];
+
+  for (const field of ['title', 'description']) {
+    if (existingVideo[field] !== undefined && existingVideo[field] !== row[field]) {
+      revisions.push(revision(field, existingVideo[field], row[field]));
+    }
+  }
+
+  if (existingVideo.tags !== undefined && !sameTags(existingVideo.tags, row.tags)) {
+    revisions.push(revision('tags', existingVideo.tags || [], row.tags || []));
+  }
+
+  if (existingVideo.thumbnail_url !== undefined) {
+    const urlChanged = existingVideo.thumbnail_url !== row.thumbnail_url;
+    const imageChanged = !!existingVideo.thumbnail_hash && !!thumbnailHash && existingVideo.thumbnail_hash !== thumbnailHash;
+    if (urlChanged || imageChanged) {
+      revisions.push(revision(
+        'thumbnail',
+        { url: existingVideo.thumbnail_url, hash: existingVideo.thumbnail_hash || null },
+        { url: row.thumbnail_url, hash: thumbnailHash }
+      ));
+    }
+  }
+
+  return revisions;
+};
+
+export interface ChannelSyncResult {
+  channelId: string;
+  channelName: string;
+  videosProcessed: number;
+  videosInserted: number;
+  videosUpdated: number;
+  statsArchived: number;
+  // Known videos the API stopped returning, newly marked 'gone' in this sync
+  videosRemoved: number;
+  errors: number;
+}
+
+/**
+ * Called after each video is processed with the running totals and the
+ * number of videos handled so far (out of result.videosProcessed)
+ */
+export type SyncProgressListener = (result: ChannelSyncResult, videosCompleted: number) => void;
+
+export interface SyncOptions {
+  /**
+   * Only refresh already-known videos published at or after this ISO date,
+   * skipping discovery of new uploads (used for frequent snapshot runs)
+   */
+  publishedAfter?: string | null;
+  /**
+   * Walk the whole uploads playlist instead of stopping at the first known
+   * video, picking up older uploads that earlier syncs skipped
+   */
+  fullRescan?: boolean;
+}
+
+export class SyncService {
+  private youtubeService: YouTubeService;
+  private db: SupabaseClient;
+  private commentsService: CommentsService;
+  private commentAnalysis: CommentAnalysisService;
+
+  constructor(
+    youtubeService: YouTubeService = new YouTubeService(),
+    db: SupabaseClient = supabaseAdmin,
+    commentAnalysis: CommentAnalysisService = commentAnalysisService
+  ) {
+    this.youtubeService = youtubeService;
+    this.db = db;
+    this.commentsService = new CommentsService(youtubeService, db);
+    this.commentAnalysis = commentAnalysis;
+  }
+
+  /**
+   * Retrieve every upload from a channel and populate youtube_videos table.
+   * New uploads are discovered through the uploads playlist, stopping at the
+   * first video we already know; known videos get a stats refresh.
+   * Existing rows have their previous numbers archived to youtube_video_stats
+   * before being overwritten. Known videos the API no longer returns are
+   * marked 'gone' and are not snapshotted. New comments are then pulled for
+   * videos whose comment count grew and classified (best effort).
+   */
+  async syncChannel(
+    channelId: string,
+    onProgress?: SyncProgressListener,
+    options: SyncOptions = {}
+  ): Promise<ChannelSyncResult> {
+    console.log('Starting retrieval of videos from channel:', channelId);
+
+    // Get channel name and uploads playlist
+    const channel = await this.youtubeService.getChannelInfo(channelId);
+    const channelName = channel.title;
+    console.log('Channel name:', channelName);
+
+    const result: ChannelSyncResult = {
+      channelId,
+      channelName,
+      videosProcessed: 0,
+      videosInserted: 0,
+      videosUpdated: 0,
+      statsArchived: 0,
+      videosRemoved: 0,
+      errors: 0,
+    };
+
+    let lookup: VideoLookup;
+    let knownIds: string[];
+    if (options.publishedAfter) {
+      // Refresh recent known videos only
+      knownIds = await this.getKnownVideoIds(channelId, options.publishedAfter);
+      console.log(`Refreshing ${knownIds.length} videos published since ${options.publishedAfter}`);
+      lookup = await this.youtubeService.getVideoDetails(knownIds);
+    } else {
+      knownIds = await this.getKnownVideoIds(channelId);
+
+      // Walk the uploads playlist until we reach videos we already have
+      let newIds: string[] = [];
+      if (channel.uploadsPlaylistId) {
+        newIds = await this.youtubeService.getNewUploadIds(
+          channel.uploadsPlaylistId,
+          new Set(knownIds),
+          options.fullRescan
+        );
+      } else {
+        console.warn(`Channel ${channelId} has no uploads playlist`);
+      }
+      console.log(`Found ${newIds.length} new uploads, refreshing ${knownIds.length} known videos`);
+
+      // Details are fetched in 50-id batches for new uploads and known videos alike
+      lookup = await this.youtubeService.getVideoDetails([...newIds, ...knownIds]);
+    }
+    const videos = lookup.videos;
+    console.log(`Fetched details for ${videos.length} videos`);
+
+    // Reconcile: known videos missing from the response were deleted or made private
+    const knownIdSet = new Set(knownIds);
+    const goneIds = lookup.missingIds.filter((id) => knownIdSet.has(id));
+    const videosRemoved = await this.markGone(goneIds);
+    if (videosRemoved > 0) {
+      console.log(`Marked ${videosRemoved} videos as gone`);
+    }
+
+    if (videos.length === 0) {
+      result.videosRemoved = videosRemoved;
+      onProgress?.(result, 0);
+      await this.recordChannelSync(channelId, channelName);
+      return result;
+    }
+
+    const applied = await this.applyVideos(channelId, channelName, videos, onProgress);
+    applied.videosRemoved = videosRemoved;
+    onProgress?.(applied, applied.videosProcessed);
+
+    try {
+      const videoIds = videos.map((video) => video.id);
+      const comments = await this.commentsService.syncComments(videoIds);
+      console.log(
+        `Comments: ${comments.commentsInserted} new, ${comments.commentsUpdated} refreshed across ${comments.videosChecked} videos`
+      );
+      if (comments.commentsInserted + comments.commentsUpdated > 0) {
+        const analyzed = await this.commentAnalysis.analyzeComments(videoIds);
+        console.log(`Analyzed ${analyzed} comments`);
+      }
+    } catch (error: any) {
+      console.error(`Error syncing comments for channel ${channelId}:`, error);
+    }
+
+    await this.recordChannelSync(channelId, channelName);
+    return applied;
+  }
+
+  /**
+   * Record a finished sync on the channel registry (best effort)
+   */
+  private async recordChannelSync(channelId: string, channelName: string): Promise<void> {
+    const { error } = await this.db
+      .from('channels')
+      .update({ title: channelName, last_synced_at: new Date().toISOString() })
+      .eq('channel_id', channelId);
+
+    if (error) {
+      console.error(`Error updating channel ${channelId} after sync:`, error);
+    }
+  }
+
+  /**
+   * Write fetched videos to the database in bulk: existing rows and their
+   * latest snapshots are loaded up front, growth and metadata revisions are
+   * computed in memory, and each batch archives stats and revisions then
+   * upserts videos as one unit. If the video upsert fails, that batch's
+   * freshly archived rows are removed again so history never exists without
+   * the matching video update.
+   */
+  async applyVideos(
+    channelId: string,
+    channelName: string,
+    videos: any[],
+    onProgress?: SyncProgressListener
+  ): Promise<ChannelSyncResult> {
+    const result: ChannelSyncResult = {
+      channelId,
+      channelName,
+      videosProcessed: videos.length,
+      videosInserted: 0,
+      videosUpdated: 0,
+      statsArchived: 0,
+      videosRemoved: 0,
+      errors: 0,
+    };
+
+    const snapshotTimestamp = new Date().toISOString();
+    let videosCompleted = 0;
+    onProgress?.(result, videosCompleted);
+
+    const rows = videos.map((video) =>
+      this.youtubeService.transformVideoData(video, channelId, channelName)
+    );
+    const existingVideos = await this.loadExistingVideos(rows.map((row) => row.video_id));
+    const latestStats = await this.loadLatestStats(Array.from(existingVideos.keys()));
+    const thumbnailHashes = await this.fingerprintThumbnails(rows);
+
+    for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+      const batch = rows.slice(i, i + WRITE_BATCH_SIZE);
+
+      const statsRows = batch
+        .filter((row) => existingVideos.has(row.video_id))
+        .map((row) =>
+          buildStatsRow(existingVideos.get(row.video_id), latestStats.get(row.video_id), snapshotTimestamp)
+        );
+
+      const revisionRows = batch
+        .filter((row) => existingVideos.has(row.video_id))
+        .flatMap((row) =>
+          buildRevisionRows(
+            existingVideos.get(row.video_id),
+            row,
+            thumbnailHashes.get(row.video_id) ?? null,
+            snapshotTimestamp
+          )
+        );
+
+      const videoRows = batch.map((row) => {
+        const existing = existingVideos.get(row.video_id);
+        // An aired premiere reports like a finished live stream; keep what we saw before it aired
+        const contentType = existing?.content_type === 'premiere' && row.content_type === 'live'
+          ? 'premiere'
+          : row.content_type;
+        return {
+          ...row,
+          content_type: contentType,
+          // Keep the last known fingerprint when the thumbnail couldn't be fetched
+          thumbnail_hash: thumbnailHashes.get(row.video_id) ?? existing?.thumbnail_hash ?? null,
+          first_synced_at: existing?.first_synced_at || snapshotTimestamp,
+          last_synced_at: snapshotTimestamp,
+          updated_at: snapshotTimestamp,
+          sync_count: existing ? (existing.sync_count || 1) + 1 : 1,
+        };
+      });
+
+      if (await this.writeBatch(statsRows, revisionRows, videoRows, snapshotTimestamp)) {
+        if (revisionRows.length > 0) {
+          console.log(`Recorded ${revisionRows.length} metadata revisions`);
+        }
+        result.statsArchived += statsRows.length;
+        result.videosUpdated += statsRows.length;
+        result.videosInserted += batch.length - statsRows.length;
+      } else {
+        result.errors += batch.length;
+      }
+
+      videosCompleted += batch.length;
+      onProgress?.(result, videosCompleted);
+    }
+
+    return result;
+  }
+
+  /**
+   * Estimate the YouTube quota units a sync of this channel will spend,
+   * based on how many videos we already know about and how many of them
+   * have comments left to fetch
+   */
+  async estimateQuotaCost(channelId: string, options: SyncOptions = {}): Promise<number> {
+    let query = this.db
+      .from('youtube_videos')
+      .select('video_id', { count: 'exact', head: true })
+      .eq('channel_id', channelId);
+
+    if (options.publishedAfter) {
+      query = query.gte('published_at', options.publishedAfter);
+    }
+
+    const { count, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    const commentsCost = await this.commentsService.estimateQuotaCost(channelId, options.publishedAfter || undefined);
+    return this.youtubeService.estimateSyncCost(count || 0, !!options.publishedAfter, !!options.fullRescan) + commentsCost;
+  }
+
+  /**
+   * Mark videos as gone, stamping removed_at the first time only.
+   * Returns how many were newly marked.
+   */
+  private async markGone(videoIds: string[]): Promise<number> {
+    const removedAt = new Date().toISOString();
+    let marked = 0;
+
+    for (const ids of chunk(videoIds, LOOKUP_CHUNK_SIZE)) {
+      const { data, error } = await this.db
+        .from('youtube_videos')
+        .update({ status: 'gone', removed_at: removedAt, updated_at: removedAt })
+        .in('video_id', ids)
+        .neq('status', 'gone')
+        .select('video_id');
+
+      if (error) {
+        console.error('Error marking videos as gone:', error);
+        continue;
+      }
+
+      marked += (data || []).length;
+    }
+
+    return marked;
+  }
+
+  /**
+   * Get ids of videos already stored for a channel, optionally only those
+   * published at or after a date
+   */
+  private async getKnownVideoIds(channelId: string, publishedAfter?: string): Promise<string[]> {
+    const ids: string[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      let query = this.db
+        .from('youtube_videos')
+        .select('video_id')
+        .eq('channel_id', channelId)
+        .order('video_id')
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (publishedAfter) {
+        query = query.gte('published_at', publishedAfter);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw error;
+      }
+
+      ids.push(...(data || []).map((row: any) => row.video_id));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return ids;
+  }
+
+  /**
+   * Fingerprint the thumbnails of the given rows, a few downloads at a time,
+   * keyed by video_id. Rows whose thumbnail couldn't be fetched are left out.
+   */
+  private async fingerprintThumbnails(rows: any[]): Promise<Map<string, string>> {
+    const hashes = new Map<string, string>();
+    const withThumbnails = rows.filter((row) => row.thumbnail_url);
+
+    for (const group of chunk(withThumbnails, THUMBNAIL_CONCURRENCY)) {
+      const groupHashes = await Promise.all(
+        group.map((row) => this.youtubeService.getThumbnailFingerprint(row.thumbnail_url))
+      );
+      group.forEach((row, i) => {
+        const hash = groupHashes[i];
+        if (hash) hashes.set(row.video_id, hash);
+      });
+    }
+
+    return hashes;
+  }
+
+  /**
+   * Load stored rows for the given video ids, keyed by video_id
+   */
+  private async loadExistingVideos(videoIds: string[]): Promise<Map<string, any>> {
+    const existing = new Map<string, any>();
+    for (const ids of chunk(videoIds, LOOKUP_CHUNK_SIZE)) {
+      const { data, error } = await this.db
+        .from('youtube_videos')
+        .select('*')
+        .in('video_id', ids);
+
+      if (error) {
+        throw error;
+      }
+
+      (data || []).forEach((row: any) => existing.set(row.video_id, row));
+    }
+    return existing;
+  }
+
+  /**
+   * Load the most recent youtube_video_stats snapshot per video, keyed by video_id
+   */
+  private async loadLatestStats(videoIds: string[]): Promise<Map<string, any>> {
+    const latest = new Map<string, any>();
+    for (const ids of chunk(videoIds, LOOKUP_CHUNK_SIZE)) {
+      const { data, error } = await this.db
+        .from('youtube_video_latest_stats')
+        .select('video_id, view_count, like_count, comment_count, recorded_at')
+        .in('video_id', ids);
+
+      if (error) {
+        throw error;
+      }
+
+      (data || []).forEach((row: any) => latest.set(row.video_id, row));
+    }
+    return latest;
+  }
+
+  /**
+   * Archive stats and revisions, then upsert videos for one batch. Returns
+   * false (after undoing the archived rows) if any part of the batch failed.
+   */
+  private async writeBatch(
+    statsRows: any[],
+    revisionRows: any[],
+    videoRows: any[],
+    snapshotTimestamp: string
+  ): Promise<boolean> {
+    if (statsRows.length > 0) {
+      const { error: archiveError } = await this.db
+        .from('youtube_video_stats')
+        .insert(statsRows);
+
+      if (archiveError) {
+        console.error('Error archiving stats batch:', archiveError);
+        return false;
+      }
+    }
+
+    if (revisionRows.length > 0) {
+      const { error: revisionError } = await this.db
+        .from('youtube_video_revisions')
+        .insert(revisionRows);
+
+      if (revisionError) {
+        console.error('Error recording revisions batch:', revisionError);
+        await this.rollbackBatch('youtube_video_stats', 'recorded_at', statsRows, snapshotTimestamp);
+        return false;
+      }
+    }
+
+    const { error: upsertError } = await this.db
+      .from('youtube_videos')
+      .upsert(videoRows, { onConflict: 'video_id' });
+
+    if (!upsertError) {
+      return true;
+    }
+
+    console.error('Error upserting videos batch:', upsertError);
+
+    await this.rollbackBatch('youtube_video_stats', 'recorded_at', statsRows, snapshotTimestamp);
+    await this.rollbackBatch('youtube_video_revisions', 'changed_at', revisionRows, snapshotTimestamp);
+
+    return false;
+  }
+
+  /**
+   * Delete rows a failed batch inserted into a history table
+   */
+  private async rollbackBatch(
+    table: string,
+    timestampColumn: string,
+    rows: any[],
+    snapshotTimestamp: string
+  ): Promise<void> {
+    if (rows.length === 0) return;
+
+    const { error } = await this.db
+      .from(table)
+      .delete()
+      .in('video_id', Array.from(new Set(rows.map((row) => row.video_id))))
+      .eq(timestampColumn, snapshotTimestamp);
+
+    if (error) {
+      console.error(`Error rolling back ${table} batch:`, error);
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import OpenAI from 'openai';
+import { env } from '../config/env.js';
+import { createOpenAIClient } from './llm-providers.js';
+
+/**
+ * Turns texts into vectors. Implementations must return one vector per
+ * input text, in order, all with `dimensions` entries.
+ */
+export interface TextEmbedder {
+  model: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Inputs per embeddings request (the API accepts up to 2048)
+const OPENAI_BATCH_SIZE = 256;
+
+export class OpenAIEmbedder implements TextEmbedder {
+  model = 'text-embedding-3-small';
+  dimensions = 1536;
+  private apiKey: string | undefined;
+  private client: OpenAI | null = null;
+
+  constructor(apiKey: string | undefined = env.OPENAI_API_KEY) {
+    this.apiKey = apiKey;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    // Created on first use so the API still boots without a key
+    this.client ??= createOpenAIClient(this.apiKey);
+
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += OPENAI_BATCH_SIZE) {
+      const response = await this.client.embeddings.create({
+        model: this.model,
+        input: texts.slice(i, i + OPENAI_BATCH_SIZE),
+      });
+      vectors.push(...response.data.sort((a, b) => a.index - b.index).map((item) => item.embedding));
+    }
+    return vectors;
+  }
+}
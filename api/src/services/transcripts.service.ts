@@ -0,0 +1,191 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabaseAdmin } from '../config/database.js';
+import { CaptionFetcher, TimedTextCaptionFetcher } from './caption-fetchers.js';
+
+export type TranscriptSource = 'captions' | 'upload';
+export type TranscriptFormat = 'srt' | 'vtt';
+
+export interface TranscriptSegment {
+  // Seconds from the start of the video
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface VideoTranscript {
+  video_id: string;
+  source: TranscriptSource;
+  language: string | null;
+  segments: TranscriptSegment[];
+  text: string;
+  imported_at: string;
+}
+
+export class TranscriptParseError extends Error {
+  statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptParseError';
+  }
+}
+
+// 00:01:02,500 (SRT), 00:01:02.500 or 01:02.500 (WebVTT)
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})/;
+const CUE_TIMING = new RegExp(`${TIMESTAMP.source}\\s*-->\\s*${TIMESTAMP.source}`);
+
+const toSeconds = (hours: string | undefined, minutes: string, seconds: string, fraction: string) =>
+  parseInt(hours || '0') * 3600 + parseInt(minutes) * 60 + parseInt(seconds) + parseInt(fraction.padEnd(3, '0')) / 1000;
+
+const cleanCueText = (lines: string[]) =>
+  lines
+    .join(' ')
+    // Formatting and karaoke timing tags (<i>, <c.colorE5E5E5>, <00:00:01.200>)
+    .replace(/<[^>]*>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Parse SRT or WebVTT cues into timed segments. Both formats are blocks
+ * separated by blank lines with a `start --> end` timing line; anything
+ * without one (WEBVTT header, NOTE/STYLE blocks, cue numbers) is skipped.
+ * YouTube's caption tracks roll, repeating the previous line in each cue, so
+ * with rollingCaptions a cue line equal to the previous cue's last line is
+ * dropped. Uploaded files keep every line (a cue may well repeat "No.").
+ */
+export const parseTranscript = (content: string, { rollingCaptions = false } = {}): TranscriptSegment[] => {
+  const segments: TranscriptSegment[] = [];
+  let previousLine = '';
+
+  for (const block of content.replace(/\r\n?/g, '\n').split(/\n\s*\n/)) {
+    const lines = block.split('\n').map((line) => line.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex((line) => CUE_TIMING.test(line));
+    if (timingIndex === -1) continue;
+
+    const match = lines[timingIndex].match(CUE_TIMING)!;
+    const start = toSeconds(match[1], match[2], match[3], match[4]);
+    const end = toSeconds(match[5], match[6], match[7], match[8]);
+
+    const cueLines = lines.slice(timingIndex + 1).map((line) => cleanCueText([line])).filter(Boolean);
+    const freshLines = rollingCaptions && cueLines[0] === previousLine ? cueLines.slice(1) : cueLines;
+    if (cueLines.length > 0) previousLine = cueLines[cueLines.length - 1];
+
+    const text = freshLines.join(' ');
+    if (text) segments.push({ start, end, text });
+  }
+
+  return segments;
+};
+
+/**
+ * Work out a file's format from its name, falling back to the WEBVTT header
+ */
+export const detectTranscriptFormat = (filename: string, content: string): TranscriptFormat | null => {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'srt' || extension === 'vtt') return extension;
+  if (content.trimStart().startsWith('WEBVTT')) return 'vtt';
+  return CUE_TIMING.test(content) ? 'srt' : null;
+};
+
+/**
+ * Plain text of a transcript, as used for the script field
+ */
+export const transcriptText = (segments: TranscriptSegment[]): string =>
+  segments.map((segment) => segment.text).join(' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Imports timed transcripts for videos, from caption tracks or uploaded
+ * subtitle files, and stores them in video_transcripts (one per video; a new
+ * import replaces the previous one).
+ */
+export class TranscriptsService {
+  private fetcher: CaptionFetcher;
+  private db: SupabaseClient;
+
+  constructor(
+    fetcher: CaptionFetcher = new TimedTextCaptionFetcher(),
+    db: SupabaseClient = supabaseAdmin
+  ) {
+    this.fetcher = fetcher;
+    this.db = db;
+  }
+
+  async getTranscript(videoId: string): Promise<VideoTranscript | null> {
+    const { data, error } = await this.db
+      .from('video_transcripts')
+      .select('*')
+      .eq('video_id', videoId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Fetch the video's caption track. Returns null when it has none in this language.
+   */
+  async importCaptions(videoId: string, language = 'en'): Promise<VideoTranscript | null> {
+    const track = await this.fetcher.fetchCaptions(videoId, language);
+    if (!track) {
+      return null;
+    }
+
+    const segments = parseTranscript(track.content, { rollingCaptions: true });
+    if (segments.length === 0) {
+      return null;
+    }
+
+    return this.save(videoId, 'captions', track.language, segments);
+  }
+
+  async importFile(videoId: string, filename: string, content: string, language: string | null = null): Promise<VideoTranscript> {
+    if (!detectTranscriptFormat(filename, content)) {
+      throw new TranscriptParseError('Unsupported transcript file; upload an .srt or .vtt file');
+    }
+
+    const segments = parseTranscript(content);
+    if (segments.length === 0) {
+      throw new TranscriptParseError(`No timed cues found in ${filename}`);
+    }
+
+    return this.save(videoId, 'upload', language, segments);
+  }
+
+  private async save(
+    videoId: string,
+    source: TranscriptSource,
+    language: string | null,
+    segments: TranscriptSegment[]
+  ): Promise<VideoTranscript> {
+    const { data, error } = await this.db
+      .from('video_transcripts')
+      .upsert(
+        {
+          video_id: videoId,
+          source,
+          language,
+          segments,
+          text: transcriptText(segments),
+          imported_at: new Date().toISOString(),
+        },
+        { onConflict: 'video_id' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+}
+
+export const transcriptsService = new TranscriptsService();
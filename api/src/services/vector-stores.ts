@@ -0,0 +1,198 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { env } from '../config/env.js';
+import { supabaseAdmin } from '../config/database.js';
+
+export interface VectorEntry {
+  // video_embeddings.id
+  id: string;
+  vector: number[];
+  // Hash of the text the vector was built from, to skip unchanged rows
+  hash: string;
+  model: string;
+}
+
+export interface VectorMatch {
+  id: string;
+  similarity: number;
+}
+
+/**
+ * Stores one vector per video_embeddings row and finds the nearest ones.
+ * `persistent` stores keep vectors across restarts; others are rebuilt
+ * lazily by the caller.
+ */
+export interface VectorStore {
+  name: string;
+  persistent: boolean;
+  // Hashes of stored vectors by row id, optionally only for some rows
+  storedHashes(ids?: string[]): Promise<Map<string, string>>;
+  getVector(id: string): Promise<number[] | null>;
+  upsert(entries: VectorEntry[]): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+  search(vector: number[], limit: number, excludeIds?: string[]): Promise<VectorMatch[]>;
+}
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+};
+
+/**
+ * Vectors live in video_embeddings.embedding_vector (pgvector) and are
+ * searched with the match_video_embeddings function (see README).
+ */
+export class PgVectorStore implements VectorStore {
+  name = 'pgvector';
+  persistent = true;
+  private db: SupabaseClient;
+
+  constructor(db: SupabaseClient = supabaseAdmin) {
+    this.db = db;
+  }
+
+  async storedHashes(ids?: string[]): Promise<Map<string, string>> {
+    const hashes = new Map<string, string>();
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      let query = this.db
+        .from('video_embeddings')
+        .select('id, embedding_hash')
+        .not('embedding_hash', 'is', null)
+        .order('id')
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (ids) {
+        query = query.in('id', ids);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw error;
+      }
+
+      (data || []).forEach((row: any) => hashes.set(row.id, row.embedding_hash));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+    return hashes;
+  }
+
+  async getVector(id: string): Promise<number[] | null> {
+    const { data, error } = await this.db
+      .from('video_embeddings')
+      .select('embedding_vector')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    // PostgREST returns vector columns in their text form, "[0.1,0.2,...]"
+    const vector = data?.embedding_vector;
+    return typeof vector === 'string' ? JSON.parse(vector) : vector || null;
+  }
+
+  async upsert(entries: VectorEntry[]): Promise<void> {
+    const embeddedAt = new Date().toISOString();
+    for (const entry of entries) {
+      const { error } = await this.db
+        .from('video_embeddings')
+        .update({
+          embedding_vector: entry.vector,
+          embedding_hash: entry.hash,
+          embedding_model: entry.model,
+          embedded_at: embeddedAt,
+        })
+        .eq('id', entry.id);
+
+      if (error) {
+        throw error;
+      }
+    }
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    // Deleted rows take their vector with them; this clears rows that lost their text
+    if (ids.length === 0) return;
+
+    const { error } = await this.db
+      .from('video_embeddings')
+      .update({ embedding_vector: null, embedding_hash: null, embedding_model: null, embedded_at: null })
+      .in('id', ids);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async search(vector: number[], limit: number, excludeIds: string[] = []): Promise<VectorMatch[]> {
+    const { data, error } = await this.db.rpc('match_video_embeddings', {
+      query_embedding: vector,
+      match_count: limit + excludeIds.length,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    const excluded = new Set(excludeIds);
+    return (data || [])
+      .filter((match: any) => !excluded.has(match.id))
+      .slice(0, limit)
+      .map((match: any) => ({ id: match.id, similarity: match.similarity }));
+  }
+}
+
+/**
+ * Brute-force cosine search over vectors held in process memory, for local
+ * databases without pgvector. Starts empty after every restart.
+ */
+export class MemoryVectorStore implements VectorStore {
+  name = 'memory';
+  persistent = false;
+  private entries = new Map<string, VectorEntry>();
+
+  async storedHashes(ids?: string[]): Promise<Map<string, string>> {
+    const entries = ids
+      ? ids.map((id) => this.entries.get(id)).filter((entry): entry is VectorEntry => !!entry)
+      : Array.from(this.entries.values());
+    return new Map(entries.map((entry) => [entry.id, entry.hash]));
+  }
+
+  async getVector(id: string): Promise<number[] | null> {
+    return this.entries.get(id)?.vector || null;
+  }
+
+  async upsert(entries: VectorEntry[]): Promise<void> {
+    entries.forEach((entry) => this.entries.set(entry.id, entry));
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    ids.forEach((id) => this.entries.delete(id));
+  }
+
+  async search(vector: number[], limit: number, excludeIds: string[] = []): Promise<VectorMatch[]> {
+    const excluded = new Set(excludeIds);
+    return Array.from(this.entries.values())
+      .filter((entry) => !excluded.has(entry.id))
+      .map((entry) => ({ id: entry.id, similarity: cosineSimilarity(vector, entry.vector) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+}
+
+/**
+ * The store selected by VECTOR_STORE
+ */
+export const createVectorStore = (): VectorStore =>
+  env.VECTOR_STORE === 'memory' ? new MemoryVectorStore() : new PgVectorStore();
@@ -1,13 +1,115 @@
 import axios from 'axios';
+import { createHash } from 'crypto';
 import { env } from '../config/env.js';
+import { quotaService, QuotaService, QuotaExceededError, QUOTA_COSTS } from './quota.service.js';
 
-const YOUTUBE_API_BASE = 'https://www.googleapis.com/youtube/v3';
+// Retry policy for rate limiting (429) and server errors (5xx)
+const MAX_RETRIES = 4;
+const RETRY_BASE_DELAY_MS = 500;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export type ContentType = 'short' | 'long' | 'live' | 'premiere';
+
+/**
+ * 'gone' marks videos the API stopped returning (deleted, or made private)
+ */
+export type VideoStatus = 'public' | 'unlisted' | 'private' | 'gone';
+
+export interface VideoLookup {
+  videos: any[];
+  missingIds: string[];
+}
+
+// Shorts were capped at 60 seconds until YouTube raised the limit to
+// 3 minutes for videos uploaded from October 15, 2024
+const SHORTS_MAX_SECONDS = 60;
+const SHORTS_EXTENDED_MAX_SECONDS = 180;
+const SHORTS_EXTENDED_FROM = Date.parse('2024-10-15T00:00:00Z');
 
 export class YouTubeService {
   private apiKey: string;
+  private apiBase: string;
+  private quota: QuotaService;
 
-  constructor() {
+  constructor(quota: QuotaService = quotaService) {
     this.apiKey = env.YOUTUBE_API_KEY;
+    this.apiBase = env.YOUTUBE_API_BASE.replace(/\/$/, '');
+    this.quota = quota;
+  }
+
+  /**
+   * GET a YouTube Data API endpoint, charging its quota cost first and
+   * retrying 429/5xx responses with exponential backoff.
+   * Every attempt is charged, since Google bills failed calls too.
+   */
+  private async request<T = any>(endpoint: string, params: Record<string, any>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.quota.reserve(endpoint, QUOTA_COSTS[endpoint] ?? 1);
+
+      try {
+        const response = await axios.get<T>(`${this.apiBase}/${endpoint}`, {
+          params: { ...params, key: this.apiKey },
+        });
+        return response.data;
+      } catch (error: any) {
+        const status: number | undefined = error.response?.status;
+        const reason: string | undefined = error.response?.data?.error?.errors?.[0]?.reason;
+
+        if (status === 403 && (reason === 'quotaExceeded' || reason === 'dailyLimitExceeded')) {
+          this.quota.markExhausted();
+          throw new QuotaExceededError('YouTube API daily quota exceeded');
+        }
+
+        const retryable = status === 429 || (status !== undefined && status >= 500);
+        if (!retryable || attempt >= MAX_RETRIES) {
+          throw error;
+        }
+
+        const delay = RETRY_BASE_DELAY_MS * 2 ** attempt + Math.random() * RETRY_BASE_DELAY_MS;
+        console.warn(`YouTube ${endpoint} returned ${status}, retrying in ${Math.round(delay)}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Estimate the quota cost of syncing a channel that has roughly videoCount known videos.
+   * Assumes new uploads fit in a single uploads playlist page (and a few more
+   * than videoCount uploads exist when rescanning).
+   */
+  estimateSyncCost(videoCount: number, refreshOnly = false, fullRescan = false): number {
+    const detailsCost = Math.max(1, Math.ceil(videoCount / 50)) * QUOTA_COSTS.videos;
+    if (refreshOnly) {
+      return QUOTA_COSTS.channels + detailsCost;
+    }
+    if (fullRescan) {
+      // every uploads playlist page + details for uploads not yet stored + stats refresh
+      const playlistPages = Math.ceil(videoCount / 50) + 1;
+      return QUOTA_COSTS.channels + playlistPages * QUOTA_COSTS.playlistItems + QUOTA_COSTS.videos + detailsCost;
+    }
+    // uploads playlist page + details for new uploads + stats refresh of known videos
+    return QUOTA_COSTS.channels + QUOTA_COSTS.playlistItems + QUOTA_COSTS.videos + detailsCost;
+  }
+
+  /**
+   * Get channel name and uploads playlist id from channel ID
+   */
+  async getChannelInfo(channelId: string): Promise<{ title: string; uploadsPlaylistId: string | null }> {
+    const data = await this.request('channels', {
+      part: 'snippet,contentDetails',
+      id: channelId,
+    });
+
+    const channel = data.items?.[0];
+    if (!channel) {
+      throw new Error(`Channel ${channelId} not found on YouTube`);
+    }
+
+    return {
+      title: channel.snippet?.title || 'Unknown Channel',
+      uploadsPlaylistId: channel.contentDetails?.relatedPlaylists?.uploads || null,
+    };
   }
 
   /**
@@ -15,107 +117,87 @@ export class YouTubeService {
    */
   async getChannelName(channelId: string): Promise<string> {
     try {
-      const response = await axios.get(`${YOUTUBE_API_BASE}/channels`, {
-        params: {
-          part: 'snippet',
-          id: channelId,
-          key: this.apiKey,
-        },
-      });
-
-      if (response.data.items && response.data.items.length > 0) {
-        return response.data.items[0].snippet.title;
-      }
-      return 'Unknown Channel';
+      const { title } = await this.getChannelInfo(channelId);
+      return title;
     } catch (error: any) {
+      if (error instanceof QuotaExceededError) {
+        throw error;
+      }
       console.error('Error fetching channel name:', error);
       return 'Unknown Channel';
     }
   }
 
   /**
-   * Fetch all video IDs from a channel (Shorts only)
-   * YouTube Shorts are videos with duration <= 60 seconds
+   * Walk a channel's uploads playlist (newest first) and collect video IDs
+   * until reaching one that is already known. Costs 1 unit per 50 uploads,
+   * versus 100 per page for search.list.
+   * With walkAll, known videos are skipped instead and the whole playlist is read.
    */
-  async getAllShortsFromChannel(channelId: string): Promise<string[]> {
+  async getNewUploadIds(
+    uploadsPlaylistId: string,
+    knownVideoIds: Set<string>,
+    walkAll = false
+  ): Promise<string[]> {
     const videoIds: string[] = [];
     let nextPageToken: string | undefined = undefined;
 
-    try {
-      do {
-        const response = await axios.get(`${YOUTUBE_API_BASE}/search`, {
-          params: {
-            part: 'id',
-            channelId: channelId,
-            type: 'video',
-            maxResults: 50,
-            order: 'date',
-            pageToken: nextPageToken,
-            key: this.apiKey,
-          },
-        });
+    do {
+      const data: any = await this.request('playlistItems', {
+        part: 'contentDetails',
+        playlistId: uploadsPlaylistId,
+        maxResults: 50,
+        pageToken: nextPageToken,
+      });
 
-        const items = response.data.items || [];
-        const batchVideoIds = items.map((item: any) => item.id.videoId);
-        
-        // Fetch video details to filter for shorts (duration <= 60 seconds)
-        if (batchVideoIds.length > 0) {
-          const shortsIds = await this.filterShorts(batchVideoIds);
-          videoIds.push(...shortsIds);
+      for (const item of data.items || []) {
+        const videoId = item.contentDetails?.videoId;
+        if (!videoId) continue;
+        if (knownVideoIds.has(videoId)) {
+          if (walkAll) continue;
+          return videoIds;
         }
-        
-        nextPageToken = response.data.nextPageToken;
-      } while (nextPageToken);
+        videoIds.push(videoId);
+      }
 
-      return videoIds;
-    } catch (error: any) {
-      console.error('Error fetching shorts from channel:', error);
-      throw new Error(`Failed to fetch shorts: ${error.message}`);
-    }
+      nextPageToken = data.nextPageToken;
+    } while (nextPageToken);
+
+    return videoIds;
   }
 
   /**
-   * Filter videos to only include shorts (duration <= 60 seconds)
+   * Classify a video as short / long / live / premiere.
+   * Broadcasts carry liveStreamingDetails: a premiere already has its full
+   * duration while upcoming or airing, whereas a live stream has none until it
+   * ends. Once aired the two look the same, so sync keeps an earlier
+   * 'premiere' classification. Shorts are recognised by length alone, since
+   * the API doesn't expose aspect ratio.
    */
-  private async filterShorts(videoIds: string[]): Promise<string[]> {
-    try {
-      // YouTube API allows up to 50 video IDs per request
-      const batches = [];
-      for (let i = 0; i < videoIds.length; i += 50) {
-        batches.push(videoIds.slice(i, i + 50));
-      }
+  classifyContentType(video: any): ContentType {
+    const duration = this.parseDuration(video.contentDetails?.duration || 'PT0S');
 
-      const shortsIds: string[] = [];
-      for (const batch of batches) {
-        const response = await axios.get(`${YOUTUBE_API_BASE}/videos`, {
-          params: {
-            part: 'contentDetails',
-            id: batch.join(','),
-            key: this.apiKey,
-          },
-        });
+    if (video.liveStreamingDetails) {
+      const broadcasting = (video.snippet?.liveBroadcastContent || 'none') !== 'none';
+      return broadcasting && duration > 0 ? 'premiere' : 'live';
+    }
 
-        const items = response.data.items || [];
-        for (const item of items) {
-          const duration = this.parseDuration(item.contentDetails.duration || 'PT0S');
-          if (duration <= 60) {
-            shortsIds.push(item.id);
-          }
-        }
-      }
+    const publishedAt = new Date(video.snippet?.publishedAt || 0).getTime();
+    const maxShortSeconds = publishedAt >= SHORTS_EXTENDED_FROM
+      ? SHORTS_EXTENDED_MAX_SECONDS
+      : SHORTS_MAX_SECONDS;
 
-      return shortsIds;
-    } catch (error: any) {
-      console.error('Error filtering shorts:', error);
-      return [];
-    }
+    return duration > 0 && duration <= maxShortSeconds ? 'short' : 'long';
   }
 
   /**
-   * Fetch video details (metadata + stats)
+   * Fetch video details (metadata + stats).
+   * Ids the API doesn't return were deleted or made private (videos.list
+   * only sees public and unlisted videos with an API key); they are reported
+   * as missingIds. Ids in batches that failed are in neither list.
    */
-  async getVideoDetails(videoIds: string[]): Promise<any[]> {
-    if (videoIds.length === 0) return [];
+  async getVideoDetails(videoIds: string[]): Promise<VideoLookup> {
+    if (videoIds.length === 0) return { videos: [], missingIds: [] };
 
     // YouTube API allows up to 50 video IDs per request
     const batches = [];
@@ -124,22 +206,84 @@ export class YouTubeService {
     }
 
     const allVideos = [];
+    const missingIds: string[] = [];
     for (const batch of batches) {
       try {
-        const response = await axios.get(`${YOUTUBE_API_BASE}/videos`, {
-          params: {
-            part: 'snippet,statistics,contentDetails',
-            id: batch.join(','),
-            key: this.apiKey,
-          },
+        const data = await this.request('videos', {
+          part: 'snippet,statistics,contentDetails,liveStreamingDetails,status',
+          id: batch.join(','),
         });
-        allVideos.push(...(response.data.items || []));
+        const items = data.items || [];
+        const returnedIds = new Set(items.map((item: any) => item.id));
+        allVideos.push(...items);
+        missingIds.push(...batch.filter((id) => !returnedIds.has(id)));
       } catch (error: any) {
+        if (error instanceof QuotaExceededError) {
+          throw error;
+        }
         console.error(`Error fetching video details for batch:`, error);
       }
     }
 
-    return allVideos;
+    return { videos: allVideos, missingIds };
+  }
+
+  /**
+   * Fetch a video's comment threads newest first, 100 per page (1 unit each).
+   * Paging stops after maxPages, or after the first page that reaches a
+   * thread in knownThreadIds, since everything older was fetched before.
+   * Returns [] when comments are disabled on the video.
+   */
+  async getCommentThreads(videoId: string, knownThreadIds: Set<string>, maxPages: number): Promise<any[]> {
+    const threads: any[] = [];
+    let nextPageToken: string | undefined = undefined;
+    let pages = 0;
+
+    try {
+      do {
+        const data: any = await this.request('commentThreads', {
+          part: 'snippet',
+          videoId,
+          order: 'time',
+          textFormat: 'plainText',
+          maxResults: 100,
+          pageToken: nextPageToken,
+        });
+        pages++;
+
+        const items = data.items || [];
+        threads.push(...items);
+
+        if (items.some((item: any) => knownThreadIds.has(item.id))) {
+          break;
+        }
+        nextPageToken = data.nextPageToken;
+      } while (nextPageToken && pages < maxPages);
+    } catch (error: any) {
+      const reason: string | undefined = error.response?.data?.error?.errors?.[0]?.reason;
+      if (reason === 'commentsDisabled') {
+        return [];
+      }
+      throw error;
+    }
+
+    return threads;
+  }
+
+  /**
+   * Fingerprint a thumbnail by its image content. A custom thumbnail swap
+   * usually keeps the same URL, so the URL alone can't reveal the change.
+   * Thumbnails are served outside the Data API and cost no quota.
+   * Returns null if the image can't be fetched.
+   */
+  async getThumbnailFingerprint(url: string): Promise<string | null> {
+    try {
+      const response = await axios.get<ArrayBuffer>(url, { responseType: 'arraybuffer', timeout: 10000 });
+      return createHash('sha1').update(Buffer.from(response.data)).digest('hex');
+    } catch (error: any) {
+      console.warn(`Could not fetch thumbnail ${url}: ${error.message}`);
+      return null;
+    }
   }
 
   /**
@@ -149,6 +293,7 @@ export class YouTubeService {
     const stats = video.statistics || {};
     const snippet = video.snippet || {};
     const contentDetails = video.contentDetails || {};
+    const status: VideoStatus = video.status?.privacyStatus || 'public';
     
     // Calculate duration in seconds
     const duration = this.parseDuration(contentDetails.duration || 'PT0S');
@@ -180,6 +325,9 @@ export class YouTubeService {
       description: snippet.description || null,
       published_at: snippet.publishedAt,
       duration_seconds: duration,
+      content_type: this.classifyContentType(video),
+      status,
+      removed_at: null,
       category_id: parseInt(snippet.categoryId || '0'),
       category_name: snippet.categoryId || null,
       tags: snippet.tags || [],
@@ -0,0 +1,98 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { startFakeBackends, FakeBackends } from './support/backends.js';
+
+let backends: FakeBackends;
+let server: Server;
+let baseUrl: string;
+
+const post = async (path: string, body: unknown) => {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, body: path.endsWith('/stream') ? await response.text() : await response.json() };
+};
+
+before(async () => {
+  backends = await startFakeBackends();
+  backends.db.table('youtube_videos').push(
+    { video_id: 'vid-hook', title: 'Three hooks that doubled our signups', content_type: 'short', status: 'public', published_at: '2024-05-01T12:00:00Z', view_count: 52000, like_count: 2100, comment_count: 64, engagement_rate: 4.2, views_per_day: 1300 },
+    { video_id: 'vid-demo', title: 'Product demo in 30 seconds', content_type: 'short', status: 'public', published_at: '2024-04-02T12:00:00Z', view_count: 8000, like_count: 240, comment_count: 12, engagement_rate: 3.1, views_per_day: 110 },
+    { video_id: 'vid-gone', title: 'Deleted teaser', content_type: 'short', status: 'gone', published_at: '2024-03-01T12:00:00Z', view_count: 900, like_count: 10, comment_count: 1, engagement_rate: 1.2, views_per_day: 9 }
+  );
+  backends.db.table('video_embeddings').push({ id: 'emb-hook', video_id: 'vid-hook', topic: 'Signup growth', hook: 'You are losing signups here', format: 'talking head', script: null });
+
+  const express = (await import('express')).default;
+  const chatRoutes = (await import('../src/routes/chat.routes.js')).default;
+  const { errorHandler } = await import('../src/middleware/error.middleware.js');
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/chat', chatRoutes);
+  app.use(errorHandler);
+  server = await new Promise((resolve) => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  await backends.close();
+});
+
+test('replies with the mock model and cites the selected videos', async () => {
+  const { status, body } = await post('/api/chat', { message: 'Write me a hook', videoIds: ['vid-hook'], useTools: false });
+
+  assert.equal(status, 200);
+  assert.equal(body.data.provider, 'mock');
+  assert.equal(body.data.message, 'Echo (mock-echo, 2 messages): Write me a hook');
+  assert.deepEqual(body.data.context.map((citation: any) => citation.video_id), ['vid-hook']);
+  assert.equal(body.data.template.id, 'built-in');
+});
+
+test('runs the tools the model calls against the database', async () => {
+  const { status, body } = await post('/api/chat', { message: '/query_videos {"content_type": "short"}' });
+
+  assert.equal(status, 200);
+  assert.equal(body.data.steps.length, 1);
+  assert.equal(body.data.steps[0].name, 'query_videos');
+  assert.equal(body.data.steps[0].error, null);
+  assert.deepEqual(body.data.steps[0].result.videos.map((video: any) => video.video_id), ['vid-hook', 'vid-demo']);
+  assert.match(body.data.message, /^Echo \(mock-echo, tool result\): /);
+});
+
+test('streams the reply as server-sent events', async () => {
+  const { status, body } = await post('/api/chat/stream', { message: 'Another angle?', useTools: false });
+  const events = body
+    .split('\n\n')
+    .filter((chunk: string) => chunk.startsWith('data: '))
+    .map((chunk: string) => JSON.parse(chunk.slice('data: '.length)));
+
+  assert.equal(status, 200);
+  assert.equal(events[0].type, 'context');
+  assert.equal(events[events.length - 1].type, 'done');
+  const reply = events.filter((event: any) => event.type === 'delta').map((event: any) => event.content).join('');
+  assert.equal(reply, 'Echo (mock-echo, 2 messages): Another angle?');
+});
+
+test('generates structured variants that pass the schema', async () => {
+  const { status, body } = await post('/api/chat/variants', { message: 'Hooks for the demo video', count: 2 });
+
+  assert.equal(status, 200);
+  assert.equal(body.data.variants.length, 2);
+  for (const variant of body.data.variants) {
+    assert.ok(variant.hook && variant.cta && variant.outline.length > 0);
+  }
+});
+
+test('rejects a chat request without a message', async () => {
+  const { status, body } = await post('/api/chat', { message: '  ' });
+
+  assert.equal(status, 400);
+  assert.equal(body.error.message, 'message is required');
+});
@@ -0,0 +1,61 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createFakeYouTubeApp } from '../../fake-youtube/app.js';
+import { loadFixtures, resolveFixtureDir, FixtureSet } from '../../fake-youtube/fixtures.js';
+import { startFakePostgrest, FakePostgrest } from './fake-postgrest.js';
+
+export interface FakeBackends {
+  db: FakePostgrest;
+  fixtures: FixtureSet;
+  close: () => Promise<void>;
+}
+
+/**
+ * Latest youtube_video_stats snapshot per video, like the view of that name
+ */
+const latestStats = (table: (name: string) => any[]) => {
+  const latest = new Map<string, any>();
+  for (const row of table('youtube_video_stats')) {
+    const current = latest.get(row.video_id);
+    if (!current || Date.parse(row.recorded_at) > Date.parse(current.recorded_at)) latest.set(row.video_id, row);
+  }
+  return Array.from(latest.values());
+};
+
+/**
+ * Start the in-memory database and the fake YouTube API (serving a fixture
+ * set) and point the env at them. The services read the env when they are
+ * first imported, so import them dynamically after this.
+ */
+export const startFakeBackends = async (fixtureSet = 'default'): Promise<FakeBackends> => {
+  const db = await startFakePostgrest({ youtube_video_latest_stats: latestStats });
+  const fixtures = loadFixtures(resolveFixtureDir(fixtureSet));
+  const youtube: Server = await new Promise((resolve) => {
+    const server = createFakeYouTubeApp(fixtures).listen(0, '127.0.0.1', () => resolve(server));
+  });
+  const { port } = youtube.address() as AddressInfo;
+
+  Object.assign(process.env, {
+    NODE_ENV: 'test',
+    SUPABASE_URL: db.url,
+    SUPABASE_ANON_KEY: 'test',
+    SUPABASE_SERVICE_ROLE_KEY: 'test',
+    YOUTUBE_API_KEY: 'test',
+    YOUTUBE_API_BASE: `http://127.0.0.1:${port}/youtube/v3`,
+    YOUTUBE_CAPTIONS_BASE: `http://127.0.0.1:${port}/api/timedtext`,
+    YOUTUBE_QUOTA_BUDGET: '10000',
+    LLM_PROVIDER: 'mock',
+    VECTOR_STORE: 'memory',
+    COMMENT_CLASSIFIER: 'lexicon',
+    SCHEDULER_ENABLED: 'false',
+  });
+
+  return {
+    db,
+    fixtures,
+    close: async () => {
+      await new Promise<void>((resolve) => youtube.close(() => resolve()));
+      await db.close();
+    },
+  };
+};
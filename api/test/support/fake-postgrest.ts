@@ -0,0 +1,256 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+
+/**
+ * In-memory stand-in for the PostgREST API behind supabase-js, enough for the
+ * queries the services make: column selection (embedded resources are left
+ * out), eq/neq/gt/gte/lt/lte/in/is/like/ilike filters and their `not.` forms,
+ * order, offset/limit (capped at 1000 rows), exact counts, single-row responses, inserts, upserts
+ * on a conflict column, updates and deletes. Tables spring into existence on
+ * first use; views are computed from the tables on every read.
+ */
+export interface FakePostgrest {
+  // SUPABASE_URL for the services
+  url: string;
+  tables: Map<string, any[]>;
+  table: (name: string) => any[];
+  close: () => Promise<void>;
+}
+
+export type FakeView = (table: (name: string) => any[]) => any[];
+
+// Rows per response, like a Supabase project's default max-rows
+const MAX_ROWS = 1000;
+
+// Query parameters that aren't column filters
+const RESERVED_PARAMS = new Set(['select', 'order', 'limit', 'offset', 'on_conflict', 'columns']);
+
+const compare = (a: any, b: any): number => {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  const [x, y] = [Number(a), Number(b)];
+  if (typeof a !== 'boolean' && !Number.isNaN(x) && !Number.isNaN(y) && String(a).trim() && String(b).trim()) {
+    return x - y;
+  }
+  const [dx, dy] = [Date.parse(String(a)), Date.parse(String(b))];
+  if (!Number.isNaN(dx) && !Number.isNaN(dy)) return dx - dy;
+  return String(a) < String(b) ? -1 : 1;
+};
+
+const listValues = (value: string): string[] =>
+  value
+    .replace(/^\(|\)$/g, '')
+    .split(',')
+    .map((item) => item.trim().replace(/^"(.*)"$/, '$1'));
+
+const likePattern = (pattern: string, flags: string) =>
+  new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/[*%]/g, '.*')}$`, flags);
+
+const matches = (row: any, column: string, expression: string): boolean => {
+  if (expression.startsWith('not.')) return !matches(row, column, expression.slice(4));
+
+  const dot = expression.indexOf('.');
+  const operator = expression.slice(0, dot);
+  const value = expression.slice(dot + 1);
+  const actual = row[column];
+
+  switch (operator) {
+    case 'eq':
+      return actual !== null && actual !== undefined && compare(actual, value) === 0;
+    case 'neq':
+      return actual !== null && actual !== undefined && compare(actual, value) !== 0;
+    case 'gt':
+      return actual != null && compare(actual, value) > 0;
+    case 'gte':
+      return actual != null && compare(actual, value) >= 0;
+    case 'lt':
+      return actual != null && compare(actual, value) < 0;
+    case 'lte':
+      return actual != null && compare(actual, value) <= 0;
+    case 'in':
+      return actual != null && listValues(value).some((item) => compare(actual, item) === 0);
+    case 'is':
+      return value === 'null' ? actual == null : String(actual) === value;
+    case 'like':
+      return actual != null && likePattern(value, '').test(String(actual));
+    case 'ilike':
+      return actual != null && likePattern(value, 'i').test(String(actual));
+    default:
+      throw new Error(`Unsupported filter operator: ${operator}`);
+  }
+};
+
+const applyFilters = (rows: any[], params: URLSearchParams): any[] =>
+  rows.filter((row) =>
+    Array.from(params.entries()).every(
+      ([column, expression]) => RESERVED_PARAMS.has(column) || column.includes('.') || matches(row, column, expression)
+    )
+  );
+
+const applyOrder = (rows: any[], order: string | null): any[] => {
+  if (!order) return rows;
+  const keys = order.split(',').map((part) => {
+    const [column, ...modifiers] = part.split('.');
+    return { column, descending: modifiers.includes('desc') };
+  });
+  return [...rows].sort((a, b) => {
+    for (const { column, descending } of keys) {
+      const result = compare(a[column], b[column]);
+      if (result !== 0) return descending ? -result : result;
+    }
+    return 0;
+  });
+};
+
+/**
+ * Pick the selected top-level columns; embedded resources (`table(...)`) are dropped
+ */
+const applySelect = (rows: any[], select: string | null): any[] => {
+  if (!select || select.trim() === '*') return rows.map((row) => ({ ...row }));
+  const columns: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of select) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      columns.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  columns.push(current.trim());
+
+  const plain = columns.filter((column) => column && !column.includes('('));
+  if (plain.includes('*')) return rows.map((row) => ({ ...row }));
+  return rows.map((row) =>
+    Object.fromEntries(
+      plain.map((column) => {
+        const [alias, name] = column.includes(':') ? column.split(':') : [column, column];
+        return [alias.trim(), row[name.trim()] ?? null];
+      })
+    )
+  );
+};
+
+const readBody = (req: http.IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body ? JSON.parse(body) : null));
+    req.on('error', reject);
+  });
+
+export const startFakePostgrest = async (views: Record<string, FakeView> = {}): Promise<FakePostgrest> => {
+  const tables = new Map<string, any[]>();
+  const table = (name: string): any[] => {
+    if (!tables.has(name)) tables.set(name, []);
+    return tables.get(name)!;
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const send = (status: number, body?: unknown, headers: Record<string, string> = {}) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(body === undefined ? '' : JSON.stringify(body));
+    };
+
+    try {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const name = url.pathname.replace(/^\/rest\/v1\//, '');
+      const params = url.searchParams;
+      const prefer = String(req.headers.prefer || '');
+      const single = String(req.headers.accept || '').includes('application/vnd.pgrst.object+json');
+
+      const respond = (rows: any[], status = 200, total?: number) => {
+        const selected = applySelect(rows, params.get('select'));
+        const range: Record<string, string> =
+          total === undefined ? {} : { 'Content-Range': rows.length > 0 ? `0-${rows.length - 1}/${total}` : `*/${total}` };
+        if (single) {
+          if (selected.length !== 1) {
+            send(406, { code: 'PGRST116', details: `The result contains ${selected.length} rows`, hint: null, message: 'JSON object requested, multiple (or no) rows returned' });
+            return;
+          }
+          send(status, selected[0], range);
+          return;
+        }
+        if (req.method !== 'GET' && req.method !== 'HEAD' && !prefer.includes('return=representation')) {
+          send(status === 200 ? 204 : status, undefined, range);
+          return;
+        }
+        send(status, req.method === 'HEAD' ? undefined : selected, range);
+      };
+
+      if (name.startsWith('rpc/')) {
+        send(404, { code: 'PGRST202', details: null, hint: null, message: `Could not find the function ${name.slice(4)}` });
+        return;
+      }
+
+      if (req.method === 'GET' || req.method === 'HEAD') {
+        const source = views[name] ? views[name](table) : table(name);
+        const filtered = applyOrder(applyFilters(source, params), params.get('order'));
+        const offset = parseInt(params.get('offset') || '0');
+        const limit = Math.min(params.has('limit') ? parseInt(params.get('limit')!) : filtered.length, MAX_ROWS);
+        respond(filtered.slice(offset, offset + limit), 200, prefer.includes('count=') ? filtered.length : undefined);
+        return;
+      }
+
+      const rows = table(name);
+      if (req.method === 'POST') {
+        const body = await readBody(req);
+        const incoming: any[] = Array.isArray(body) ? body : [body];
+        const conflictColumns = (params.get('on_conflict') || 'id').split(',');
+        const written: any[] = [];
+        for (const row of incoming) {
+          const existing = rows.find((stored) => conflictColumns.every((column) => row[column] !== undefined && stored[column] === row[column]));
+          if (existing && prefer.includes('resolution=merge-duplicates')) {
+            Object.assign(existing, row);
+            written.push(existing);
+          } else if (existing && prefer.includes('resolution=ignore-duplicates')) {
+            continue;
+          } else if (existing) {
+            send(409, { code: '23505', details: null, hint: null, message: `duplicate key value violates unique constraint on ${name}` });
+            return;
+          } else {
+            const created = { id: randomUUID(), created_at: new Date().toISOString(), ...row };
+            rows.push(created);
+            written.push(created);
+          }
+        }
+        respond(written, 201);
+        return;
+      }
+
+      if (req.method === 'PATCH') {
+        const changes = await readBody(req);
+        const updated = applyFilters(rows, params);
+        updated.forEach((row) => Object.assign(row, changes));
+        respond(updated);
+        return;
+      }
+
+      if (req.method === 'DELETE') {
+        const deleted = applyFilters(rows, params);
+        tables.set(name, rows.filter((row) => !deleted.includes(row)));
+        respond(deleted);
+        return;
+      }
+
+      send(405, { message: `Unsupported method ${req.method}` });
+    } catch (error: any) {
+      send(400, { code: 'FAKE', details: null, hint: null, message: error.message });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    tables,
+    table,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+};
@@ -0,0 +1,115 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startFakeBackends, FakeBackends } from './support/backends.js';
+
+const CHANNEL_ID = 'UCfakeBrandChannel000001';
+
+let backends: FakeBackends;
+let SyncService: typeof import('../src/services/sync.service.js').SyncService;
+let YouTubeService: typeof import('../src/services/youtube.service.js').YouTubeService;
+
+before(async () => {
+  backends = await startFakeBackends();
+  ({ SyncService } = await import('../src/services/sync.service.js'));
+  ({ YouTubeService } = await import('../src/services/youtube.service.js'));
+});
+
+after(async () => {
+  await backends.close();
+});
+
+// Fixture thumbnails point at a public placeholder host; don't depend on the network
+const syncService = () =>
+  new SyncService(
+    new (class extends YouTubeService {
+      async getThumbnailFingerprint(): Promise<string | null> {
+        return null;
+      }
+    })()
+  );
+
+test('first sync stores every upload with its type and comments', async () => {
+  const result = await syncService().syncChannel(CHANNEL_ID);
+  const uploads = backends.fixtures.videos.filter((video) => video.snippet?.channelId === CHANNEL_ID);
+
+  assert.equal(result.channelName, 'Fake Brand Channel');
+  assert.equal(result.errors, 0);
+  assert.equal(result.videosInserted, uploads.length);
+  assert.equal(result.videosUpdated, 0);
+
+  const videos = new Map(backends.db.table('youtube_videos').map((row) => [row.video_id, row]));
+  assert.equal(videos.size, uploads.length);
+  assert.equal(videos.get('fakeShort001').content_type, 'short');
+  assert.equal(videos.get('fakeLong0001').content_type, 'long');
+  assert.equal(videos.get('fakeLive0001').content_type, 'live');
+  assert.equal(videos.get('fakeShort001').sync_count, 1);
+
+  const commentCount = Object.values(backends.fixtures.commentThreads).reduce((sum, threads) => sum + threads.length, 0);
+  const comments = backends.db.table('youtube_comments');
+  assert.equal(comments.length, commentCount);
+  assert.ok(comments.every((comment) => comment.analyzed_at), 'comments are classified after the sync');
+});
+
+test('a second sync archives the previous numbers and refreshes known videos', async () => {
+  const known = backends.db.table('youtube_videos').length;
+  const result = await syncService().syncChannel(CHANNEL_ID);
+
+  assert.equal(result.errors, 0);
+  assert.equal(result.videosInserted, 0);
+  assert.equal(result.videosUpdated, known);
+  assert.equal(result.statsArchived, known);
+  assert.equal(backends.db.table('youtube_video_stats').length, known);
+  assert.ok(backends.db.table('youtube_videos').every((row) => row.sync_count === 2));
+});
+
+test('quota estimates include comment pages for videos behind on comments', async () => {
+  // channels + uploads page + new upload details + one details batch
+  assert.equal(await syncService().estimateQuotaCost(CHANNEL_ID), 4);
+
+  const video = backends.db.table('youtube_videos').find((row) => row.video_id === 'fakeShort003');
+  video.comment_count = video.comments_fetched_count + 5;
+
+  // plus up to 3 commentThreads pages for that video
+  assert.equal(await syncService().estimateQuotaCost(CHANNEL_ID), 7);
+});
+
+test('comments already stored past the first 1000 rows are refreshed, not inserted again', async () => {
+  const comments = backends.db.table('youtube_comments');
+  const stored = comments.filter((comment) => comment.video_id === 'fakeShort002').length;
+  // Ahead of the fixture comments in storage and by id, so those fall outside the first page
+  for (let i = 0; i < 1000; i++) {
+    comments.unshift({ comment_id: `a-older-${String(i).padStart(4, '0')}`, video_id: 'fakeShort002', text: 'Older comment', analyzed_at: null });
+  }
+  const video = backends.db.table('youtube_videos').find((row) => row.video_id === 'fakeShort002');
+  video.comments_fetched_count = 0;
+
+  await syncService().syncChannel(CHANNEL_ID);
+
+  assert.equal(comments.filter((comment) => comment.video_id === 'fakeShort002').length, stored + 1000);
+  assert.equal(video.comments_fetched_count, video.comment_count);
+});
+
+test('a sync that finds no videos still records when the channel was synced', async () => {
+  const channel = { channel_id: CHANNEL_ID, title: 'Fake Brand Channel', last_synced_at: null };
+  backends.db.table('channels').push(channel);
+
+  // Nothing is published after this, so there is nothing to refresh
+  const result = await syncService().syncChannel(CHANNEL_ID, undefined, { publishedAfter: '2999-01-01T00:00:00Z' });
+
+  assert.equal(result.videosProcessed, 0);
+  assert.ok(channel.last_synced_at, 'last_synced_at is set');
+});
+
+test('jobs left running by an earlier process are marked failed', async () => {
+  const { syncJobService } = await import('../src/services/sync-jobs.service.js');
+  const jobs = backends.db.table('sync_jobs');
+  jobs.push(
+    { id: 'job-running', channel_ids: [CHANNEL_ID], status: 'running', error_message: null, finished_at: null },
+    { id: 'job-done', channel_ids: [CHANNEL_ID], status: 'done', error_message: null, finished_at: '2024-06-01T00:00:00Z' }
+  );
+
+  assert.equal(await syncJobService.failInterruptedJobs(), 1);
+  assert.equal(jobs.find((job) => job.id === 'job-running').status, 'failed');
+  assert.equal(jobs.find((job) => job.id === 'job-done').status, 'done');
+  assert.equal(syncJobService.isActive('job-running'), false);
+});
@@ -5,8 +5,10 @@ import { VideoEmbeddingsEditor } from './components/VideoEmbeddingsEditor';
 import { VideoDetailView } from './components/VideoDetailView';
 import { AnalyticsDashboard } from './components/AnalyticsDashboard';
 import { PromptAssistant } from './components/PromptAssistant';
-import { PendingEmbeddings } from './components/PendingEmbeddings';
+import { PendingEmbeddings, ScriptDraft, ChatMessageLink } from './components/PendingEmbeddings';
 import { Chatbot } from './components/Chatbot';
+import { AudienceVoice } from './components/AudienceVoice';
+import { AutoTagReview } from './components/AutoTagReview';
 
 interface YouTubeVideo {
   id: string;
@@ -23,25 +25,101 @@ interface YouTubeVideo {
   [key: string]: any;
 }
 
+interface Channel {
+  id: string;
+  channel_id: string;
+  title: string | null;
+  label: string | null;
+  is_active: boolean;
+}
+
+interface SyncJob {
+  id: string;
+  status: 'queued' | 'running' | 'done' | 'failed';
+  current_channel_id: string | null;
+  videos_total: number;
+  videos_completed: number;
+  videos_inserted: number;
+  videos_updated: number;
+  stats_archived: number;
+  videos_removed: number;
+  errors: number;
+  error_message: string | null;
+}
+
+const isJobFinished = (job: SyncJob) => job.status === 'done' || job.status === 'failed';
+
+/**
+ * Follow a sync job until it finishes, reporting each update.
+ * Uses the SSE stream and falls back to polling if the stream drops.
+ */
+const watchSyncJob = (jobId: string, onUpdate: (job: SyncJob) => void): Promise<SyncJob> =>
+  new Promise((resolve, reject) => {
+    const poll = async () => {
+      try {
+        const response = await apiClient.get(`/api/sync/jobs/${jobId}`);
+        const job: SyncJob = response.data.data;
+        onUpdate(job);
+        if (isJobFinished(job)) {
+          resolve(job);
+        } else {
+          setTimeout(poll, 2000);
+        }
+      } catch (err) {
+        reject(err);
+      }
+    };
+
+    const source = new EventSource(`${apiClient.defaults.baseURL}/api/sync/jobs/${jobId}/events`);
+    source.onmessage = (event) => {
+      const job: SyncJob = JSON.parse(event.data);
+      onUpdate(job);
+      if (isJobFinished(job)) {
+        source.close();
+        resolve(job);
+      }
+    };
+    source.onerror = () => {
+      source.close();
+      poll();
+    };
+  });
+
 function App() {
   const [data, setData] = useState<YouTubeVideo[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [retrieving, setRetrieving] = useState(false);
   const [retrieveStatus, setRetrieveStatus] = useState<string | null>(null);
+  const [channels, setChannels] = useState<Channel[]>([]);
+  const [retrieveChannelId, setRetrieveChannelId] = useState<string>('all');
+  const [syncJob, setSyncJob] = useState<SyncJob | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<{
     connected: boolean;
     message: string;
   } | null>(null);
   const [selectedVideo, setSelectedVideo] = useState<YouTubeVideo | null>(null);
   const [detailVideo, setDetailVideo] = useState<YouTubeVideo | null>(null);
-  const [activeTab, setActiveTab] = useState<'table' | 'analytics' | 'prompt' | 'pending' | 'chatbot'>('table');
+  const [activeTab, setActiveTab] = useState<'table' | 'analytics' | 'audience' | 'prompt' | 'pending' | 'autotag' | 'chatbot'>('table');
+  // Handed between the chatbot and pending scripts when switching tabs
+  const [scriptDraft, setScriptDraft] = useState<ScriptDraft | null>(null);
+  const [chatLink, setChatLink] = useState<ChatMessageLink | null>(null);
 
   useEffect(() => {
     testConnection();
     fetchVideos();
+    fetchChannels();
   }, []);
 
+  const fetchChannels = async () => {
+    try {
+      const response = await apiClient.get('/api/channels');
+      setChannels(response.data.data || []);
+    } catch (err: any) {
+      console.error('Error fetching channels:', err);
+    }
+  };
+
   const testConnection = async () => {
     try {
       const response = await apiClient.get('/api/test-connection');
@@ -74,14 +152,25 @@ function App() {
 
   const handleRetrieve = async () => {
     setRetrieving(true);
-    setRetrieveStatus('Fetching shorts from YouTube channel...');
+    setRetrieveStatus(null);
     
     try {
-      const response = await apiClient.post('/api/youtube/retrieve');
-      
-      setRetrieveStatus(
-        `✅ Success! ${response.data.videosInserted} new videos inserted, ${response.data.videosUpdated} updated. Total processed: ${response.data.videosProcessed}`
+      const response = await apiClient.post(
+        retrieveChannelId === 'all'
+          ? '/api/youtube/retrieve'
+          : `/api/youtube/retrieve/${retrieveChannelId}`
       );
+      setSyncJob(response.data.data);
+
+      const job = await watchSyncJob(response.data.jobId, setSyncJob);
+
+      if (job.status === 'failed') {
+        setRetrieveStatus(`❌ Error: ${job.error_message || 'Sync failed'}`);
+      } else {
+        setRetrieveStatus(
+          `✅ Success! ${job.videos_inserted} new videos inserted, ${job.videos_updated} updated. Total processed: ${job.videos_total}`
+        );
+      }
       
       // Refresh the video list after retrieval
       await fetchVideos();
@@ -92,6 +181,7 @@ function App() {
       console.error('Error retrieving videos:', err);
     } finally {
       setRetrieving(false);
+      setSyncJob(null);
     }
   };
 
@@ -126,6 +216,29 @@ function App() {
       </header>
 
       <div style={{ marginBottom: '1.5rem', display: 'flex', gap: '0.75rem', flexWrap: 'wrap' }}>
+        <select
+          value={retrieveChannelId}
+          onChange={(e) => setRetrieveChannelId(e.target.value)}
+          disabled={retrieving}
+          style={{
+            padding: '0.6rem 1rem',
+            backgroundColor: '#21262d',
+            color: '#c9d1d9',
+            border: '1px solid #30363d',
+            borderRadius: '6px',
+            cursor: retrieving ? 'not-allowed' : 'pointer',
+            fontSize: '0.9rem',
+          }}
+        >
+          <option value="all">All active channels</option>
+          {channels.map((channel) => (
+            <option key={channel.id} value={channel.channel_id}>
+              {channel.title || channel.channel_id}
+              {channel.label ? ` (${channel.label})` : ''}
+              {!channel.is_active ? ' [paused]' : ''}
+            </option>
+          ))}
+        </select>
         <button
           onClick={handleRetrieve}
           disabled={retrieving}
@@ -154,7 +267,11 @@ function App() {
             }
           }}
         >
-          {retrieving ? 'Retrieving...' : 'Retrieve Shorts'}
+          {retrieving
+            ? syncJob && syncJob.videos_total > 0
+              ? `Retrieving... ${Math.round((syncJob.videos_completed / syncJob.videos_total) * 100)}%`
+              : 'Retrieving...'
+            : 'Retrieve Videos'}
         </button>
         <button
           onClick={fetchVideos}
@@ -199,6 +316,44 @@ function App() {
         </button>
       </div>
 
+      {syncJob && (
+        <div
+          style={{
+            padding: '1rem',
+            backgroundColor: '#161b22',
+            color: '#c9d1d9',
+            borderRadius: '4px',
+            marginBottom: '1rem',
+            border: '1px solid #30363d',
+          }}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.85rem', marginBottom: '0.5rem' }}>
+            <span>
+              {syncJob.status === 'queued'
+                ? 'Sync queued...'
+                : syncJob.videos_total === 0
+                  ? `Fetching videos${syncJob.current_channel_id ? ` from ${syncJob.current_channel_id}` : ''}...`
+                  : `Processing ${syncJob.videos_completed} / ${syncJob.videos_total} videos`}
+            </span>
+            <span style={{ color: '#8b949e' }}>
+              {syncJob.videos_inserted} new · {syncJob.videos_updated} updated · {syncJob.stats_archived} archived
+              {syncJob.videos_removed > 0 && <span style={{ color: '#d29922' }}> · {syncJob.videos_removed} gone</span>}
+              {syncJob.errors > 0 && <span style={{ color: '#ff7b72' }}> · {syncJob.errors} errors</span>}
+            </span>
+          </div>
+          <div style={{ height: '8px', backgroundColor: '#21262d', borderRadius: '4px', overflow: 'hidden' }}>
+            <div
+              style={{
+                height: '100%',
+                width: `${syncJob.videos_total > 0 ? (syncJob.videos_completed / syncJob.videos_total) * 100 : 0}%`,
+                backgroundColor: '#ff6b35',
+                transition: 'width 0.3s',
+              }}
+            />
+          </div>
+        </div>
+      )}
+
       {retrieveStatus && (
         <div
           style={{
@@ -273,6 +428,23 @@ function App() {
         >
           Analytics
         </button>
+        <button
+          onClick={() => setActiveTab('audience')}
+          style={{
+            padding: '0.75rem 1.25rem',
+            backgroundColor: 'transparent',
+            color: activeTab === 'audience' ? '#f0f6fc' : '#8b949e',
+            border: 'none',
+            borderBottom: activeTab === 'audience' ? '2px solid #f78166' : '2px solid transparent',
+            cursor: 'pointer',
+            fontSize: '0.95rem',
+            fontWeight: activeTab === 'audience' ? 600 : 400,
+            transition: 'all 0.2s',
+            marginBottom: '-1px',
+          }}
+        >
+          Audience Voice
+        </button>
         <button
           onClick={() => setActiveTab('prompt')}
           style={{
@@ -307,6 +479,23 @@ function App() {
         >
           Pending Scripts
         </button>
+        <button
+          onClick={() => setActiveTab('autotag')}
+          style={{
+            padding: '0.75rem 1.25rem',
+            backgroundColor: 'transparent',
+            color: activeTab === 'autotag' ? '#f0f6fc' : '#8b949e',
+            border: 'none',
+            borderBottom: activeTab === 'autotag' ? '2px solid #f78166' : '2px solid transparent',
+            cursor: 'pointer',
+            fontSize: '0.95rem',
+            fontWeight: activeTab === 'autotag' ? 600 : 400,
+            transition: 'all 0.2s',
+            marginBottom: '-1px',
+          }}
+        >
+          Auto-Tag
+        </button>
         <button
           onClick={() => setActiveTab('chatbot')}
           style={{
@@ -332,7 +521,7 @@ function App() {
         <>
           {activeTab === 'table' && (
             <div>
-              <h2 style={{ color: '#c9d1d9', marginBottom: '1rem' }}>Shorts ({data.length} videos)</h2>
+              <h2 style={{ color: '#c9d1d9', marginBottom: '1rem' }}>Videos ({data.length})</h2>
               <DataTable
                 data={data}
                 tableName="youtube_videos"
@@ -351,16 +540,39 @@ function App() {
             <AnalyticsDashboard videos={data} />
           )}
 
+          {activeTab === 'audience' && (
+            <AudienceVoice channels={channels} />
+          )}
+
           {activeTab === 'prompt' && (
             <PromptAssistant videos={data} />
           )}
 
           {activeTab === 'pending' && (
-            <PendingEmbeddings />
+            <PendingEmbeddings
+              draft={scriptDraft}
+              onDraftOpened={() => setScriptDraft(null)}
+              onOpenChat={(link) => {
+                setChatLink(link);
+                setActiveTab('chatbot');
+              }}
+            />
+          )}
+
+          {activeTab === 'autotag' && (
+            <AutoTagReview />
           )}
 
           {activeTab === 'chatbot' && (
-            <Chatbot videos={data} />
+            <Chatbot
+              videos={data}
+              onSaveAsScript={(draft) => {
+                setScriptDraft(draft);
+                setActiveTab('pending');
+              }}
+              openSession={chatLink}
+              onSessionOpened={() => setChatLink(null)}
+            />
           )}
         </>
       )}
@@ -388,37 +600,75 @@ function App() {
   );
 }
 
+interface QuotaUsage {
+  date: string;
+  used: number;
+  budget: number;
+  dailyLimit: number;
+  remaining: number;
+}
+
 function HealthCheckBadge() {
-  const [health, setHealth] = useState<{ status: string; timestamp?: string } | null>(null);
+  const [health, setHealth] = useState<{ status: string; timestamp?: string; quota?: QuotaUsage } | null>(null);
 
   useEffect(() => {
-    apiClient
-      .get('/health')
-      .then((response) => setHealth(response.data))
-      .catch((err) => setHealth({ status: 'error', timestamp: err.message }));
+    const check = () =>
+      apiClient
+        .get('/health')
+        .then((response) => setHealth(response.data))
+        .catch((err) => setHealth({ status: 'error', timestamp: err.message }));
+
+    check();
+    // Re-check periodically so the quota badge follows syncs
+    const interval = setInterval(check, 60000);
+    return () => clearInterval(interval);
   }, []);
 
   const isOnline = health?.status === 'ok';
+  const quota = health?.quota;
+  const quotaRatio = quota && quota.budget > 0 ? quota.used / quota.budget : 0;
+  const quotaColor = quotaRatio >= 0.9 ? '#ff7b72' : quotaRatio >= 0.7 ? '#e3b341' : '#7ee787';
 
   return (
-    <div
-      style={{
-        padding: '0.4rem 0.75rem',
-        backgroundColor: isOnline ? '#1a472a33' : '#3d1b1b',
-        color: isOnline ? '#7ee787' : '#ff7b72',
-        borderRadius: '6px',
-        border: `1px solid ${isOnline ? '#238636' : '#6e2121'}`,
-        fontSize: '0.75rem',
-        fontWeight: 600,
-        display: 'flex',
-        alignItems: 'center',
-        gap: '0.4rem'
-      }}
-      title={health?.timestamp ? `Last checked: ${health.timestamp}` : 'Checking API health...'}
-    >
-      <div style={{ width: '8px', height: '8px', borderRadius: '50%', backgroundColor: isOnline ? '#3fb950' : '#f85149' }}></div>
-      API: {isOnline ? 'ONLINE' : (health?.status === 'error' ? 'OFFLINE' : 'CHECKING...')}
-    </div>
+    <>
+      {quota && (
+        <div
+          style={{
+            padding: '0.4rem 0.75rem',
+            backgroundColor: '#161b22',
+            color: quotaColor,
+            borderRadius: '6px',
+            border: '1px solid #30363d',
+            fontSize: '0.75rem',
+            fontWeight: 600,
+            display: 'flex',
+            alignItems: 'center',
+            gap: '0.4rem'
+          }}
+          title={`YouTube quota for ${quota.date} (Pacific): ${quota.used.toLocaleString()} of ${quota.budget.toLocaleString()} budgeted units used (daily limit ${quota.dailyLimit.toLocaleString()})`}
+        >
+          YT QUOTA: {quota.used.toLocaleString()} / {quota.budget.toLocaleString()}
+        </div>
+      )}
+      <div
+        style={{
+          padding: '0.4rem 0.75rem',
+          backgroundColor: isOnline ? '#1a472a33' : '#3d1b1b',
+          color: isOnline ? '#7ee787' : '#ff7b72',
+          borderRadius: '6px',
+          border: `1px solid ${isOnline ? '#238636' : '#6e2121'}`,
+          fontSize: '0.75rem',
+          fontWeight: 600,
+          display: 'flex',
+          alignItems: 'center',
+          gap: '0.4rem'
+        }}
+        title={health?.timestamp ? `Last checked: ${health.timestamp}` : 'Checking API health...'}
+      >
+        <div style={{ width: '8px', height: '8px', borderRadius: '50%', backgroundColor: isOnline ? '#3fb950' : '#f85149' }}></div>
+        API: {isOnline ? 'ONLINE' : (health?.status === 'error' ? 'OFFLINE' : 'CHECKING...')}
+      </div>
+    </>
   );
 }
 
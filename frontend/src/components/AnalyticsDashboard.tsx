@@ -1,10 +1,28 @@
-import React from 'react';
+import React, { useState } from 'react';
 
 interface AnalyticsDashboardProps {
   videos: any[];
 }
 
-export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ videos }) => {
+const CONTENT_TYPE_COLORS: Record<string, string> = {
+  short: '#ff6b35',
+  long: '#58a6ff',
+  live: '#ff7b72',
+  premiere: '#a371f7',
+};
+
+const contentTypeLabel = (type: string) => type.charAt(0).toUpperCase() + type.slice(1);
+
+export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ videos: allVideos }) => {
+  const [contentTypeFilter, setContentTypeFilter] = useState<string>('all');
+
+  // Content types present in the data, in a stable order
+  const contentTypes = Array.from(new Set(allVideos.map((v) => v.content_type).filter(Boolean))).sort() as string[];
+
+  const videos = contentTypeFilter === 'all'
+    ? allVideos
+    : allVideos.filter((v) => v.content_type === contentTypeFilter);
+
   // Calculate total channel views
   const totalViews = videos.reduce((sum, video) => sum + (video.view_count || 0), 0);
   
@@ -42,14 +60,55 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ videos }
     return num.toFixed(2) + '%';
   };
 
+  // Per content type totals for the comparison table (always across all videos)
+  const contentTypeBreakdown = contentTypes.map((type) => {
+    const typeVideos = allVideos.filter((v) => v.content_type === type);
+    const views = typeVideos.reduce((sum, v) => sum + (v.view_count || 0), 0);
+    const withEngagement = typeVideos.filter((v) => v.engagement_rate !== null && v.engagement_rate !== undefined);
+    return {
+      type,
+      count: typeVideos.length,
+      views,
+      avgViews: typeVideos.length > 0 ? views / typeVideos.length : 0,
+      avgEngagement: withEngagement.length > 0
+        ? withEngagement.reduce((sum, v) => sum + (v.engagement_rate || 0), 0) / withEngagement.length
+        : 0,
+    };
+  });
+  const allViews = contentTypeBreakdown.reduce((sum, row) => sum + row.views, 0);
+
   return (
     <div style={{ 
       padding: '1.5rem',
       fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif'
     }}>
-      <h2 style={{ marginBottom: '2rem', fontSize: '1.75rem', fontWeight: 600, color: '#f0f6fc'}}>
-        Channel Analytics
-      </h2>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '2rem', gap: '1rem', flexWrap: 'wrap' }}>
+        <h2 style={{ margin: 0, fontSize: '1.75rem', fontWeight: 600, color: '#f0f6fc'}}>
+          Channel Analytics
+        </h2>
+        {contentTypes.length > 1 && (
+          <select
+            value={contentTypeFilter}
+            onChange={(e) => setContentTypeFilter(e.target.value)}
+            style={{
+              padding: '0.5rem 1rem',
+              backgroundColor: '#21262d',
+              color: '#c9d1d9',
+              border: '1px solid #30363d',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontSize: '0.875rem',
+            }}
+          >
+            <option value="all">All content types</option>
+            {contentTypes.map((type) => (
+              <option key={type} value={type}>
+                {contentTypeLabel(type)}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
 
       {/* Key Metrics Cards */}
       <div
@@ -350,6 +409,66 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ videos }
           </div>
         </div>
       </div>
+
+      {/* Content Type Comparison */}
+      {contentTypeBreakdown.length > 1 && (
+        <div
+          style={{
+            marginTop: '2rem',
+            backgroundColor: '#0d1117',
+            borderRadius: '12px',
+            padding: '2rem',
+            boxShadow: '0 4px 20px rgba(0,0,0,0.2)',
+            border: '1px solid #30363d',
+          }}
+        >
+          <h3 style={{ marginBottom: '1.5rem', fontSize: '1.1rem', fontWeight: 600, color: '#f0f6fc' }}>
+            By Content Type
+          </h3>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem' }}>
+            <thead>
+              <tr style={{ color: '#8b949e', textAlign: 'left', fontSize: '0.7rem', textTransform: 'uppercase', letterSpacing: '0.05em' }}>
+                <th style={{ padding: '0.5rem 0.75rem', borderBottom: '1px solid #30363d' }}>Type</th>
+                <th style={{ padding: '0.5rem 0.75rem', borderBottom: '1px solid #30363d', textAlign: 'right' }}>Videos</th>
+                <th style={{ padding: '0.5rem 0.75rem', borderBottom: '1px solid #30363d', textAlign: 'right' }}>Avg Views</th>
+                <th style={{ padding: '0.5rem 0.75rem', borderBottom: '1px solid #30363d', textAlign: 'right' }}>Avg Engagement</th>
+                <th style={{ padding: '0.5rem 0.75rem', borderBottom: '1px solid #30363d' }}>Share of Views</th>
+              </tr>
+            </thead>
+            <tbody>
+              {contentTypeBreakdown.map((row) => {
+                const share = allViews > 0 ? (row.views / allViews) * 100 : 0;
+                return (
+                  <tr
+                    key={row.type}
+                    onClick={() => setContentTypeFilter(contentTypeFilter === row.type ? 'all' : row.type)}
+                    style={{
+                      cursor: 'pointer',
+                      color: '#c9d1d9',
+                      backgroundColor: contentTypeFilter === row.type ? '#1f6feb22' : 'transparent',
+                    }}
+                  >
+                    <td style={{ padding: '0.6rem 0.75rem', borderBottom: '1px solid #21262d', fontWeight: 600, color: CONTENT_TYPE_COLORS[row.type] || '#c9d1d9' }}>
+                      {contentTypeLabel(row.type)}
+                    </td>
+                    <td style={{ padding: '0.6rem 0.75rem', borderBottom: '1px solid #21262d', textAlign: 'right' }}>{row.count}</td>
+                    <td style={{ padding: '0.6rem 0.75rem', borderBottom: '1px solid #21262d', textAlign: 'right' }}>{formatNumber(row.avgViews)}</td>
+                    <td style={{ padding: '0.6rem 0.75rem', borderBottom: '1px solid #21262d', textAlign: 'right' }}>{formatPercentage(row.avgEngagement)}</td>
+                    <td style={{ padding: '0.6rem 0.75rem', borderBottom: '1px solid #21262d', width: '30%' }}>
+                      <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                        <div style={{ flex: 1, height: '6px', backgroundColor: '#21262d', borderRadius: '3px', overflow: 'hidden' }}>
+                          <div style={{ width: `${share}%`, height: '100%', backgroundColor: CONTENT_TYPE_COLORS[row.type] || '#8b949e' }} />
+                        </div>
+                        <span style={{ color: '#8b949e', fontSize: '0.75rem', minWidth: '3rem', textAlign: 'right' }}>{share.toFixed(1)}%</span>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,159 @@
+import React, { useState, useEffect } from 'react';
+import { apiClient } from '../config/api';
+import { CommentInsights, CommentInsightsData } from './CommentInsights';
+
+interface AudienceVoiceProps {
+  channels: { id: string; channel_id: string; title: string | null; label: string | null }[];
+}
+
+export const AudienceVoice: React.FC<AudienceVoiceProps> = ({ channels }) => {
+  const [channelId, setChannelId] = useState<string>('all');
+  const [insights, setInsights] = useState<CommentInsightsData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchInsights();
+  }, [channelId]);
+
+  const fetchInsights = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await apiClient.get('/api/youtube/audience-voice', {
+        params: { channel_id: channelId === 'all' ? undefined : channelId },
+      });
+      if (response.data.success) {
+        setInsights(response.data.data);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to fetch audience insights');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAnalyze = async () => {
+    try {
+      setAnalyzing(true);
+      setError(null);
+      await apiClient.post('/api/youtube/comments/analyze', {});
+      await fetchInsights();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to analyze comments');
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  const pending = insights ? insights.total - insights.analyzed : 0;
+
+  return (
+    <div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginBottom: '1rem', flexWrap: 'wrap' }}>
+        <h2 style={{ color: '#c9d1d9', margin: 0, flex: 1 }}>Audience Voice</h2>
+        <select
+          value={channelId}
+          onChange={(e) => setChannelId(e.target.value)}
+          style={{
+            padding: '0.5rem 0.75rem',
+            backgroundColor: '#0d1117',
+            color: '#c9d1d9',
+            border: '1px solid #30363d',
+            borderRadius: '6px',
+            fontSize: '0.9rem',
+            cursor: 'pointer',
+          }}
+        >
+          <option value="all">All channels</option>
+          {channels.map((channel) => (
+            <option key={channel.id} value={channel.channel_id}>
+              {channel.title || channel.channel_id}
+              {channel.label ? ` (${channel.label})` : ''}
+            </option>
+          ))}
+        </select>
+        {pending > 0 && (
+          <button
+            onClick={handleAnalyze}
+            disabled={analyzing}
+            style={{
+              padding: '0.5rem 1rem',
+              backgroundColor: '#238636',
+              color: '#ffffff',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: analyzing ? 'wait' : 'pointer',
+              fontSize: '0.9rem',
+              fontWeight: 600,
+              opacity: analyzing ? 0.6 : 1,
+            }}
+          >
+            {analyzing ? 'Analyzing...' : `Analyze ${pending.toLocaleString()} pending`}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div style={{ padding: '0.75rem 1rem', backgroundColor: '#3d1214', color: '#ff7b72', borderRadius: '6px', marginBottom: '1rem', fontSize: '0.85rem' }}>
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div style={{ textAlign: 'center', padding: '2rem', color: '#8b949e' }}>Loading audience insights...</div>
+      ) : !insights || insights.total === 0 ? (
+        <div style={{ textAlign: 'center', padding: '2rem', color: '#484f58', fontSize: '0.9rem' }}>
+          No comments stored yet. Comments are pulled in during sync.
+        </div>
+      ) : (
+        <>
+          <CommentInsights insights={insights} />
+
+          {insights.videos && insights.videos.length > 0 && (
+            <div style={{ backgroundColor: '#161b22', border: '1px solid #30363d', borderRadius: '8px', overflow: 'hidden' }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.85rem' }}>
+                <thead>
+                  <tr style={{ backgroundColor: '#21262d' }}>
+                    {['Video', 'Analyzed', 'Avg sentiment', 'Negative', 'Questions', 'Objections'].map((heading) => (
+                      <th
+                        key={heading}
+                        style={{ padding: '0.6rem 0.75rem', textAlign: heading === 'Video' ? 'left' : 'right', color: '#8b949e', fontWeight: 600 }}
+                      >
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {insights.videos.map((video) => (
+                    <tr key={video.video_id} style={{ borderTop: '1px solid #21262d' }}>
+                      <td style={{ padding: '0.6rem 0.75rem', color: '#c9d1d9', maxWidth: '360px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        {video.title || video.video_id}
+                      </td>
+                      <td style={{ padding: '0.6rem 0.75rem', textAlign: 'right', color: '#c9d1d9' }}>{video.comments.toLocaleString()}</td>
+                      <td
+                        style={{
+                          padding: '0.6rem 0.75rem',
+                          textAlign: 'right',
+                          color: video.average_score > 0.2 ? '#3fb950' : video.average_score < -0.2 ? '#f85149' : '#c9d1d9',
+                        }}
+                      >
+                        {video.average_score >= 0 ? '+' : ''}
+                        {video.average_score.toFixed(2)}
+                      </td>
+                      <td style={{ padding: '0.6rem 0.75rem', textAlign: 'right', color: '#c9d1d9' }}>{Math.round(video.negative_share * 100)}%</td>
+                      <td style={{ padding: '0.6rem 0.75rem', textAlign: 'right', color: '#c9d1d9' }}>{video.questions}</td>
+                      <td style={{ padding: '0.6rem 0.75rem', textAlign: 'right', color: '#c9d1d9' }}>{video.objections}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,340 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { apiClient } from '../config/api';
+
+const TAG_FIELDS = [
+  { key: 'topic', label: 'Topic' },
+  { key: 'format', label: 'Format' },
+  { key: 'poc', label: 'POC' },
+  { key: 'hook', label: 'Hook' },
+  { key: 'style', label: 'Style' },
+  { key: 'gimmick', label: 'Gimmick' },
+  { key: 'end_cta', label: 'End CTA' },
+] as const;
+
+type TagField = typeof TAG_FIELDS[number]['key'];
+
+type TagValues = Record<TagField, string | null>;
+
+interface TagSuggestion {
+  id: string;
+  video_id: string;
+  suggestions: TagValues;
+  created_at: string;
+  video: { video_id: string; title: string | null; thumbnail_url: string | null } | null;
+  current: Partial<TagValues> | null;
+}
+
+interface AutoTagJob {
+  id: string;
+  status: 'running' | 'done' | 'failed';
+  total: number;
+  completed: number;
+  failed: number;
+  error_message: string | null;
+}
+
+// Per-field review state: the (possibly edited) value and whether to write it
+type FieldDraft = Record<TagField, { value: string; accepted: boolean }>;
+
+const JOB_POLL_INTERVAL_MS = 2000;
+
+const draftFor = (suggestion: TagSuggestion): FieldDraft =>
+  Object.fromEntries(
+    TAG_FIELDS.map(({ key }) => {
+      const value = suggestion.suggestions[key] || '';
+      // Existing values are kept unless the reviewer opts in
+      return [key, { value, accepted: !!value && !suggestion.current?.[key] }];
+    })
+  ) as FieldDraft;
+
+const SuggestionCard: React.FC<{
+  suggestion: TagSuggestion;
+  onReviewed: (id: string) => void;
+}> = ({ suggestion, onReviewed }) => {
+  const [draft, setDraft] = useState<FieldDraft>(() => draftFor(suggestion));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateField = (key: TagField, patch: Partial<FieldDraft[TagField]>) => {
+    setDraft((prev) => ({ ...prev, [key]: { ...prev[key], ...patch } }));
+  };
+
+  const acceptedCount = TAG_FIELDS.filter(({ key }) => draft[key].accepted).length;
+
+  const handleApply = async () => {
+    const fields = Object.fromEntries(
+      TAG_FIELDS.filter(({ key }) => draft[key].accepted).map(({ key }) => [key, draft[key].value || null])
+    );
+
+    try {
+      setSaving(true);
+      setError(null);
+      await apiClient.post(`/api/youtube/auto-tag/suggestions/${suggestion.id}/apply`, { fields });
+      onReviewed(suggestion.id);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to apply suggestion');
+      setSaving(false);
+    }
+  };
+
+  const handleReject = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await apiClient.post(`/api/youtube/auto-tag/suggestions/${suggestion.id}/reject`);
+      onReviewed(suggestion.id);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to reject suggestion');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        backgroundColor: '#161b22',
+        border: '1px solid #30363d',
+        borderRadius: '8px',
+        marginBottom: '1rem',
+        overflow: 'hidden',
+      }}
+    >
+      <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', padding: '0.875rem 1rem', borderBottom: '1px solid #30363d' }}>
+        {suggestion.video?.thumbnail_url && (
+          <img src={suggestion.video.thumbnail_url} alt="" style={{ width: '64px', height: '36px', objectFit: 'cover', borderRadius: '4px' }} />
+        )}
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <div style={{ color: '#c9d1d9', fontWeight: 600, fontSize: '0.9rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {suggestion.video?.title || suggestion.video_id}
+          </div>
+          <div style={{ color: '#8b949e', fontSize: '0.75rem' }}>
+            Suggested {new Date(suggestion.created_at).toLocaleString()}
+          </div>
+        </div>
+        <button
+          onClick={handleReject}
+          disabled={saving}
+          style={{
+            padding: '0.45rem 0.9rem',
+            backgroundColor: 'transparent',
+            color: '#f85149',
+            border: '1px solid #30363d',
+            borderRadius: '6px',
+            cursor: saving ? 'not-allowed' : 'pointer',
+            fontSize: '0.85rem',
+            fontWeight: 600,
+          }}
+        >
+          Reject all
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={saving || acceptedCount === 0}
+          style={{
+            padding: '0.45rem 0.9rem',
+            backgroundColor: saving || acceptedCount === 0 ? '#21262d' : '#238636',
+            color: saving || acceptedCount === 0 ? '#484f58' : 'white',
+            border: 'none',
+            borderRadius: '6px',
+            cursor: saving || acceptedCount === 0 ? 'not-allowed' : 'pointer',
+            fontSize: '0.85rem',
+            fontWeight: 600,
+          }}
+        >
+          {saving ? 'Saving...' : `Apply ${acceptedCount} field${acceptedCount === 1 ? '' : 's'}`}
+        </button>
+      </div>
+
+      {error && (
+        <div style={{ padding: '0.6rem 1rem', color: '#ff7b72', fontSize: '0.85rem', borderBottom: '1px solid #30363d' }}>
+          {error}
+        </div>
+      )}
+
+      <div style={{ padding: '0.75rem 1rem', display: 'flex', flexDirection: 'column', gap: '0.6rem' }}>
+        {TAG_FIELDS.map(({ key, label }) => (
+          <div key={key} style={{ display: 'flex', gap: '0.75rem', alignItems: 'flex-start' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', width: '110px', flexShrink: 0, paddingTop: '0.4rem', color: '#c9d1d9', fontSize: '0.85rem', fontWeight: 600, cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={draft[key].accepted}
+                onChange={(e) => updateField(key, { accepted: e.target.checked })}
+              />
+              {label}
+            </label>
+            <div style={{ flex: 1 }}>
+              <textarea
+                value={draft[key].value}
+                onChange={(e) => updateField(key, { value: e.target.value, accepted: true })}
+                placeholder="No suggestion"
+                rows={2}
+                style={{
+                  width: '100%',
+                  padding: '0.45rem 0.6rem',
+                  backgroundColor: '#0d1117',
+                  color: draft[key].accepted ? '#c9d1d9' : '#8b949e',
+                  border: `1px solid ${draft[key].accepted ? '#1f6feb' : '#30363d'}`,
+                  borderRadius: '6px',
+                  fontSize: '0.85rem',
+                  fontFamily: 'inherit',
+                  resize: 'vertical',
+                }}
+              />
+              {suggestion.current?.[key] && (
+                <div style={{ color: '#8b949e', fontSize: '0.75rem', marginTop: '0.2rem' }}>
+                  Current: {suggestion.current[key]}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export const AutoTagReview: React.FC = () => {
+  const [suggestions, setSuggestions] = useState<TagSuggestion[]>([]);
+  const [job, setJob] = useState<AutoTagJob | null>(null);
+  const [limit, setLimit] = useState(50);
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  useEffect(() => {
+    fetchSuggestions();
+    fetchJob();
+    return () => stopPolling();
+  }, []);
+
+  const stopPolling = () => {
+    if (pollRef.current) {
+      clearInterval(pollRef.current);
+      pollRef.current = null;
+    }
+  };
+
+  const fetchSuggestions = async () => {
+    try {
+      setError(null);
+      const response = await apiClient.get('/api/youtube/auto-tag/suggestions');
+      setSuggestions(response.data.data || []);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to fetch suggestions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchJob = async () => {
+    try {
+      const response = await apiClient.get('/api/youtube/auto-tag/job');
+      const current: AutoTagJob | null = response.data.data;
+      setJob(current);
+      if (current?.status === 'running') {
+        if (!pollRef.current) {
+          pollRef.current = setInterval(fetchJob, JOB_POLL_INTERVAL_MS);
+        }
+        fetchSuggestions();
+      } else {
+        if (pollRef.current) {
+          // The job just finished; pick up its last suggestions
+          fetchSuggestions();
+        }
+        stopPolling();
+      }
+    } catch (err: any) {
+      console.error('Error fetching auto-tag job:', err);
+      stopPolling();
+    }
+  };
+
+  const handleStart = async () => {
+    try {
+      setStarting(true);
+      setError(null);
+      const response = await apiClient.post('/api/youtube/auto-tag', { limit });
+      setJob(response.data.data);
+      if (response.data.data?.total === 0) {
+        setError('Every video already has tags or a pending suggestion.');
+      }
+      fetchJob();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to start auto-tagging');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const running = job?.status === 'running';
+
+  return (
+    <div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginBottom: '1rem', flexWrap: 'wrap' }}>
+        <h2 style={{ color: '#c9d1d9', margin: 0, flex: 1 }}>Auto-Tag Review ({suggestions.length})</h2>
+        <label style={{ color: '#8b949e', fontSize: '0.85rem', display: 'flex', alignItems: 'center', gap: '0.4rem' }}>
+          Up to
+          <input
+            type="number"
+            min={1}
+            max={200}
+            value={limit}
+            onChange={(e) => setLimit(Math.max(1, Math.min(200, parseInt(e.target.value) || 1)))}
+            style={{ width: '70px', padding: '0.4rem 0.5rem', backgroundColor: '#0d1117', color: '#c9d1d9', border: '1px solid #30363d', borderRadius: '6px' }}
+          />
+          videos
+        </label>
+        <button
+          onClick={handleStart}
+          disabled={starting || running}
+          style={{
+            padding: '0.5rem 1rem',
+            backgroundColor: starting || running ? '#21262d' : '#1f6feb',
+            color: starting || running ? '#484f58' : 'white',
+            border: 'none',
+            borderRadius: '6px',
+            cursor: starting || running ? 'not-allowed' : 'pointer',
+            fontSize: '0.9rem',
+            fontWeight: 600,
+          }}
+        >
+          {running ? 'Tagging...' : 'Auto-tag untagged videos'}
+        </button>
+      </div>
+
+      {job && job.total > 0 && (
+        <div style={{ marginBottom: '1rem', color: '#8b949e', fontSize: '0.85rem' }}>
+          {running ? 'Tagging' : job.status === 'failed' ? 'Failed after' : 'Tagged'} {job.completed} of {job.total} videos
+          {job.failed > 0 && <span style={{ color: '#f85149' }}> · {job.failed} failed</span>}
+          {job.error_message && <span style={{ color: '#f85149' }}> · {job.error_message}</span>}
+          <div style={{ height: '4px', backgroundColor: '#21262d', borderRadius: '2px', marginTop: '0.4rem', overflow: 'hidden' }}>
+            <div style={{ width: `${(job.completed / job.total) * 100}%`, height: '100%', backgroundColor: '#1f6feb', transition: 'width 0.3s' }} />
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div style={{ padding: '0.75rem 1rem', backgroundColor: '#3d1214', color: '#ff7b72', borderRadius: '6px', marginBottom: '1rem', fontSize: '0.85rem' }}>
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div style={{ textAlign: 'center', padding: '2rem', color: '#8b949e' }}>Loading suggestions...</div>
+      ) : suggestions.length === 0 ? (
+        <div style={{ textAlign: 'center', padding: '2rem', color: '#484f58', fontSize: '0.9rem' }}>
+          No suggestions waiting for review.
+        </div>
+      ) : (
+        suggestions.map((suggestion) => (
+          <SuggestionCard
+            key={suggestion.id}
+            suggestion={suggestion}
+            onReviewed={(id) => setSuggestions((prev) => prev.filter((s) => s.id !== id))}
+          />
+        ))
+      )}
+    </div>
+  );
+};
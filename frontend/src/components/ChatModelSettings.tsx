@@ -0,0 +1,138 @@
+import React from 'react';
+
+export interface ChatProviderInfo {
+  name: string;
+  configured: boolean;
+  default_model: string;
+}
+
+export interface ChatProvidersData {
+  default_provider: string;
+  temperature: number;
+  max_tokens: number;
+  providers: ChatProviderInfo[];
+}
+
+// Empty values fall back to the server's defaults
+export interface ModelSettingsValue {
+  provider: string;
+  model: string;
+  temperature: string;
+  maxTokens: string;
+}
+
+export const EMPTY_MODEL_SETTINGS: ModelSettingsValue = { provider: '', model: '', temperature: '', maxTokens: '' };
+
+interface ChatModelSettingsProps {
+  providers: ChatProvidersData | null;
+  value: ModelSettingsValue;
+  onChange: (value: ModelSettingsValue) => void;
+}
+
+const PROVIDER_LABELS: Record<string, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  ollama: 'Ollama (local)',
+  mock: 'Mock (echo)',
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.4rem 0.6rem',
+  backgroundColor: '#0d1117',
+  color: '#c9d1d9',
+  border: '1px solid #30363d',
+  borderRadius: '6px',
+  fontSize: '0.8rem',
+};
+
+const labelStyle: React.CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '0.3rem',
+  color: '#8b949e',
+  fontSize: '0.75rem',
+  fontWeight: 600,
+};
+
+/**
+ * Provider, model, temperature and reply length used by the chatbot
+ */
+export const ChatModelSettings: React.FC<ChatModelSettingsProps> = ({ providers, value, onChange }) => {
+  const providerName = value.provider || providers?.default_provider || '';
+  const provider = providers?.providers.find((p) => p.name === providerName);
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        gap: '1rem',
+        flexWrap: 'wrap',
+        alignItems: 'flex-end',
+        marginBottom: '1rem',
+        padding: '0.875rem 1rem',
+        border: '1px solid #30363d',
+        borderRadius: '8px',
+        backgroundColor: '#161b22',
+      }}
+    >
+      <label style={labelStyle}>
+        Provider
+        <select
+          value={value.provider}
+          onChange={(e) => onChange({ ...value, provider: e.target.value, model: '' })}
+          style={{ ...inputStyle, cursor: 'pointer' }}
+        >
+          <option value="">
+            Default{providers ? ` (${PROVIDER_LABELS[providers.default_provider] || providers.default_provider})` : ''}
+          </option>
+          {(providers?.providers || []).map((p) => (
+            <option key={p.name} value={p.name}>
+              {PROVIDER_LABELS[p.name] || p.name}
+              {p.configured ? '' : ' (not configured)'}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={labelStyle}>
+        Model
+        <input
+          value={value.model}
+          onChange={(e) => onChange({ ...value, model: e.target.value })}
+          placeholder={provider?.default_model || 'default'}
+          style={{ ...inputStyle, width: '200px' }}
+        />
+      </label>
+      <label style={labelStyle}>
+        Temperature
+        <input
+          type="number"
+          min={0}
+          max={2}
+          step={0.1}
+          value={value.temperature}
+          onChange={(e) => onChange({ ...value, temperature: e.target.value })}
+          placeholder={providers ? String(providers.temperature) : ''}
+          style={{ ...inputStyle, width: '90px' }}
+        />
+      </label>
+      <label style={labelStyle}>
+        Max reply tokens
+        <input
+          type="number"
+          min={1}
+          max={8192}
+          step={256}
+          value={value.maxTokens}
+          onChange={(e) => onChange({ ...value, maxTokens: e.target.value })}
+          placeholder={providers ? String(providers.max_tokens) : ''}
+          style={{ ...inputStyle, width: '110px' }}
+        />
+      </label>
+      {provider && !provider.configured && (
+        <span style={{ color: '#d29922', fontSize: '0.75rem', paddingBottom: '0.45rem' }}>
+          This provider has no API key configured on the server.
+        </span>
+      )}
+    </div>
+  );
+};
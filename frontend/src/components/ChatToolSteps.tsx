@@ -0,0 +1,86 @@
+import React from 'react';
+
+/**
+ * A database query the chatbot ran while answering
+ */
+export interface ToolStep {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+  // Both null while the query is running
+  result: any;
+  error: string | null;
+}
+
+interface ChatToolStepsProps {
+  steps: ToolStep[];
+}
+
+const TOOL_LABELS: Record<string, string> = {
+  query_videos: 'Queried videos',
+  aggregate_video_stats: 'Aggregated stats',
+  lookup_embeddings: 'Looked up creative attributes',
+  search_comments: 'Searched comments',
+};
+
+const preStyle: React.CSSProperties = {
+  margin: '0.35rem 0 0',
+  padding: '0.5rem 0.625rem',
+  backgroundColor: '#0d1117',
+  border: '1px solid #30363d',
+  borderRadius: '4px',
+  color: '#c9d1d9',
+  fontSize: '0.7rem',
+  maxHeight: '240px',
+  overflow: 'auto',
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-word',
+};
+
+// "3 videos", "5 groups"... from the list a result carries, if any
+const describeResult = (step: ToolStep): string => {
+  if (step.error) return 'failed';
+  if (step.result === null) return 'running...';
+  const list = ['videos', 'groups', 'comments']
+    .map((key) => [key, step.result[key]] as const)
+    .find(([, value]) => Array.isArray(value));
+  return list ? `${list[1].length} ${list[0]}` : 'done';
+};
+
+const describeArguments = (args: Record<string, any>) =>
+  Object.entries(args)
+    .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(', ') : String(value)}`)
+    .join(' · ');
+
+/**
+ * The tool calls behind a chatbot reply, one collapsible step each, with
+ * the arguments the model chose and what the query returned
+ */
+export const ChatToolSteps: React.FC<ChatToolStepsProps> = ({ steps }) => (
+  <div style={{ marginBottom: '0.625rem', display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
+    {steps.map((step) => (
+      <details
+        key={step.id}
+        style={{ border: '1px solid #30363d', borderRadius: '6px', padding: '0.35rem 0.625rem', backgroundColor: '#161b22' }}
+      >
+        <summary style={{ cursor: 'pointer', fontSize: '0.75rem', color: '#8b949e', display: 'flex', gap: '0.5rem', alignItems: 'baseline' }}>
+          <span style={{ color: step.error ? '#f85149' : '#58a6ff', fontWeight: 600 }}>{TOOL_LABELS[step.name] || step.name}</span>
+          <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {describeArguments(step.arguments)}
+          </span>
+          <span style={{ flexShrink: 0 }}>{describeResult(step)}</span>
+        </summary>
+        <div style={{ fontSize: '0.7rem', color: '#8b949e', marginTop: '0.5rem' }}>Arguments</div>
+        <pre style={preStyle}>{JSON.stringify(step.arguments, null, 2)}</pre>
+        {(step.error || step.result !== null) && (
+          <>
+            <div style={{ fontSize: '0.7rem', color: '#8b949e', marginTop: '0.5rem' }}>{step.error ? 'Error' : 'Result'}</div>
+            <pre style={{ ...preStyle, color: step.error ? '#f85149' : preStyle.color }}>
+              {step.error || JSON.stringify(step.result, null, 2)}
+            </pre>
+          </>
+        )}
+      </details>
+    ))}
+  </div>
+);
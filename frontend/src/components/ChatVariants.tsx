@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+
+/**
+ * One of a set of structured hook/script variants from the chatbot
+ */
+export interface ScriptVariant {
+  hook: string;
+  outline: string[];
+  cta: string;
+  angle: string;
+  rationale: string;
+  // Past videos it borrows from; video_id is null when the title didn't match a context video
+  borrowed_from: { title: string; video_id: string | null; pattern: string }[];
+  starred?: boolean;
+}
+
+interface ChatVariantsProps {
+  variants: ScriptVariant[];
+  onChange: (variants: ScriptVariant[]) => void;
+  onRegenerate: (index: number) => void;
+  // Index of the variant being regenerated, if any
+  regenerating: number | null;
+  onSendToPending?: (variant: ScriptVariant) => void;
+  disabled?: boolean;
+}
+
+/**
+ * The variants as markdown, for the conversation history the model sees
+ */
+export const variantsToMarkdown = (variants: ScriptVariant[]): string =>
+  variants
+    .map((variant, index) =>
+      [
+        `**Variant ${index + 1}${variant.starred ? ' (starred)' : ''}**`,
+        `Hook: ${variant.hook}`,
+        `Angle: ${variant.angle}`,
+        'Outline:',
+        ...variant.outline.map((beat, i) => `${i + 1}. ${beat}`),
+        `CTA: ${variant.cta}`,
+        `Rationale: ${variant.rationale}`,
+      ].join('\n')
+    )
+    .join('\n\n');
+
+const labelStyle: React.CSSProperties = {
+  fontSize: '0.7rem',
+  color: '#8b949e',
+  fontWeight: 600,
+  textTransform: 'uppercase',
+  letterSpacing: '0.5px',
+  marginTop: '0.625rem',
+  marginBottom: '0.2rem',
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '0.4rem 0.6rem',
+  backgroundColor: '#0d1117',
+  color: '#c9d1d9',
+  border: '1px solid #30363d',
+  borderRadius: '6px',
+  fontSize: '0.8rem',
+  fontFamily: 'inherit',
+  resize: 'vertical',
+  boxSizing: 'border-box',
+};
+
+const actionStyle = (disabled: boolean): React.CSSProperties => ({
+  padding: '0.25rem 0.6rem',
+  backgroundColor: 'transparent',
+  color: disabled ? '#484f58' : '#58a6ff',
+  border: '1px solid #30363d',
+  borderRadius: '6px',
+  cursor: disabled ? 'not-allowed' : 'pointer',
+  fontSize: '0.75rem',
+});
+
+interface VariantDraft {
+  hook: string;
+  // One beat per line
+  outline: string;
+  cta: string;
+  angle: string;
+}
+
+/**
+ * A set of variants as cards, each with its hook, angle, outline, CTA and
+ * the past videos it borrows from. Variants can be starred, edited in place,
+ * regenerated one at a time or sent to pending scripts.
+ */
+export const ChatVariants: React.FC<ChatVariantsProps> = ({
+  variants,
+  onChange,
+  onRegenerate,
+  regenerating,
+  onSendToPending,
+  disabled = false,
+}) => {
+  const [editing, setEditing] = useState<number | null>(null);
+  const [draft, setDraft] = useState<VariantDraft | null>(null);
+
+  const update = (index: number, changes: Partial<ScriptVariant>) =>
+    onChange(variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+
+  const startEditing = (index: number) => {
+    const variant = variants[index];
+    setEditing(index);
+    setDraft({ hook: variant.hook, outline: variant.outline.join('\n'), cta: variant.cta, angle: variant.angle });
+  };
+
+  const saveEdit = () => {
+    if (editing === null || !draft) return;
+    update(editing, {
+      hook: draft.hook.trim(),
+      outline: draft.outline.split('\n').map((beat) => beat.trim()).filter(Boolean),
+      cta: draft.cta.trim(),
+      angle: draft.angle.trim(),
+    });
+    setEditing(null);
+    setDraft(null);
+  };
+
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(260px, 1fr))', gap: '0.75rem' }}>
+      {variants.map((variant, index) => {
+        const isEditing = editing === index && draft;
+        const busy = disabled || regenerating !== null;
+        return (
+          <div
+            key={index}
+            style={{
+              backgroundColor: '#161b22',
+              border: `1px solid ${variant.starred ? '#d29922' : '#30363d'}`,
+              borderRadius: '8px',
+              padding: '0.75rem 0.875rem',
+              display: 'flex',
+              flexDirection: 'column',
+              fontSize: '0.85rem',
+              opacity: regenerating === index ? 0.5 : 1,
+            }}
+          >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <span style={{ fontSize: '0.75rem', color: '#8b949e', fontWeight: 700 }}>Variant {index + 1}</span>
+              <button
+                onClick={() => update(index, { starred: !variant.starred })}
+                title={variant.starred ? 'Unstar' : 'Star'}
+                style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '1rem', color: variant.starred ? '#d29922' : '#8b949e', padding: 0 }}
+              >
+                {variant.starred ? '★' : '☆'}
+              </button>
+            </div>
+
+            {isEditing ? (
+              <>
+                <div style={labelStyle}>Hook</div>
+                <textarea value={draft.hook} onChange={(e) => setDraft({ ...draft, hook: e.target.value })} rows={2} style={inputStyle} />
+                <div style={labelStyle}>Angle</div>
+                <textarea value={draft.angle} onChange={(e) => setDraft({ ...draft, angle: e.target.value })} rows={2} style={inputStyle} />
+                <div style={labelStyle}>Outline (one beat per line)</div>
+                <textarea value={draft.outline} onChange={(e) => setDraft({ ...draft, outline: e.target.value })} rows={5} style={inputStyle} />
+                <div style={labelStyle}>CTA</div>
+                <textarea value={draft.cta} onChange={(e) => setDraft({ ...draft, cta: e.target.value })} rows={2} style={inputStyle} />
+              </>
+            ) : (
+              <>
+                <div style={{ fontWeight: 600, color: '#f0f6fc', marginTop: '0.375rem' }}>{variant.hook}</div>
+                <div style={labelStyle}>Angle</div>
+                <div style={{ color: '#c9d1d9' }}>{variant.angle}</div>
+                <div style={labelStyle}>Outline</div>
+                <ol style={{ margin: 0, paddingLeft: '1.25rem', color: '#c9d1d9' }}>
+                  {variant.outline.map((beat, i) => (
+                    <li key={i} style={{ marginBottom: '0.2rem' }}>{beat}</li>
+                  ))}
+                </ol>
+                <div style={labelStyle}>CTA</div>
+                <div style={{ color: '#c9d1d9' }}>{variant.cta}</div>
+                <details style={{ marginTop: '0.625rem' }}>
+                  <summary style={{ cursor: 'pointer', fontSize: '0.75rem', color: '#8b949e' }}>
+                    Why this works{variant.borrowed_from.length > 0 && ` · borrows from ${variant.borrowed_from.length} video${variant.borrowed_from.length === 1 ? '' : 's'}`}
+                  </summary>
+                  <div style={{ color: '#c9d1d9', fontSize: '0.8rem', marginTop: '0.375rem' }}>{variant.rationale}</div>
+                  {variant.borrowed_from.map((source, i) => (
+                    <div key={i} style={{ fontSize: '0.75rem', color: '#8b949e', marginTop: '0.25rem' }}>
+                      {source.video_id ? (
+                        <a
+                          href={`https://www.youtube.com/shorts/${source.video_id}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          style={{ color: '#58a6ff', textDecoration: 'none' }}
+                        >
+                          {source.title}
+                        </a>
+                      ) : (
+                        <span style={{ color: '#c9d1d9' }}>{source.title}</span>
+                      )}
+                      : {source.pattern}
+                    </div>
+                  ))}
+                </details>
+              </>
+            )}
+
+            <div style={{ display: 'flex', gap: '0.375rem', flexWrap: 'wrap', marginTop: 'auto', paddingTop: '0.75rem' }}>
+              {isEditing ? (
+                <>
+                  <button onClick={saveEdit} style={actionStyle(false)}>Save</button>
+                  <button
+                    onClick={() => {
+                      setEditing(null);
+                      setDraft(null);
+                    }}
+                    style={{ ...actionStyle(false), color: '#8b949e' }}
+                  >
+                    Cancel
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button onClick={() => startEditing(index)} disabled={busy} style={actionStyle(busy)}>Edit</button>
+                  <button onClick={() => onRegenerate(index)} disabled={busy} style={actionStyle(busy)}>
+                    {regenerating === index ? 'Regenerating...' : 'Regenerate'}
+                  </button>
+                  {onSendToPending && (
+                    <button onClick={() => onSendToPending(variant)} disabled={busy} style={actionStyle(busy)}>
+                      Send to pending scripts
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
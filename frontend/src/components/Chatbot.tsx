@@ -2,43 +2,171 @@ import React, { useState, useEffect, useRef } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { apiClient } from '../config/api';
+import { ChatToolSteps, ToolStep } from './ChatToolSteps';
+import { ChatModelSettings, ChatProvidersData, EMPTY_MODEL_SETTINGS, ModelSettingsValue } from './ChatModelSettings';
+import { PromptTemplatePicker, TemplateSelection, EMPTY_TEMPLATE_SELECTION, selectionVariables } from './PromptTemplatePicker';
+import { ChatMessageLink, ScriptDraft } from './PendingEmbeddings';
+import { ChatVariants, ScriptVariant, variantsToMarkdown } from './ChatVariants';
 
 interface ChatbotProps {
   videos: any[];
+  // Opens a reply as a prefilled pending script
+  onSaveAsScript?: (draft: ScriptDraft) => void;
+  // A conversation to open at a message, e.g. a pending script's source
+  openSession?: ChatMessageLink | null;
+  onSessionOpened?: () => void;
+}
+
+interface ContextCitation {
+  video_id: string;
+  title: string | null;
+  thumbnail_url: string | null;
+  view_count: number;
+  engagement_rate: number;
+  reason: 'selected' | 'relevant' | 'top_performer';
+  similarity: number | null;
 }
 
 interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
+  // Videos the server put in the context for this reply
+  context?: ContextCitation[];
+  // What the server cut to fit the token budget
+  truncated?: string[];
+  // The user stopped the reply before it finished
+  stopped?: boolean;
+  // Database queries the model ran before answering
+  steps?: ToolStep[];
+  // What produced the reply and what it cost
+  provider?: string;
+  model?: string;
+  template?: { id: string; version: number };
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | null;
+  // Set for replies generated as structured variants (content holds them as markdown)
+  variants?: ScriptVariant[];
+}
+
+interface ChatEstimate {
+  estimated_tokens: number;
+  budget: number;
+  max_output_tokens: number;
+  provider: string;
+  model: string;
+  // Null when the model's price isn't known
+  estimated_cost_usd: number | null;
+  truncated: string[];
+  context_count: number;
+}
+
+// Wait for typing to pause before asking the server for an estimate
+const ESTIMATE_DEBOUNCE_MS = 600;
+
+const CITATION_REASON_LABELS: Record<ContextCitation['reason'], string> = {
+  selected: 'Selected',
+  relevant: 'Relevant',
+  top_performer: 'Top performer',
+};
+
+// Model and template settings are kept per browser, like the table column choices
+const getStorageKey = (setting: 'model_settings' | 'prompt_template') => `chatbot_${setting}`;
+
+const loadSetting = <T extends object>(setting: 'model_settings' | 'prompt_template', fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(getStorageKey(setting));
+    return stored ? { ...fallback, ...JSON.parse(stored) } : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const saveSetting = (setting: 'model_settings' | 'prompt_template', value: object) => {
+  try {
+    localStorage.setItem(getStorageKey(setting), JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to save chatbot ${setting}:`, error);
+  }
+};
+
+// What a conversation needs to be continued exactly as it was
+interface ChatSessionSettings {
+  video_ids: string[];
+  auto_context: boolean;
+  use_tools: boolean;
+  content_type: string;
+  template: { id: string; version: number; variables: Record<string, string> } | null;
+  model: { provider: string; model: string; temperature: number; max_tokens: number } | null;
 }
 
 interface ChatSession {
   id: string;
   title: string;
   history: ChatMessage[];
+  // Empty for conversations saved before settings were kept
+  settings?: Partial<ChatSessionSettings>;
   updated_at: string;
 }
 
-const Chatbot: React.FC<ChatbotProps> = ({ videos }) => {
+const Chatbot: React.FC<ChatbotProps> = ({ videos, onSaveAsScript, openSession, onSessionOpened }) => {
   const [input, setInput] = useState('');
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [selectedVideoIds, setSelectedVideoIds] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showVideoSelector, setShowVideoSelector] = useState(true);
+  const [autoContext, setAutoContext] = useState(true);
+  const [useTools, setUseTools] = useState(true);
+  // Variants per reply in variants mode, 0 for free-form chat
+  const [variantCount, setVariantCount] = useState(0);
+  const [regenerating, setRegenerating] = useState<{ messageIndex: number; variantIndex: number } | null>(null);
+  const [estimate, setEstimate] = useState<ChatEstimate | null>(null);
+  const [providers, setProviders] = useState<ChatProvidersData | null>(null);
+  const [modelSettings, setModelSettings] = useState<ModelSettingsValue>(() => loadSetting('model_settings', EMPTY_MODEL_SETTINGS));
+  const [showModelSettings, setShowModelSettings] = useState(false);
+  const [template, setTemplate] = useState<TemplateSelection>(() => loadSetting('prompt_template', EMPTY_TEMPLATE_SELECTION));
+  const [showTemplate, setShowTemplate] = useState(false);
   const [sortBy, setSortBy] = useState<'none' | 'views-desc' | 'views-asc' | 'engagement-desc' | 'engagement-asc'>('views-desc');
+  const [contentTypeFilter, setContentTypeFilter] = useState<string>('all');
   const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [sessionsLoaded, setSessionsLoaded] = useState(false);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  const [sessionWarning, setSessionWarning] = useState<string | null>(null);
+  const [highlightedIndex, setHighlightedIndex] = useState<number | null>(null);
+  const [draftingIndex, setDraftingIndex] = useState<number | null>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-  // Fetch sessions on mount
+  // Stop a reply still streaming when leaving the chatbot
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Fetch sessions and available providers on mount
   useEffect(() => {
     fetchSessions();
+    fetchProviders();
   }, []);
 
+  useEffect(() => {
+    saveSetting('model_settings', modelSettings);
+  }, [modelSettings]);
+
+  useEffect(() => {
+    saveSetting('prompt_template', template);
+  }, [template]);
+
+  const fetchProviders = async () => {
+    try {
+      const response = await apiClient.get('/api/chat/providers');
+      if (response.data.success) {
+        setProviders(response.data.data);
+      }
+    } catch (err) {
+      console.error('Failed to fetch chat providers:', err);
+    }
+  };
+
   const fetchSessions = async () => {
     try {
       const response = await apiClient.get('/api/chat/sessions');
@@ -47,10 +175,26 @@ const Chatbot: React.FC<ChatbotProps> = ({ videos }) => {
       }
     } catch (err) {
       console.error('Failed to fetch sessions:', err);
+    } finally {
+      setSessionsLoaded(true);
     }
   };
 
-  const saveSession = async (updatedMessages: ChatMessage[]) => {
+  // Open a linked conversation once the saved ones have loaded
+  useEffect(() => {
+    if (!openSession || !sessionsLoaded) return;
+    const session = sessions.find((s) => s.id === openSession.sessionId);
+    if (session) {
+      loadSession(session);
+      setHighlightedIndex(openSession.messageIndex);
+    } else {
+      setError('That conversation has been deleted');
+    }
+    onSessionOpened?.();
+  }, [openSession, sessionsLoaded]);
+
+  // Without settings the stored ones are kept (e.g. when editing a reply's variants)
+  const saveSession = async (updatedMessages: ChatMessage[], settings?: ChatSessionSettings) => {
     if (updatedMessages.length === 0) return;
     
     setIsSaving(true);
@@ -64,7 +208,8 @@ const Chatbot: React.FC<ChatbotProps> = ({ videos }) => {
       const response = await apiClient.post('/api/chat/sessions', {
         id: currentSessionId,
         title,
-        history: updatedMessages
+        history: updatedMessages,
+        settings,
       });
 
       if (response.data.success) {
@@ -86,15 +231,79 @@ const Chatbot: React.FC<ChatbotProps> = ({ videos }) => {
     setCurrentSessionId(session.id);
     setMessages(session.history);
     setError(null);
+    setHighlightedIndex(null);
+    restoreSessionSettings(session.settings);
+  };
+
+  // Put the context, template and model of a saved conversation back
+  const restoreSessionSettings = (settings: Partial<ChatSessionSettings> | undefined) => {
+    setSessionWarning(null);
+    if (!settings || !settings.video_ids) return;
+
+    if (settings.auto_context !== undefined) setAutoContext(settings.auto_context);
+    if (settings.use_tools !== undefined) setUseTools(settings.use_tools);
+    setContentTypeFilter(settings.content_type || 'all');
+    if (settings.template) {
+      setTemplate({ templateId: settings.template.id, version: settings.template.version, variables: settings.template.variables || {} });
+    }
+    if (settings.model) {
+      setModelSettings({
+        provider: settings.model.provider,
+        model: settings.model.model,
+        temperature: String(settings.model.temperature),
+        maxTokens: String(settings.model.max_tokens),
+      });
+    }
+
+    // Videos deleted since can't be context any more (checked once the video list has loaded)
+    const ids = settings.video_ids;
+    if (videos.length === 0) {
+      setSelectedVideoIds(new Set(ids));
+      return;
+    }
+    const known = new Map(videos.map((v) => [v.video_id, v]));
+    const missing = ids.filter((id) => !known.has(id));
+    const gone = ids.filter((id) => known.get(id)?.status === 'gone');
+    setSelectedVideoIds(new Set(ids.filter((id) => known.has(id))));
+
+    const warnings: string[] = [];
+    if (missing.length > 0) {
+      warnings.push(`${missing.length} of the ${ids.length} videos selected in this conversation no longer exist and were removed from the context`);
+    }
+    if (gone.length > 0) {
+      warnings.push(`${gone.length} selected video${gone.length === 1 ? ' was' : 's were'} removed from YouTube (their stored data is still used)`);
+    }
+    setSessionWarning(warnings.length > 0 ? warnings.join('. ') + '.' : null);
   };
 
   const startNewChat = () => {
     setCurrentSessionId(null);
     setMessages([]);
     setError(null);
+    setSessionWarning(null);
+    setHighlightedIndex(null);
     setInput('');
   };
 
+  // Split a reply into script fields and open it as a pending script linked to this message
+  const saveAsScript = async (index: number) => {
+    if (!onSaveAsScript) return;
+    try {
+      setDraftingIndex(index);
+      setError(null);
+      const response = await apiClient.post('/api/chat/script-draft', { content: messages[index].content });
+      onSaveAsScript({
+        fields: response.data.data.fields,
+        source_session_id: currentSessionId,
+        source_message_index: currentSessionId ? index : null,
+      });
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to draft a script from this reply');
+    } finally {
+      setDraftingIndex(null);
+    }
+  };
+
   const deleteSession = async (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
     if (!confirm('Are you sure you want to delete this conversation?')) return;
@@ -117,9 +326,24 @@ const Chatbot: React.FC<ChatbotProps> = ({ videos }) => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  // Sort videos
+  // ...unless a linked message was opened
+  useEffect(() => {
+    if (highlightedIndex === null) return;
+    document.getElementById(`chat-message-${highlightedIndex}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightedIndex, messages]);
+
+  // Content types present in the videos (short / long / live / premiere)
+  const contentTypes = React.useMemo(
+    () => Array.from(new Set(videos.map((v) => v.content_type).filter(Boolean))).sort() as string[],
+    [videos]
+  );
+
+  // Filter by content type, then sort
   const sortedVideos = React.useMemo(() => {
-    const sorted = [...videos].sort((a, b) => {
+    const filtered = contentTypeFilter === 'all'
+      ? videos
+      : videos.filter((v) => v.content_type === contentTypeFilter);
+    const sorted = [...filtered].sort((a, b) => {
       if (sortBy === 'none') return 0;
       if (sortBy === 'views-desc' || sortBy === 'views-asc') {
         const viewsA = a.view_count || 0;
@@ -134,7 +358,58 @@ const Chatbot: React.FC<ChatbotProps> = ({ videos }) => {
       return 0;
     });
     return sorted;
-  }, [videos, sortBy]);
+  }, [videos, sortBy, contentTypeFilter]);
+
+  const activeProvider = providers?.providers.find(
+    (p) => p.name === (modelSettings.provider || providers.default_provider)
+  );
+  const activeModel = activeProvider
+    ? `${activeProvider.name} · ${modelSettings.model.trim() || activeProvider.default_model}`
+    : null;
+
+  const buildRequest = (message: string) => ({
+    message,
+    videoIds: Array.from(selectedVideoIds),
+    autoContext,
+    contentType: contentTypeFilter !== 'all' ? contentTypeFilter : undefined,
+    useTools,
+    templateId: template.templateId || undefined,
+    templateVersion: template.version,
+    variables: selectionVariables(template),
+    // send prior conversation as history
+    history: messages.map(({ role, content }) => ({ role, content })),
+    // Unset model settings use the server's defaults
+    provider: modelSettings.provider || undefined,
+    model: modelSettings.model.trim() || undefined,
+    temperature: modelSettings.temperature !== '' ? Number(modelSettings.temperature) : undefined,
+    maxTokens: modelSettings.maxTokens !== '' ? Number(modelSettings.maxTokens) : undefined,
+  });
+
+  // Token/cost estimate of the message being typed
+  useEffect(() => {
+    const trimmed = input.trim();
+    if (!trimmed || loading) {
+      setEstimate(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiClient.post('/api/chat/estimate', buildRequest(trimmed));
+        if (!cancelled && response.data.success) {
+          setEstimate(response.data.data);
+        }
+      } catch (err) {
+        if (!cancelled) setEstimate(null);
+      }
+    }, ESTIMATE_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [input, selectedVideoIds, autoContext, useTools, contentTypeFilter, messages, loading, modelSettings, template]);
 
   const toggleVideoSelection = (videoId: string) => {
     const newSelection = new Set(selectedVideoIds);
@@ -146,14 +421,25 @@ const Chatbot: React.FC<ChatbotProps> = ({ videos }) => {
     setSelectedVideoIds(newSelection);
   };
 
+  // Adds the videos currently shown (after the content type filter) to the selection
   const selectAllVideos = () => {
-    setSelectedVideoIds(new Set(videos.map((v) => v.video_id)));
+    setSelectedVideoIds(new Set([...selectedVideoIds, ...sortedVideos.map((v) => v.video_id)]));
   };
 
   const deselectAllVideos = () => {
     setSelectedVideoIds(new Set());
   };
 
+  // What a reply was generated with, saved with the session
+  const sessionSettings = (reply: ChatMessage, model: ChatSessionSettings['model']): ChatSessionSettings => ({
+    video_ids: Array.from(selectedVideoIds),
+    auto_context: autoContext,
+    use_tools: useTools,
+    content_type: contentTypeFilter,
+    template: reply.template ? { ...reply.template, variables: selectionVariables(template) } : null,
+    model,
+  });
+
   const handleSend = async () => {
     const trimmed = input.trim();
     if (!trimmed || loading) return;
@@ -165,37 +451,206 @@ const Chatbot: React.FC<ChatbotProps> = ({ videos }) => {
     setInput('');
     setLoading(true);
 
+    if (variantCount > 0) {
+      await sendVariantsRequest(trimmed, updatedMessages);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const assistantMessage: ChatMessage = { role: 'assistant', content: '' };
+    let resolvedModel: ChatSessionSettings['model'] = null;
+
     try {
-      const response = await apiClient.post('/api/chat', {
-        message: trimmed,
-        videoIds: Array.from(selectedVideoIds),
-        history: messages, // send prior conversation as history
+      // axios can't read a response as it arrives, so the stream goes through fetch
+      const response = await fetch(`${apiClient.defaults.baseURL}/api/chat/stream`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(buildRequest(trimmed)),
+        signal: controller.signal,
       });
 
-      if (response.data.success) {
-        const assistantMessage: ChatMessage = {
-          role: 'assistant',
-          content: response.data.data.message,
-        };
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error?.message || `Request failed with status ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        // Events are separated by a blank line; keep a partial one for the next chunk
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+
+        for (const event of events) {
+          const line = event.split('\n').find((l) => l.startsWith('data: '));
+          if (!line) continue;
+
+          const data = JSON.parse(line.slice('data: '.length));
+          if (data.type === 'context') {
+            assistantMessage.context = data.context;
+            assistantMessage.truncated = data.budget?.truncated;
+            assistantMessage.provider = data.budget?.provider;
+            assistantMessage.model = data.budget?.model;
+            assistantMessage.template = data.template;
+            if (data.budget) {
+              resolvedModel = {
+                provider: data.budget.provider,
+                model: data.budget.model,
+                temperature: data.budget.temperature,
+                max_tokens: data.budget.max_output_tokens,
+              };
+            }
+          } else if (data.type === 'tool_call') {
+            const step: ToolStep = { id: data.id, name: data.name, arguments: data.arguments, result: null, error: null };
+            assistantMessage.steps = [...(assistantMessage.steps || []), step];
+            setMessages([...updatedMessages, { ...assistantMessage }]);
+          } else if (data.type === 'tool_result') {
+            assistantMessage.steps = (assistantMessage.steps || []).map((step) =>
+              step.id === data.id ? { ...step, result: data.result, error: data.error } : step
+            );
+            setMessages([...updatedMessages, { ...assistantMessage }]);
+          } else if (data.type === 'delta') {
+            assistantMessage.content += data.content;
+            setMessages([...updatedMessages, { ...assistantMessage }]);
+          } else if (data.type === 'done') {
+            assistantMessage.usage = data.usage;
+          } else if (data.type === 'error') {
+            setError(data.message);
+          }
+        }
+      }
+    } catch (err: any) {
+      if (err.name === 'AbortError') {
+        assistantMessage.stopped = true;
+      } else {
+        setError(err.message || 'Failed to send message');
+      }
+    } finally {
+      abortRef.current = null;
+      if (assistantMessage.content || assistantMessage.steps) {
         const finalMessages = [...updatedMessages, assistantMessage];
         setMessages(finalMessages);
-        // Auto-save the session
-        saveSession(finalMessages);
-      } else {
-        setError(response.data.error?.message || 'Something went wrong');
+        // Auto-save the session (stopped replies included) with what it takes to continue it the same way
+        saveSession(finalMessages, sessionSettings(assistantMessage, resolvedModel));
       }
+      setLoading(false);
+      inputRef.current?.focus();
+    }
+  };
+
+  // Variants mode: the reply is a set of structured variants, shown as cards
+  const sendVariantsRequest = async (message: string, updatedMessages: ChatMessage[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const response = await apiClient.post(
+        '/api/chat/variants',
+        { ...buildRequest(message), count: variantCount },
+        { signal: controller.signal }
+      );
+      const data = response.data.data;
+      const assistantMessage: ChatMessage = {
+        role: 'assistant',
+        content: variantsToMarkdown(data.variants),
+        variants: data.variants,
+        context: data.context,
+        truncated: data.budget?.truncated,
+        provider: data.provider,
+        model: data.model,
+        template: data.template,
+        usage: data.usage,
+      };
+      const finalMessages = [...updatedMessages, assistantMessage];
+      setMessages(finalMessages);
+      saveSession(
+        finalMessages,
+        sessionSettings(assistantMessage, {
+          provider: data.budget.provider,
+          model: data.budget.model,
+          temperature: data.budget.temperature,
+          max_tokens: data.budget.max_output_tokens,
+        })
+      );
     } catch (err: any) {
-      const errMsg =
-        err.response?.data?.error?.message ||
-        err.message ||
-        'Failed to send message';
-      setError(errMsg);
+      if (err.name !== 'CanceledError') {
+        setError(err.response?.data?.error?.message || err.message || 'Failed to generate variants');
+      }
     } finally {
+      abortRef.current = null;
       setLoading(false);
       inputRef.current?.focus();
     }
   };
 
+  // Starred or edited variants are saved with the conversation
+  const updateVariants = (messageIndex: number, variants: ScriptVariant[]) => {
+    const updated = messages.map((msg, i) =>
+      i === messageIndex ? { ...msg, variants, content: variantsToMarkdown(variants) } : msg
+    );
+    setMessages(updated);
+    saveSession(updated);
+  };
+
+  // Replace one variant with a new one that differs from the rest of the set
+  const regenerateVariant = async (messageIndex: number, variantIndex: number) => {
+    const reply = messages[messageIndex];
+    const request = messages[messageIndex - 1];
+    if (!reply.variants || request?.role !== 'user') return;
+
+    try {
+      setRegenerating({ messageIndex, variantIndex });
+      setError(null);
+      const response = await apiClient.post('/api/chat/variants', {
+        ...buildRequest(request.content),
+        history: messages.slice(0, messageIndex - 1).map(({ role, content }) => ({ role, content })),
+        count: 1,
+        existing: reply.variants,
+      });
+      const [variant] = response.data.data.variants;
+      // Stars, edits and messages from while the request ran are kept; the new
+      // variant takes over the replaced one's star
+      let updated = null as ChatMessage[] | null;
+      setMessages((prev) => {
+        const current = prev[messageIndex]?.variants;
+        if (!current?.[variantIndex]) return prev;
+        const variants = current.map((v, i) => (i === variantIndex ? { ...variant, starred: v.starred } : v));
+        updated = prev.map((msg, i) =>
+          i === messageIndex ? { ...msg, variants, content: variantsToMarkdown(variants) } : msg
+        );
+        return updated;
+      });
+      if (updated) saveSession(updated);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to regenerate the variant');
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  const sendVariantToPending = (messageIndex: number, variant: ScriptVariant) => {
+    onSaveAsScript?.({
+      fields: {
+        topic: variant.angle,
+        hook: variant.hook,
+        script: variant.outline.map((beat, i) => `${i + 1}. ${beat}`).join('\n'),
+        end_cta: variant.cta,
+      },
+      source_session_id: currentSessionId,
+      source_message_index: currentSessionId ? messageIndex : null,
+    });
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -340,6 +795,62 @@ const Chatbot: React.FC<ChatbotProps> = ({ videos }) => {
             {isSaving && <span style={{ fontSize: '0.8rem', color: '#8b949e', marginLeft: '1rem', fontWeight: 400 }}>Saving...</span>}
           </h2>
           <div style={{ display: 'flex', gap: '0.75rem' }}>
+            <button
+              onClick={() => setAutoContext(!autoContext)}
+              title="Add the videos most relevant to each message and the best performers to the context"
+              style={{
+                padding: '0.5rem 1rem',
+                backgroundColor: autoContext ? '#238636' : '#21262d',
+                color: '#c9d1d9',
+                border: '1px solid #30363d',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                fontSize: '0.875rem',
+                fontWeight: 500,
+                transition: 'all 0.2s'
+              }}
+            >
+              Auto Context: {autoContext ? 'On' : 'Off'}
+            </button>
+            <button
+              onClick={() => setUseTools(!useTools)}
+              title="Let the model query videos, stats history, creative attributes and comments before answering"
+              style={{
+                padding: '0.5rem 1rem',
+                backgroundColor: useTools ? '#238636' : '#21262d',
+                color: '#c9d1d9',
+                border: '1px solid #30363d',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                fontSize: '0.875rem',
+                fontWeight: 500,
+                transition: 'all 0.2s'
+              }}
+            >
+              Tools: {useTools ? 'On' : 'Off'}
+            </button>
+            <select
+              value={variantCount}
+              onChange={(e) => setVariantCount(Number(e.target.value))}
+              title="Reply with a set of structured variants to compare, instead of a free-form answer"
+              style={{
+                padding: '0.5rem 0.75rem',
+                backgroundColor: variantCount > 0 ? '#238636' : '#21262d',
+                color: '#c9d1d9',
+                border: '1px solid #30363d',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                fontSize: '0.875rem',
+                fontWeight: 500,
+              }}
+            >
+              <option value={0}>Reply: Chat</option>
+              {[2, 3, 4, 5, 6].map((count) => (
+                <option key={count} value={count}>
+                  Reply: {count} variants
+                </option>
+              ))}
+            </select>
             <button
               onClick={() => setShowVideoSelector(!showVideoSelector)}
               style={{
@@ -356,6 +867,38 @@ const Chatbot: React.FC<ChatbotProps> = ({ videos }) => {
             >
               {showVideoSelector ? 'Hide' : 'Show'} Context ({selectedVideoIds.size})
             </button>
+            <button
+              onClick={() => setShowModelSettings(!showModelSettings)}
+              style={{
+                padding: '0.5rem 1rem',
+                backgroundColor: showModelSettings ? '#1f6feb' : '#21262d',
+                color: '#c9d1d9',
+                border: '1px solid #30363d',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                fontSize: '0.875rem',
+                fontWeight: 500,
+                transition: 'all 0.2s'
+              }}
+            >
+              Model
+            </button>
+            <button
+              onClick={() => setShowTemplate(!showTemplate)}
+              style={{
+                padding: '0.5rem 1rem',
+                backgroundColor: showTemplate ? '#1f6feb' : '#21262d',
+                color: '#c9d1d9',
+                border: '1px solid #30363d',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                fontSize: '0.875rem',
+                fontWeight: 500,
+                transition: 'all 0.2s'
+              }}
+            >
+              Template
+            </button>
             <button
               onClick={startNewChat}
               style={{
@@ -375,6 +918,16 @@ const Chatbot: React.FC<ChatbotProps> = ({ videos }) => {
           </div>
         </div>
 
+        {showModelSettings && (
+          <ChatModelSettings providers={providers} value={modelSettings} onChange={setModelSettings} />
+        )}
+
+        {showTemplate && (
+          <div style={{ marginBottom: '1rem' }}>
+            <PromptTemplatePicker value={template} onChange={setTemplate} />
+          </div>
+        )}
+
       {/* Video Context Selector (collapsible) */}
       {showVideoSelector && (
         <div
@@ -392,6 +945,28 @@ const Chatbot: React.FC<ChatbotProps> = ({ videos }) => {
               Select Videos for Context ({selectedVideoIds.size} selected)
             </label>
             <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap' }}>
+              {contentTypes.length > 1 && (
+                <select
+                  value={contentTypeFilter}
+                  onChange={(e) => setContentTypeFilter(e.target.value)}
+                  style={{
+                    padding: '0.4rem 0.8rem',
+                    backgroundColor: '#21262d',
+                    color: '#c9d1d9',
+                    border: '1px solid #30363d',
+                    borderRadius: '6px',
+                    cursor: 'pointer',
+                    fontSize: '0.8rem',
+                  }}
+                >
+                  <option value="all">All Types</option>
+                  {contentTypes.map((type) => (
+                    <option key={type} value={type}>
+                      {type.charAt(0).toUpperCase() + type.slice(1)}
+                    </option>
+                  ))}
+                </select>
+              )}
               <select
                 value={sortBy}
                 onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
@@ -495,6 +1070,7 @@ const Chatbot: React.FC<ChatbotProps> = ({ videos }) => {
                       {video.title || video.video_id}
                     </div>
                     <div style={{ color: '#8b949e', fontSize: '0.75rem', marginTop: '0.1rem' }}>
+                      {video.content_type && <>{video.content_type} •{' '}</>}
                       {video.view_count?.toLocaleString() || 0} views •{' '}
                       {video.engagement_rate ? (video.engagement_rate * 100).toFixed(2) + '%' : 'N/A'} eng.
                     </div>
@@ -531,8 +1107,9 @@ const Chatbot: React.FC<ChatbotProps> = ({ videos }) => {
               Marketing Strategy AI
             </div>
             <div style={{ fontSize: '0.9rem', maxWidth: '450px', lineHeight: '1.6' }}>
-              Select videos above to give me context on what works for your audience. 
-              Then ask me to generate hooks, scripts, or strategy based on those patterns.
+              {autoContext
+                ? 'Ask me for hooks, scripts, or strategy. I\'ll pull in the most relevant and best-performing videos as context, plus any you select above.'
+                : 'Select videos above to give me context on what works for your audience. Then ask me to generate hooks, scripts, or strategy based on those patterns.'}
             </div>
           </div>
         )}
@@ -540,6 +1117,7 @@ const Chatbot: React.FC<ChatbotProps> = ({ videos }) => {
         {messages.map((msg, index) => (
           <div
             key={index}
+            id={`chat-message-${index}`}
             style={{
               display: 'flex',
               justifyContent: msg.role === 'user' ? 'flex-end' : 'flex-start',
@@ -555,7 +1133,7 @@ const Chatbot: React.FC<ChatbotProps> = ({ videos }) => {
                 fontSize: '0.9375rem',
                 lineHeight: '1.6',
                 wordBreak: 'break-word',
-                border: msg.role === 'user' ? '1px solid #069153' : '1px solid #30363d',
+                border: index === highlightedIndex ? '1px solid #1f6feb' : msg.role === 'user' ? '1px solid #069153' : '1px solid #30363d',
                 boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
               }}
             >
@@ -564,35 +1142,120 @@ const Chatbot: React.FC<ChatbotProps> = ({ videos }) => {
                   AI Strategist
                 </div>
               )}
-              <ReactMarkdown 
-                remarkPlugins={[remarkGfm]}
-                components={{
-                  p: ({node, ...props}) => <p style={{ margin: '0 0 0.5rem 0' }} {...props} />,
-                  ul: ({node, ...props}) => <ul style={{ margin: '0.5rem 0', paddingLeft: '1.5rem' }} {...props} />,
-                  ol: ({node, ...props}) => <ol style={{ margin: '0.5rem 0', paddingLeft: '1.5rem' }} {...props} />,
-                  li: ({node, ...props}) => <li style={{ marginBottom: '0.25rem' }} {...props} />,
-                  code: ({node, ...props}) => (
-                    <code 
-                      style={{ 
-                        backgroundColor: msg.role === 'user' ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.3)', 
-                        padding: '0.2rem 0.4rem', 
-                        borderRadius: '4px',
-                        fontSize: '0.85em',
-                        fontFamily: 'monospace'
-                      }} 
-                      {...props} 
-                    />
-                  ),
-                  strong: ({node, ...props}) => <strong style={{ fontWeight: 700, color: '#fff' }} {...props} />,
-                }}
-              >
-                {msg.content}
-              </ReactMarkdown>
+              {msg.steps && msg.steps.length > 0 && <ChatToolSteps steps={msg.steps} />}
+              {msg.variants ? (
+                <ChatVariants
+                  variants={msg.variants}
+                  onChange={(variants) => updateVariants(index, variants)}
+                  onRegenerate={(variantIndex) => regenerateVariant(index, variantIndex)}
+                  regenerating={regenerating?.messageIndex === index ? regenerating.variantIndex : null}
+                  onSendToPending={onSaveAsScript ? (variant) => sendVariantToPending(index, variant) : undefined}
+                  disabled={loading || isSaving}
+                />
+              ) : (
+                <ReactMarkdown 
+                  remarkPlugins={[remarkGfm]}
+                  components={{
+                    p: ({node, ...props}) => <p style={{ margin: '0 0 0.5rem 0' }} {...props} />,
+                    ul: ({node, ...props}) => <ul style={{ margin: '0.5rem 0', paddingLeft: '1.5rem' }} {...props} />,
+                    ol: ({node, ...props}) => <ol style={{ margin: '0.5rem 0', paddingLeft: '1.5rem' }} {...props} />,
+                    li: ({node, ...props}) => <li style={{ marginBottom: '0.25rem' }} {...props} />,
+                    code: ({node, ...props}) => (
+                      <code 
+                        style={{ 
+                          backgroundColor: msg.role === 'user' ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.3)', 
+                          padding: '0.2rem 0.4rem', 
+                          borderRadius: '4px',
+                          fontSize: '0.85em',
+                          fontFamily: 'monospace'
+                        }} 
+                        {...props} 
+                      />
+                    ),
+                    strong: ({node, ...props}) => <strong style={{ fontWeight: 700, color: '#fff' }} {...props} />,
+                  }}
+                >
+                  {msg.content}
+                </ReactMarkdown>
+              )}
+              {msg.model && (
+                <div style={{ marginTop: '0.5rem', fontSize: '0.7rem', color: '#6e7681' }}>
+                  {msg.model}
+                  {msg.usage && ` · ${msg.usage.total_tokens.toLocaleString()} tokens`}
+                  {msg.template && ` · template v${msg.template.version}`}
+                </div>
+              )}
+              {msg.role === 'assistant' && onSaveAsScript && msg.content && !msg.variants && !(loading && index === messages.length - 1) && (
+                <button
+                  onClick={() => saveAsScript(index)}
+                  disabled={draftingIndex !== null || isSaving}
+                  title="Open this reply as a pending script, linked back to this conversation"
+                  style={{
+                    marginTop: '0.5rem',
+                    padding: '0.25rem 0.6rem',
+                    backgroundColor: 'transparent',
+                    color: '#58a6ff',
+                    border: '1px solid #30363d',
+                    borderRadius: '6px',
+                    cursor: draftingIndex !== null || isSaving ? 'not-allowed' : 'pointer',
+                    fontSize: '0.75rem',
+                  }}
+                >
+                  {draftingIndex === index ? 'Drafting...' : 'Save as script'}
+                </button>
+              )}
+              {msg.stopped && (
+                <div style={{ marginTop: '0.5rem', fontSize: '0.75rem', color: '#8b949e', fontStyle: 'italic' }}>
+                  Stopped
+                </div>
+              )}
+              {msg.truncated && msg.truncated.length > 0 && (
+                <div style={{ marginTop: '0.5rem', fontSize: '0.75rem', color: '#d29922' }}>
+                  Context compacted to fit the token budget: {msg.truncated.join('; ')}
+                </div>
+              )}
+              {msg.context && msg.context.length > 0 && (
+                <details style={{ marginTop: '0.75rem', borderTop: '1px solid #30363d', paddingTop: '0.5rem' }}>
+                  <summary style={{ cursor: 'pointer', fontSize: '0.75rem', color: '#8b949e', fontWeight: 600 }}>
+                    Based on {msg.context.length} video{msg.context.length === 1 ? '' : 's'}
+                  </summary>
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: '0.35rem', marginTop: '0.5rem' }}>
+                    {msg.context.map((citation) => (
+                      <a
+                        key={citation.video_id}
+                        href={`https://www.youtube.com/shorts/${citation.video_id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8rem', color: '#c9d1d9', textDecoration: 'none' }}
+                      >
+                        <span
+                          style={{
+                            padding: '0.05rem 0.4rem',
+                            borderRadius: '10px',
+                            fontSize: '0.65rem',
+                            flexShrink: 0,
+                            backgroundColor: citation.reason === 'relevant' ? '#1f6feb33' : citation.reason === 'top_performer' ? '#23863633' : '#30363d',
+                            color: citation.reason === 'relevant' ? '#58a6ff' : citation.reason === 'top_performer' ? '#3fb950' : '#c9d1d9',
+                          }}
+                        >
+                          {CITATION_REASON_LABELS[citation.reason]}
+                        </span>
+                        <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                          {citation.title || citation.video_id}
+                        </span>
+                        <span style={{ color: '#8b949e', flexShrink: 0 }}>
+                          {citation.view_count.toLocaleString()} views • {(citation.engagement_rate * 100).toFixed(2)}% eng.
+                        </span>
+                      </a>
+                    ))}
+                  </div>
+                </details>
+              )}
             </div>
           </div>
         ))}
 
-        {loading && (
+        {loading && messages[messages.length - 1]?.role !== 'assistant' && (
           <div style={{ display: 'flex', justifyContent: 'flex-start' }}>
             <div
               style={{
@@ -618,6 +1281,23 @@ const Chatbot: React.FC<ChatbotProps> = ({ videos }) => {
         <div ref={messagesEndRef} />
       </div>
 
+      {/* Restored conversation warnings */}
+      {sessionWarning && (
+        <div
+          style={{
+            padding: '0.75rem 1rem',
+            backgroundColor: '#2d2410',
+            color: '#d29922',
+            borderRadius: '6px',
+            marginBottom: '0.75rem',
+            fontSize: '0.875rem',
+            border: '1px solid #6e5312',
+          }}
+        >
+          {sessionWarning}
+        </div>
+      )}
+
       {/* Error display */}
       {error && (
         <div
@@ -638,6 +1318,36 @@ const Chatbot: React.FC<ChatbotProps> = ({ videos }) => {
         </div>
       )}
 
+      {/* Token / cost meter */}
+      {estimate && (
+        <div style={{ marginBottom: '0.5rem', fontSize: '0.75rem', color: '#8b949e' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem', marginBottom: '0.3rem' }}>
+            <span>
+              ≈ {estimate.estimated_tokens.toLocaleString()} / {estimate.budget.toLocaleString()} prompt tokens
+              {' · '}
+              {estimate.context_count} context video{estimate.context_count === 1 ? '' : 's'}
+            </span>
+            <span title={`Assumes a reply of up to ${estimate.max_output_tokens} tokens`}>
+              {estimate.estimated_cost_usd !== null ? `up to $${estimate.estimated_cost_usd.toFixed(4)}` : 'cost unknown'}
+            </span>
+          </div>
+          <div style={{ height: '4px', backgroundColor: '#21262d', borderRadius: '2px', overflow: 'hidden' }}>
+            <div
+              style={{
+                width: `${Math.min(100, (estimate.estimated_tokens / estimate.budget) * 100)}%`,
+                height: '100%',
+                backgroundColor: estimate.truncated.length > 0 ? '#d29922' : '#1f6feb',
+              }}
+            />
+          </div>
+          {estimate.truncated.length > 0 && (
+            <div style={{ marginTop: '0.3rem', color: '#d29922' }}>
+              Will be compacted: {estimate.truncated.join('; ')}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Input Area */}
       <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'flex-end', backgroundColor: '#161b22', padding: '0.75rem', borderRadius: '10px', border: '1px solid #30363d' }}>
         <textarea
@@ -646,7 +1356,7 @@ const Chatbot: React.FC<ChatbotProps> = ({ videos }) => {
           onChange={(e) => setInput(e.target.value)}
           onKeyDown={handleKeyDown}
           placeholder={
-            selectedVideoIds.size === 0
+            selectedVideoIds.size === 0 && !autoContext
               ? 'Select videos above for context, then type your message...'
               : 'Type your message... (Shift+Enter for new line)'
           }
@@ -672,33 +1382,34 @@ const Chatbot: React.FC<ChatbotProps> = ({ videos }) => {
           rows={1}
         />
         <button
-          onClick={handleSend}
-          disabled={loading || !input.trim()}
+          onClick={loading ? handleStop : handleSend}
+          disabled={!loading && !input.trim()}
           style={{
             padding: '0.75rem 1.5rem',
-            backgroundColor: loading || !input.trim() ? '#21262d' : '#1f6feb',
-            color: loading || !input.trim() ? '#484f58' : 'white',
+            backgroundColor: loading ? '#da3633' : !input.trim() ? '#21262d' : '#1f6feb',
+            color: !loading && !input.trim() ? '#484f58' : 'white',
             border: 'none',
             borderRadius: '6px',
-            cursor: loading || !input.trim() ? 'not-allowed' : 'pointer',
+            cursor: !loading && !input.trim() ? 'not-allowed' : 'pointer',
             fontSize: '0.9375rem',
             fontWeight: 600,
             whiteSpace: 'nowrap',
             minHeight: '44px',
             transition: 'all 0.2s',
-            boxShadow: loading || !input.trim() ? 'none' : '0 2px 6px rgba(31, 111, 235, 0.3)'
+            boxShadow: loading ? '0 2px 6px rgba(218, 54, 51, 0.3)' : !input.trim() ? 'none' : '0 2px 6px rgba(31, 111, 235, 0.3)'
           }}
         >
-          {loading ? '...' : 'Send'}
+          {loading ? 'Stop' : 'Send'}
         </button>
       </div>
 
       {/* Info */}
       <div style={{ marginTop: '1rem', padding: '0.75rem 1rem', backgroundColor: '#1c2128', borderRadius: '6px', border: '1px solid #30363d' }}>
         <div style={{ fontSize: '0.75rem', color: '#8b949e', lineHeight: '1.6' }}>
-          <strong style={{ color: '#c9d1d9' }}>Powered by GPT-3.5 Turbo</strong>
+          <strong style={{ color: '#c9d1d9' }}>Powered by {activeModel || 'the default model'}</strong>
           {' · '}
-          Using {selectedVideoIds.size > 0 ? <strong style={{ color: '#58a6ff' }}>{selectedVideoIds.size} video(s)</strong> : 'no videos'} as pattern context.
+          Using {selectedVideoIds.size > 0 ? <strong style={{ color: '#58a6ff' }}>{selectedVideoIds.size} video(s)</strong> : 'no selected videos'}
+          {autoContext && ' plus the most relevant and top-performing ones'} as pattern context.
           {' · '}
           Shift+Enter for new lines.
         </div>
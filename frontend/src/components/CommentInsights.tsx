@@ -0,0 +1,181 @@
+import React from 'react';
+
+interface CommentHighlight {
+  comment_id: string;
+  video_id: string;
+  text: string;
+  like_count: number;
+  sentiment: string | null;
+}
+
+interface ThemeSummary {
+  theme: string;
+  count: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  example: string;
+}
+
+export interface CommentInsightsData {
+  total: number;
+  analyzed: number;
+  sentiment: {
+    positive: number;
+    neutral: number;
+    negative: number;
+    average_score: number;
+  };
+  questions: CommentHighlight[];
+  objections: CommentHighlight[];
+  themes: ThemeSummary[];
+  videos?: {
+    video_id: string;
+    title: string | null;
+    comments: number;
+    average_score: number;
+    negative_share: number;
+    questions: number;
+    objections: number;
+  }[];
+}
+
+interface CommentInsightsProps {
+  insights: CommentInsightsData;
+}
+
+const SENTIMENT_COLORS = {
+  positive: '#3fb950',
+  neutral: '#8b949e',
+  negative: '#f85149',
+};
+
+const sectionTitleStyle: React.CSSProperties = {
+  color: '#8b949e',
+  fontSize: '0.75rem',
+  fontWeight: 600,
+  textTransform: 'uppercase',
+  letterSpacing: '0.05em',
+  marginBottom: '0.5rem',
+};
+
+const HighlightList: React.FC<{ title: string; items: CommentHighlight[]; empty: string }> = ({ title, items, empty }) => (
+  <div style={{ flex: 1, minWidth: '260px' }}>
+    <div style={sectionTitleStyle}>{title}</div>
+    {items.length === 0 ? (
+      <div style={{ color: '#484f58', fontSize: '0.85rem' }}>{empty}</div>
+    ) : (
+      items.map((item) => (
+        <div
+          key={item.comment_id}
+          style={{
+            padding: '0.5rem 0.75rem',
+            marginBottom: '0.4rem',
+            backgroundColor: '#0d1117',
+            border: '1px solid #30363d',
+            borderRadius: '6px',
+            fontSize: '0.85rem',
+            color: '#c9d1d9',
+            lineHeight: 1.4,
+          }}
+        >
+          {item.text.length > 220 ? `${item.text.slice(0, 220)}…` : item.text}
+          <span style={{ color: '#8b949e', fontSize: '0.75rem', marginLeft: '0.5rem' }}>👍 {item.like_count.toLocaleString()}</span>
+        </div>
+      ))
+    )}
+  </div>
+);
+
+/**
+ * Sentiment bar, recurring themes and the most liked questions/objections
+ * for a set of analyzed comments
+ */
+export const CommentInsights: React.FC<CommentInsightsProps> = ({ insights }) => {
+  const { sentiment, analyzed, total } = insights;
+
+  if (total === 0) {
+    return null;
+  }
+
+  if (analyzed === 0) {
+    return (
+      <div style={{ color: '#8b949e', fontSize: '0.85rem', marginBottom: '1rem' }}>
+        {total} comment{total === 1 ? '' : 's'} stored, none analyzed yet.
+      </div>
+    );
+  }
+
+  return (
+    <div
+      style={{
+        padding: '1rem',
+        marginBottom: '1rem',
+        backgroundColor: '#161b22',
+        border: '1px solid #30363d',
+        borderRadius: '8px',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: '0.5rem' }}>
+        <div style={sectionTitleStyle}>Sentiment</div>
+        <div style={{ color: '#8b949e', fontSize: '0.75rem' }}>
+          {analyzed.toLocaleString()} of {total.toLocaleString()} analyzed · average {sentiment.average_score >= 0 ? '+' : ''}
+          {sentiment.average_score.toFixed(2)}
+        </div>
+      </div>
+      <div style={{ display: 'flex', height: '10px', borderRadius: '5px', overflow: 'hidden', backgroundColor: '#21262d' }}>
+        {(['positive', 'neutral', 'negative'] as const).map((key) =>
+          sentiment[key] > 0 ? (
+            <div
+              key={key}
+              title={`${key}: ${sentiment[key]}`}
+              style={{ width: `${(sentiment[key] / analyzed) * 100}%`, backgroundColor: SENTIMENT_COLORS[key] }}
+            />
+          ) : null
+        )}
+      </div>
+      <div style={{ display: 'flex', gap: '1rem', marginTop: '0.4rem', fontSize: '0.75rem' }}>
+        {(['positive', 'neutral', 'negative'] as const).map((key) => (
+          <span key={key} style={{ color: SENTIMENT_COLORS[key] }}>
+            {key} {Math.round((sentiment[key] / analyzed) * 100)}%
+          </span>
+        ))}
+      </div>
+
+      {insights.themes.length > 0 && (
+        <div style={{ marginTop: '1rem' }}>
+          <div style={sectionTitleStyle}>Themes</div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.4rem' }}>
+            {insights.themes.map((theme) => (
+              <span
+                key={theme.theme}
+                title={theme.example}
+                style={{
+                  padding: '0.2rem 0.6rem',
+                  borderRadius: '12px',
+                  fontSize: '0.8rem',
+                  backgroundColor: '#21262d',
+                  color: '#c9d1d9',
+                  border: `1px solid ${
+                    theme.negative > theme.positive
+                      ? SENTIMENT_COLORS.negative
+                      : theme.positive > theme.negative
+                        ? SENTIMENT_COLORS.positive
+                        : '#30363d'
+                  }`,
+                }}
+              >
+                {theme.theme} <span style={{ color: '#8b949e' }}>{theme.count}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', marginTop: '1rem' }}>
+        <HighlightList title="Top questions" items={insights.questions} empty="No questions found." />
+        <HighlightList title="Top objections" items={insights.objections} empty="No objections found." />
+      </div>
+    </div>
+  );
+};
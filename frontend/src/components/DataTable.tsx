@@ -72,12 +72,48 @@ export const DataTable: React.FC<DataTableProps> = ({
 
   const [showFilter, setShowFilter] = useState(false);
   const [sortBy, setSortBy] = useState<'none' | 'best-asc' | 'best-desc'>('none');
+  const [channelFilter, setChannelFilter] = useState<string>('all');
+  const [contentTypeFilter, setContentTypeFilter] = useState<string>('all');
+  const [availabilityFilter, setAvailabilityFilter] = useState<'all' | 'available' | 'gone'>('all');
+
+  // Distinct channels present in the data (only rows that carry a channel_id)
+  const channelOptions = React.useMemo(() => {
+    const channels = new Map<string, string>();
+    data.forEach((row) => {
+      if (row.channel_id && !channels.has(row.channel_id)) {
+        channels.set(row.channel_id, row.channel_name || row.channel_id);
+      }
+    });
+    return Array.from(channels, ([id, name]) => ({ id, name }));
+  }, [data]);
+
+  // Distinct content types present in the data (short / long / live / premiere)
+  const contentTypeOptions = React.useMemo(() => {
+    const types = new Set<string>();
+    data.forEach((row) => {
+      if (row.content_type) types.add(row.content_type);
+    });
+    return Array.from(types).sort();
+  }, [data]);
+
+  // Videos that sync found deleted or made private
+  const goneCount = React.useMemo(() => data.filter((row) => row.status === 'gone').length, [data]);
+
+  // Filter data by the selected channel, content type and availability
+  const filteredData = React.useMemo(() => {
+    if (channelFilter === 'all' && contentTypeFilter === 'all' && availabilityFilter === 'all') return data;
+    return data.filter((row) =>
+      (channelFilter === 'all' || row.channel_id === channelFilter) &&
+      (contentTypeFilter === 'all' || row.content_type === contentTypeFilter) &&
+      (availabilityFilter === 'all' || (row.status === 'gone') === (availabilityFilter === 'gone'))
+    );
+  }, [data, channelFilter, contentTypeFilter, availabilityFilter]);
 
   // Sort data based on sortBy selection
   const sortedData = React.useMemo(() => {
-    if (sortBy === 'none') return data;
+    if (sortBy === 'none') return filteredData;
     
-    const sorted = [...data].sort((a, b) => {
+    const sorted = [...filteredData].sort((a, b) => {
       // Use view_count as the primary metric for "best performing"
       const viewsA = a.view_count || 0;
       const viewsB = b.view_count || 0;
@@ -92,7 +128,7 @@ export const DataTable: React.FC<DataTableProps> = ({
     });
     
     return sorted;
-  }, [data, sortBy]);
+  }, [filteredData, sortBy]);
 
   // Update visibility when columns change
   useEffect(() => {
@@ -139,8 +175,29 @@ export const DataTable: React.FC<DataTableProps> = ({
     saveColumnVisibility(tableName, updated);
   };
 
-  const formatValue = (value: any, key: string): React.ReactNode => {
+  const formatValue = (value: any, key: string, row?: any): React.ReactNode => {
     if (value === null || value === undefined) return '—';
+
+    // Videos the API stopped returning get a "gone" badge
+    if (key === 'status' && value === 'gone') {
+      return (
+        <span
+          title={row?.removed_at ? `Deleted or made private (noticed ${new Date(row.removed_at).toLocaleString()})` : 'Deleted or made private'}
+          style={{
+            padding: '0.15rem 0.5rem',
+            backgroundColor: '#d2992222',
+            color: '#d29922',
+            border: '1px solid #d2992266',
+            borderRadius: '10px',
+            fontSize: '0.75rem',
+            fontWeight: 600,
+            textTransform: 'uppercase',
+          }}
+        >
+          Gone
+        </span>
+      );
+    }
     
     // Special handling for thumbnail URLs
     if (key === 'thumbnail_url' && typeof value === 'string' && value.startsWith('http')) {
@@ -225,6 +282,126 @@ export const DataTable: React.FC<DataTableProps> = ({
     <div style={{ marginTop: '1rem' }}>
       {/* Sort and Column Filter Buttons */}
       <div style={{ marginBottom: '0.5rem', display: 'flex', justifyContent: 'flex-end', gap: '0.5rem', position: 'relative' }}>
+        {/* Channel Filter Dropdown */}
+        {channelOptions.length > 1 && (
+          <div style={{ position: 'relative' }}>
+            <select
+              value={channelFilter}
+              onChange={(e) => setChannelFilter(e.target.value)}
+              style={{
+                padding: '0.5rem 1rem',
+                backgroundColor: '#21262d',
+                color: '#c9d1d9',
+                border: '1px solid #30363d',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '0.875rem',
+                appearance: 'none',
+                paddingRight: '2.5rem',
+              }}
+            >
+              <option value="all">Channel: All</option>
+              {channelOptions.map((channel) => (
+                <option key={channel.id} value={channel.id}>
+                  {channel.name}
+                </option>
+              ))}
+            </select>
+            <span
+              style={{
+                position: 'absolute',
+                right: '0.75rem',
+                top: '50%',
+                transform: 'translateY(-50%)',
+                pointerEvents: 'none',
+                color: '#8b949e',
+                fontSize: '0.7rem',
+              }}
+            >
+              ▼
+            </span>
+          </div>
+        )}
+
+        {/* Content Type Filter Dropdown */}
+        {contentTypeOptions.length > 1 && (
+          <div style={{ position: 'relative' }}>
+            <select
+              value={contentTypeFilter}
+              onChange={(e) => setContentTypeFilter(e.target.value)}
+              style={{
+                padding: '0.5rem 1rem',
+                backgroundColor: '#21262d',
+                color: '#c9d1d9',
+                border: '1px solid #30363d',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '0.875rem',
+                appearance: 'none',
+                paddingRight: '2.5rem',
+              }}
+            >
+              <option value="all">Type: All</option>
+              {contentTypeOptions.map((type) => (
+                <option key={type} value={type}>
+                  {type.charAt(0).toUpperCase() + type.slice(1)}
+                </option>
+              ))}
+            </select>
+            <span
+              style={{
+                position: 'absolute',
+                right: '0.75rem',
+                top: '50%',
+                transform: 'translateY(-50%)',
+                pointerEvents: 'none',
+                color: '#8b949e',
+                fontSize: '0.7rem',
+              }}
+            >
+              ▼
+            </span>
+          </div>
+        )}
+
+        {/* Availability Filter Dropdown */}
+        {goneCount > 0 && (
+          <div style={{ position: 'relative' }}>
+            <select
+              value={availabilityFilter}
+              onChange={(e) => setAvailabilityFilter(e.target.value as 'all' | 'available' | 'gone')}
+              style={{
+                padding: '0.5rem 1rem',
+                backgroundColor: '#21262d',
+                color: '#c9d1d9',
+                border: '1px solid #30363d',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '0.875rem',
+                appearance: 'none',
+                paddingRight: '2.5rem',
+              }}
+            >
+              <option value="all">Availability: All</option>
+              <option value="available">Available</option>
+              <option value="gone">Gone ({goneCount})</option>
+            </select>
+            <span
+              style={{
+                position: 'absolute',
+                right: '0.75rem',
+                top: '50%',
+                transform: 'translateY(-50%)',
+                pointerEvents: 'none',
+                color: '#8b949e',
+                fontSize: '0.7rem',
+              }}
+            >
+              ▼
+            </span>
+          </div>
+        )}
+
         {/* Sort Dropdown */}
         <div style={{ position: 'relative' }}>
           <select
@@ -484,6 +661,7 @@ export const DataTable: React.FC<DataTableProps> = ({
                 borderBottom: '1px solid #30363d',
                 transition: 'background-color 0.1s ease',
                 cursor: onRowClick ? 'pointer' : 'default',
+                opacity: row.status === 'gone' ? 0.6 : 1,
               }}
               onMouseEnter={(e) => {
                 e.currentTarget.style.backgroundColor = '#1f6feb11';
@@ -515,7 +693,7 @@ export const DataTable: React.FC<DataTableProps> = ({
                 >
                   {column.render
                     ? column.render(row[column.key], row)
-                    : formatValue(row[column.key], column.key)}
+                    : formatValue(row[column.key], column.key, row)}
                 </td>
               ))}
               {onActionClick && (
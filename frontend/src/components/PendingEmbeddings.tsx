@@ -15,9 +15,37 @@ interface PendingEmbedding {
   script: string | null;
   embedding_text: string | null;
   created_at?: string;
+  source_session_id?: string | null;
+  source_message_index?: number | null;
+  // Title of the chat the script was drafted from (null once it's deleted)
+  source_session?: { id: string; title: string } | null;
 }
 
-export const PendingEmbeddings: React.FC = () => {
+/**
+ * A chat message to open a conversation at
+ */
+export interface ChatMessageLink {
+  sessionId: string;
+  messageIndex: number | null;
+}
+
+/**
+ * A pending script drafted from a chatbot reply, to open in the editor
+ */
+export interface ScriptDraft {
+  fields: Partial<Pick<PendingEmbedding, 'topic' | 'format' | 'poc' | 'hook' | 'style' | 'gimmick' | 'end_cta' | 'script'>>;
+  source_session_id: string | null;
+  source_message_index: number | null;
+}
+
+interface PendingEmbeddingsProps {
+  // Opened as a new script once the list has loaded
+  draft?: ScriptDraft | null;
+  onDraftOpened?: () => void;
+  onOpenChat?: (link: ChatMessageLink) => void;
+}
+
+export const PendingEmbeddings: React.FC<PendingEmbeddingsProps> = ({ draft, onDraftOpened, onOpenChat }) => {
   const [embeddings, setEmbeddings] = useState<PendingEmbedding[]>([]);
   const [availableVideos, setAvailableVideos] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
@@ -33,6 +61,18 @@ export const PendingEmbeddings: React.FC = () => {
     fetchData();
   }, []);
 
+  useEffect(() => {
+    if (!draft) return;
+    setEditingData({
+      ...emptyEmbedding(),
+      ...draft.fields,
+      source_session_id: draft.source_session_id,
+      source_message_index: draft.source_message_index,
+    });
+    setEditingId('new');
+    onDraftOpened?.();
+  }, [draft]);
+
   const fetchData = async () => {
     try {
       setLoading(true);
@@ -60,21 +100,22 @@ export const PendingEmbeddings: React.FC = () => {
     }
   };
 
+  const emptyEmbedding = (): PendingEmbedding => ({
+    id: 'new',
+    video_id: null,
+    topic: null,
+    format: null,
+    poc: null,
+    hook: null,
+    style: null,
+    gimmick: null,
+    end_cta: null,
+    script: null,
+    embedding_text: null,
+  });
+
   const handleCreateNew = () => {
-    const newEmbedding: PendingEmbedding = {
-      id: 'new',
-      video_id: null,
-      topic: null,
-      format: null,
-      poc: null,
-      hook: null,
-      style: null,
-      gimmick: null,
-      end_cta: null,
-      script: null,
-      embedding_text: null,
-    };
-    setEditingData(newEmbedding);
+    setEditingData(emptyEmbedding());
     setEditingId('new');
   };
 
@@ -332,6 +373,12 @@ export const PendingEmbeddings: React.FC = () => {
             </div>
 
             <div style={{ padding: '2rem' }}>
+              {editingId === 'new' && editingData.source_session_id && (
+                <div style={{ marginBottom: '1.5rem', fontSize: '0.85rem', color: '#8b949e' }}>
+                  Prefilled from a chatbot reply. Check each field before saving; the script will link back to the conversation.
+                </div>
+              )}
+
               {/* Video Assignment Section in Edit Modal */}
               {isUnassigned(editingData.video_id) && availableVideos.length > 0 && (
                 <div
@@ -671,6 +718,27 @@ export const PendingEmbeddings: React.FC = () => {
                       {embedding.hook.length > 120 && '...'}
                     </div>
                   )}
+                  {(embedding.source_session_id || embedding.source_message_index != null) && (
+                    <div style={{ marginTop: '0.5rem', color: '#8b949e', fontSize: '0.75rem' }}>
+                      From chat:{' '}
+                      {embedding.source_session ? (
+                        <button
+                          onClick={() =>
+                            onOpenChat?.({
+                              sessionId: embedding.source_session!.id,
+                              messageIndex: embedding.source_message_index ?? null,
+                            })
+                          }
+                          title="Open the conversation at this reply"
+                          style={{ background: 'none', border: 'none', padding: 0, color: '#58a6ff', cursor: 'pointer', fontSize: '0.75rem' }}
+                        >
+                          {embedding.source_session.title}
+                        </button>
+                      ) : (
+                        <span style={{ fontStyle: 'italic' }}>conversation deleted</span>
+                      )}
+                    </div>
+                  )}
                 </div>
                 <div style={{ display: 'flex', gap: '0.5rem', marginLeft: '1rem' }}>
                   <button
@@ -1,59 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { apiClient } from '../config/api';
+import { PromptTemplatePicker, TemplateSelection, EMPTY_TEMPLATE_SELECTION, selectionVariables } from './PromptTemplatePicker';
 
 interface PromptAssistantProps {
   videos: any[];
 }
 
-const META_PROMPT = `You are a marketing strategist and creative copy generator for a SaaS product.
-
-Your role is to generate high-performing promotional content (hooks, scripts, captions, CTAs, angles, positioning statements) that is direct-response oriented, optimized for short-form and long-form digital platforms.
-
-You will be provided with structured JSON data representing selected video content. This data may include (but is not limited to):
-– topics
-– hooks
-– formats
-– scripts or notes
-– pacing
-– tone or style descriptors
-– gimmicks
-– endings / CTAs
-– performance indicators or qualitative trends
-
-Treat this JSON as ground truth pattern data.
-
-How to use the JSON:
-
-Extract recurring patterns, trends, and stylistic signals (e.g. hook structure, language choices, pacing, emotional triggers, narrative devices).
-
-Infer what works for this audience and product category without explicitly referencing the raw data.
-
-Use these patterns to influence the structure, tone, and creative decisions of your output.
-
-Output rules:
-
-– Do not summarize or restate the JSON.
-– Do not mention "the data," "the JSON," or "selected videos."
-– Produce original marketing content that feels native to the identified trends.
-– Favor clarity, memorability, and conversion over generic brand language.
-– When uncertain, default to bold, specific, and testable ideas rather than safe generalities.
-
-The user's prompt that follows represents the intent and goal of the content.
-
-Your task is to combine:
-– the user's intent
-– the inferred patterns from the provided data
-– best-practice SaaS marketing principles
-- the best practices for marketing on YouTube Shorts that are proven to work based on data in both the JSON and youtube landscape trends and historical data
-
-…to generate content that is distinct, compelling, and optimized to perform.`;
-
 export const PromptAssistant: React.FC<PromptAssistantProps> = ({ videos }) => {
   const [userPrompt, setUserPrompt] = useState('');
   const [selectedVideoIds, setSelectedVideoIds] = useState<Set<string>>(new Set());
   const [contextData, setContextData] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
   const [output, setOutput] = useState<string>('');
+  const [template, setTemplate] = useState<TemplateSelection>(EMPTY_TEMPLATE_SELECTION);
+  const [templateError, setTemplateError] = useState<string | null>(null);
   const [sortBy, setSortBy] = useState<'none' | 'views-desc' | 'views-asc' | 'engagement-desc' | 'engagement-asc'>('views-desc');
 
   // Sort videos based on sortBy selection
@@ -126,29 +86,46 @@ export const PromptAssistant: React.FC<PromptAssistantProps> = ({ videos }) => {
   }, [selectedVideoIds, videos]);
 
   useEffect(() => {
-    generateOutput();
-  }, [userPrompt, contextData]);
-
-  const generateOutput = () => {
     if (!userPrompt.trim() || contextData.length === 0) {
       setOutput('');
       return;
     }
 
+    // Ignore renders that finish after the inputs changed again
+    let cancelled = false;
+    generateOutput().then((formattedOutput) => {
+      if (!cancelled) setOutput(formattedOutput);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userPrompt, contextData, template]);
+
+  const generateOutput = async (): Promise<string> => {
+    let systemPrompt: string;
+    try {
+      setTemplateError(null);
+      const response = await apiClient.post(`/api/prompt-templates/${template.templateId || 'default'}/render`, {
+        variables: selectionVariables(template),
+      });
+      systemPrompt = response.data.data.text;
+    } catch (err: any) {
+      setTemplateError(err.response?.data?.error?.message || err.message || 'Failed to render the prompt template');
+      return '';
+    }
+
     const contextJson = JSON.stringify(contextData, null, 2);
     
-    const formattedOutput = `${userPrompt}
+    return `${userPrompt}
 
 ---
 
-${META_PROMPT}
+${systemPrompt}
 
 ---
 
 Context:
 ${contextJson}`;
-
-    setOutput(formattedOutput);
   };
 
   const toggleVideoSelection = (videoId: string) => {
@@ -234,6 +211,14 @@ ${contextJson}`;
         />
       </div>
 
+      {/* Prompt Template */}
+      <div style={{ marginBottom: '2rem' }}>
+        <PromptTemplatePicker value={template} onChange={setTemplate} />
+        {templateError && (
+          <div style={{ marginTop: '0.5rem', color: '#f85149', fontSize: '0.85rem' }}>{templateError}</div>
+        )}
+      </div>
+
       {/* Video Selection */}
       <div style={{ marginBottom: '2rem' }}>
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem', flexWrap: 'wrap', gap: '0.75rem' }}>
@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { apiClient } from '../config/api';
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  is_default: boolean;
+  built_in: boolean;
+  current_version: number;
+  variables: string[];
+  body: string;
+  defaults: Record<string, string>;
+}
+
+// An empty templateId means the default template
+export interface TemplateSelection {
+  templateId: string;
+  variables: Record<string, string>;
+  // An earlier version pinned by a restored conversation; the current one otherwise
+  version?: number;
+}
+
+export const EMPTY_TEMPLATE_SELECTION: TemplateSelection = { templateId: '', variables: {} };
+
+interface PromptTemplatePickerProps {
+  value: TemplateSelection;
+  onChange: (value: TemplateSelection) => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.4rem 0.6rem',
+  backgroundColor: '#0d1117',
+  color: '#c9d1d9',
+  border: '1px solid #30363d',
+  borderRadius: '6px',
+  fontSize: '0.8rem',
+};
+
+const labelStyle: React.CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '0.3rem',
+  color: '#8b949e',
+  fontSize: '0.75rem',
+  fontWeight: 600,
+};
+
+/**
+ * The variable values of a selection that the template actually uses, for
+ * sending with a request
+ */
+export const selectionVariables = (selection: TemplateSelection): Record<string, string> =>
+  Object.fromEntries(Object.entries(selection.variables).filter(([, value]) => value.trim()));
+
+/**
+ * Pick a prompt template and fill in its {{variables}}. Empty variables use
+ * the template's defaults; the chosen template can be made the default.
+ */
+export const PromptTemplatePicker: React.FC<PromptTemplatePickerProps> = ({ value, onChange }) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const fetchTemplates = async () => {
+    try {
+      setError(null);
+      const response = await apiClient.get('/api/prompt-templates');
+      setTemplates(response.data.data || []);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to load prompt templates');
+    }
+  };
+
+  const makeDefault = async (templateId: string) => {
+    try {
+      setError(null);
+      const response = await apiClient.post(`/api/prompt-templates/${templateId}/default`);
+      setTemplates(response.data.data || []);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to set the default template');
+    }
+  };
+
+  const defaultTemplate = templates.find((t) => t.is_default);
+  const template = value.templateId ? templates.find((t) => t.id === value.templateId) : defaultTemplate;
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        gap: '1rem',
+        flexWrap: 'wrap',
+        alignItems: 'flex-end',
+        padding: '0.875rem 1rem',
+        border: '1px solid #30363d',
+        borderRadius: '8px',
+        backgroundColor: '#161b22',
+      }}
+    >
+      <label style={labelStyle}>
+        Prompt template
+        <select
+          value={value.templateId}
+          onChange={(e) => onChange({ ...value, templateId: e.target.value, version: undefined })}
+          style={{ ...inputStyle, cursor: 'pointer', minWidth: '220px' }}
+        >
+          <option value="">Default{defaultTemplate ? ` (${defaultTemplate.name})` : ''}</option>
+          {templates.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name} · v{t.current_version}
+            </option>
+          ))}
+        </select>
+      </label>
+      {template?.variables.map((name) => (
+        <label key={name} style={labelStyle}>
+          {name}
+          <input
+            value={value.variables[name] || ''}
+            onChange={(e) => onChange({ ...value, variables: { ...value.variables, [name]: e.target.value } })}
+            placeholder={template.defaults[name] || 'required'}
+            style={{ ...inputStyle, width: '180px' }}
+          />
+        </label>
+      ))}
+      {template && value.version !== undefined && value.version !== template.current_version && (
+        <span style={{ color: '#d29922', fontSize: '0.75rem', paddingBottom: '0.45rem' }}>
+          Pinned to v{value.version} from this conversation{' '}
+          <button
+            onClick={() => onChange({ ...value, version: undefined })}
+            style={{ background: 'none', border: 'none', color: '#58a6ff', cursor: 'pointer', fontSize: '0.75rem', padding: 0 }}
+          >
+            Use v{template.current_version}
+          </button>
+        </span>
+      )}
+      {template && !template.is_default && (
+        <button
+          onClick={() => makeDefault(template.id)}
+          title="Use this template whenever none is picked"
+          style={{
+            padding: '0.4rem 0.75rem',
+            backgroundColor: '#21262d',
+            color: '#c9d1d9',
+            border: '1px solid #30363d',
+            borderRadius: '6px',
+            cursor: 'pointer',
+            fontSize: '0.8rem',
+          }}
+        >
+          Make default
+        </button>
+      )}
+      {template?.description && (
+        <span style={{ color: '#8b949e', fontSize: '0.75rem', paddingBottom: '0.45rem' }}>{template.description}</span>
+      )}
+      {error && <span style={{ color: '#f85149', fontSize: '0.75rem', paddingBottom: '0.45rem' }}>{error}</span>}
+    </div>
+  );
+};
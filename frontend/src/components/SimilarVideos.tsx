@@ -0,0 +1,217 @@
+import React, { useState, useEffect } from 'react';
+import { apiClient } from '../config/api';
+
+interface SimilarVideo {
+  video_id: string;
+  title: string | null;
+  thumbnail_url: string | null;
+  published_at: string | null;
+  view_count: number;
+  engagement_rate: number;
+  views_per_day: number;
+  similarity: number | null;
+  score: number;
+  shared: string[];
+}
+
+interface SimilarVideosData {
+  video_id: string;
+  has_vector: boolean;
+  similar: SimilarVideo[];
+  summary: {
+    count: number;
+    median_views: number | null;
+    median_engagement_rate: number | null;
+  };
+}
+
+interface SimilarVideosProps {
+  videoId: string;
+  // The open video's own numbers, compared against its neighbours' medians
+  viewCount: number | null;
+  engagementRate: number | null;
+}
+
+const SHARED_LABELS: Record<string, string> = {
+  topic: 'Same topic',
+  format: 'Same format',
+  style: 'Same style',
+  gimmick: 'Same gimmick',
+  end_cta: 'Same end CTA',
+};
+
+const formatCount = (value: number) => {
+  if (value >= 1000000) return (value / 1000000).toFixed(2) + 'M';
+  if (value >= 1000) return (value / 1000).toFixed(1) + 'K';
+  return value.toLocaleString();
+};
+
+const formatEngagement = (value: number | null) => (value ? (value * 100).toFixed(2) + '%' : 'N/A');
+
+/**
+ * The open video's difference to a median, e.g. "(this video +35%)"
+ */
+const renderDelta = (value: number | null, median: number | null) => {
+  if (value === null || !median) return null;
+  const delta = (value - median) / median;
+  return (
+    <span style={{ marginLeft: '0.35rem' }}>
+      (this video{' '}
+      <span style={{ color: delta >= 0 ? '#3fb950' : '#f85149', fontWeight: 600 }}>
+        {delta >= 0 ? '+' : ''}
+        {Math.round(delta * 100)}%
+      </span>
+      )
+    </span>
+  );
+};
+
+/**
+ * Past videos most similar to the open one (by embedding vector and shared
+ * attributes), ranked, with their views and engagement against the median
+ */
+export const SimilarVideos: React.FC<SimilarVideosProps> = ({ videoId, viewCount, engagementRate }) => {
+  const [data, setData] = useState<SimilarVideosData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSimilar();
+  }, [videoId]);
+
+  const fetchSimilar = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await apiClient.get(`/api/youtube/embeddings/${videoId}/similar`);
+      setData(response.data.data);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to fetch similar videos');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div style={{ textAlign: 'center', padding: '2rem', color: '#484f58', fontSize: '0.9rem' }}>
+        Finding similar videos...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div style={{ padding: '1rem', color: '#f85149', fontSize: '0.85rem' }}>{error}</div>;
+  }
+
+  if (!data || data.similar.length === 0) {
+    return (
+      <div style={{ textAlign: 'center', padding: '2rem', color: '#484f58', fontSize: '0.9rem' }}>
+        {data && !data.has_vector
+          ? 'Fill in this video\'s embedding fields to find similar videos.'
+          : 'No similar videos found.'}
+      </div>
+    );
+  }
+
+  const { summary } = data;
+
+  return (
+    <div>
+      <div
+        style={{
+          display: 'flex',
+          gap: '2rem',
+          padding: '0.875rem 1rem',
+          marginBottom: '0.75rem',
+          backgroundColor: '#0d1117',
+          border: '1px solid #30363d',
+          borderRadius: '8px',
+          fontSize: '0.85rem',
+          color: '#8b949e',
+          flexWrap: 'wrap',
+        }}
+      >
+        <span>
+          Median views of {summary.count} similar:{' '}
+          <strong style={{ color: '#c9d1d9' }}>{summary.median_views !== null ? formatCount(summary.median_views) : 'N/A'}</strong>
+          {renderDelta(viewCount, summary.median_views)}
+        </span>
+        <span>
+          Median engagement:{' '}
+          <strong style={{ color: '#c9d1d9' }}>{formatEngagement(summary.median_engagement_rate)}</strong>
+          {renderDelta(engagementRate, summary.median_engagement_rate)}
+        </span>
+        {!data.has_vector && <span>Attribute matches only (no embedding text yet)</span>}
+      </div>
+
+      {data.similar.map((item, index) => (
+        <div
+          key={item.video_id}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '0.875rem',
+            padding: '0.625rem 0.75rem',
+            marginBottom: '0.5rem',
+            backgroundColor: '#0d1117',
+            border: '1px solid #30363d',
+            borderRadius: '6px',
+          }}
+        >
+          <span style={{ color: '#484f58', fontWeight: 700, fontSize: '0.85rem', width: '1.5rem', textAlign: 'right' }}>
+            {index + 1}
+          </span>
+          {item.thumbnail_url && (
+            <img
+              src={item.thumbnail_url}
+              alt=""
+              style={{ width: '48px', height: '64px', objectFit: 'cover', borderRadius: '4px', flexShrink: 0 }}
+            />
+          )}
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <a
+              href={`https://www.youtube.com/shorts/${item.video_id}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              style={{
+                color: '#c9d1d9',
+                fontSize: '0.875rem',
+                fontWeight: 600,
+                textDecoration: 'none',
+                display: 'block',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {item.title || item.video_id}
+            </a>
+            <div style={{ display: 'flex', gap: '0.35rem', flexWrap: 'wrap', marginTop: '0.35rem' }}>
+              {item.similarity !== null && (
+                <span style={{ padding: '0.1rem 0.45rem', borderRadius: '10px', fontSize: '0.7rem', backgroundColor: '#1f6feb33', color: '#58a6ff' }}>
+                  {Math.round(item.similarity * 100)}% similar
+                </span>
+              )}
+              {item.shared.map((reason) => (
+                <span
+                  key={reason}
+                  style={{ padding: '0.1rem 0.45rem', borderRadius: '10px', fontSize: '0.7rem', backgroundColor: '#21262d', color: '#8b949e', border: '1px solid #30363d' }}
+                >
+                  {SHARED_LABELS[reason] || reason}
+                </span>
+              ))}
+            </div>
+          </div>
+          <div style={{ textAlign: 'right', fontSize: '0.8rem', color: '#8b949e', flexShrink: 0 }}>
+            <div>
+              <strong style={{ color: '#c9d1d9' }}>{formatCount(item.view_count)}</strong> views
+            </div>
+            <div>{formatEngagement(item.engagement_rate)} eng.</div>
+            {item.published_at && <div style={{ fontSize: '0.7rem' }}>{new Date(item.published_at).toLocaleDateString()}</div>}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { apiClient } from '../config/api';
+
+interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface VideoTranscript {
+  video_id: string;
+  source: 'captions' | 'upload';
+  language: string | null;
+  segments: TranscriptSegment[];
+  text: string;
+  imported_at: string;
+}
+
+interface TranscriptPanelProps {
+  videoId: string;
+  onTranscriptLoaded?: (transcript: VideoTranscript | null) => void;
+  onUseAsScript: (text: string) => void;
+}
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.floor(seconds % 60);
+  return `${minutes}:${rest.toString().padStart(2, '0')}`;
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '0.4rem 0.75rem',
+  backgroundColor: '#21262d',
+  color: '#c9d1d9',
+  border: '1px solid #30363d',
+  borderRadius: '6px',
+  cursor: 'pointer',
+  fontSize: '0.8rem',
+  fontWeight: 600,
+};
+
+/**
+ * Timed transcript for a video, with caption import and .srt/.vtt upload
+ */
+export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ videoId, onTranscriptLoaded, onUseAsScript }) => {
+  const [transcript, setTranscript] = useState<VideoTranscript | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetchTranscript();
+  }, [videoId]);
+
+  const applyTranscript = (data: VideoTranscript | null) => {
+    setTranscript(data);
+    if (onTranscriptLoaded) {
+      onTranscriptLoaded(data);
+    }
+  };
+
+  const fetchTranscript = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await apiClient.get(`/api/youtube/transcripts/${videoId}`);
+      applyTranscript(response.data.data || null);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to fetch transcript');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFetchCaptions = async () => {
+    try {
+      setImporting(true);
+      setError(null);
+      const response = await apiClient.post(`/api/youtube/transcripts/${videoId}/captions`, {});
+      applyTranscript(response.data.data);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to fetch captions');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires onChange
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setImporting(true);
+      setError(null);
+      const content = await file.text();
+      const response = await apiClient.post(`/api/youtube/transcripts/${videoId}/upload`, {
+        filename: file.name,
+        content,
+      });
+      applyTranscript(response.data.data);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to upload transcript');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        backgroundColor: '#0d1117',
+        border: '1px solid #30363d',
+        borderRadius: '8px',
+        display: 'flex',
+        flexDirection: 'column',
+        maxHeight: '70vh',
+      }}
+    >
+      <div style={{ padding: '0.875rem 1rem', borderBottom: '1px solid #30363d' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: '0.6rem' }}>
+          <span style={{ color: '#c9d1d9', fontWeight: 600, fontSize: '0.9rem' }}>Transcript</span>
+          {transcript && (
+            <span style={{ color: '#8b949e', fontSize: '0.75rem' }}>
+              {transcript.source === 'captions' ? 'Captions' : 'Uploaded file'}
+              {transcript.language ? ` · ${transcript.language}` : ''}
+            </span>
+          )}
+        </div>
+        <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+          <button type="button" onClick={handleFetchCaptions} disabled={importing} style={buttonStyle}>
+            Fetch captions
+          </button>
+          <button type="button" onClick={() => fileInputRef.current?.click()} disabled={importing} style={buttonStyle}>
+            Upload .srt/.vtt
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".srt,.vtt"
+            onChange={handleFileSelected}
+            style={{ display: 'none' }}
+          />
+          {transcript && (
+            <button
+              type="button"
+              onClick={() => onUseAsScript(transcript.text)}
+              disabled={importing}
+              style={{ ...buttonStyle, backgroundColor: '#1f6feb', borderColor: '#1f6feb', color: 'white' }}
+            >
+              Use as script
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div style={{ padding: '0.6rem 1rem', color: '#ff7b72', fontSize: '0.8rem', borderBottom: '1px solid #30363d' }}>
+          {error}
+        </div>
+      )}
+
+      <div style={{ overflowY: 'auto', padding: '0.5rem 0' }}>
+        {loading || importing ? (
+          <div style={{ padding: '1.5rem', textAlign: 'center', color: '#8b949e', fontSize: '0.85rem' }}>
+            {importing ? 'Importing transcript...' : 'Loading transcript...'}
+          </div>
+        ) : !transcript ? (
+          <div style={{ padding: '1.5rem', textAlign: 'center', color: '#484f58', fontSize: '0.85rem' }}>
+            No transcript yet. Fetch the video's captions or upload a subtitle file.
+          </div>
+        ) : (
+          transcript.segments.map((segment, index) => (
+            <div key={index} style={{ display: 'flex', gap: '0.75rem', padding: '0.35rem 1rem', fontSize: '0.85rem', lineHeight: 1.45 }}>
+              <span style={{ color: '#58a6ff', fontFamily: 'Monaco, Menlo, monospace', fontSize: '0.75rem', flexShrink: 0, paddingTop: '0.1rem' }}>
+                {formatTime(segment.start)}
+              </span>
+              <span style={{ color: '#c9d1d9' }}>{segment.text}</span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
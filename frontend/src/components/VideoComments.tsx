@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import { apiClient } from '../config/api';
+import { CommentInsights, CommentInsightsData } from './CommentInsights';
+
+interface VideoComment {
+  comment_id: string;
+  author_display_name: string | null;
+  author_profile_image_url: string | null;
+  text: string;
+  like_count: number;
+  reply_count: number;
+  published_at: string;
+  edited_at: string | null;
+  first_seen_at: string;
+}
+
+interface VideoCommentsProps {
+  videoId: string;
+}
+
+export const VideoComments: React.FC<VideoCommentsProps> = ({ videoId }) => {
+  const [comments, setComments] = useState<VideoComment[]>([]);
+  const [total, setTotal] = useState(0);
+  const [syncedAt, setSyncedAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [sortBy, setSortBy] = useState<'newest' | 'likes'>('newest');
+  const [newOnly, setNewOnly] = useState(false);
+  const [insights, setInsights] = useState<CommentInsightsData | null>(null);
+
+  useEffect(() => {
+    fetchInsights();
+  }, [videoId]);
+
+  // Debounce search so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(fetchComments, search ? 300 : 0);
+    return () => clearTimeout(timer);
+  }, [videoId, search, sortBy, newOnly]);
+
+  const fetchComments = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await apiClient.get(`/api/youtube/comments/${videoId}`, {
+        params: {
+          q: search || undefined,
+          sort: sortBy,
+          new: newOnly ? 'true' : undefined,
+        },
+      });
+      if (response.data.success) {
+        setComments(response.data.data);
+        setTotal(response.data.count);
+        setSyncedAt(response.data.comments_synced_at);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to fetch comments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchInsights = async () => {
+    try {
+      const response = await apiClient.get(`/api/youtube/comments/${videoId}/insights`);
+      if (response.data.success) {
+        setInsights(response.data.data);
+      }
+    } catch (err: any) {
+      // Insights are supplementary; the comment list still works without them
+      console.warn('Could not fetch comment insights:', err);
+      setInsights(null);
+    }
+  };
+
+  const controlStyle: React.CSSProperties = {
+    padding: '0.5rem 0.75rem',
+    backgroundColor: '#0d1117',
+    color: '#c9d1d9',
+    border: '1px solid #30363d',
+    borderRadius: '6px',
+    fontSize: '0.85rem',
+  };
+
+  return (
+    <div>
+      {insights && <CommentInsights insights={insights} />}
+
+      <div style={{ display: 'flex', gap: '0.75rem', marginBottom: '1rem', flexWrap: 'wrap', alignItems: 'center' }}>
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search comments..."
+          style={{ ...controlStyle, flex: 1, minWidth: '200px' }}
+        />
+        <select
+          value={sortBy}
+          onChange={(e) => setSortBy(e.target.value as 'newest' | 'likes')}
+          style={{ ...controlStyle, cursor: 'pointer' }}
+        >
+          <option value="newest">Newest first</option>
+          <option value="likes">Most liked</option>
+        </select>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', color: '#c9d1d9', fontSize: '0.85rem', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={newOnly}
+            onChange={(e) => setNewOnly(e.target.checked)}
+          />
+          New since last sync
+        </label>
+      </div>
+
+      <div style={{ color: '#8b949e', fontSize: '0.8rem', marginBottom: '1rem' }}>
+        {total} comment{total === 1 ? '' : 's'}
+        {syncedAt ? ` · comments last synced ${new Date(syncedAt).toLocaleString()}` : ' · comments not synced yet'}
+      </div>
+
+      {error && (
+        <div style={{ padding: '0.75rem 1rem', backgroundColor: '#3d1214', color: '#ff7b72', borderRadius: '6px', marginBottom: '1rem', fontSize: '0.85rem' }}>
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div style={{ textAlign: 'center', padding: '2rem', color: '#8b949e' }}>Loading comments...</div>
+      ) : comments.length === 0 ? (
+        <div style={{ textAlign: 'center', padding: '2rem', color: '#484f58', fontSize: '0.9rem' }}>
+          {search || newOnly ? 'No comments match these filters.' : 'No comments stored for this video yet.'}
+        </div>
+      ) : (
+        comments.map((comment) => (
+          <div
+            key={comment.comment_id}
+            style={{
+              display: 'flex',
+              gap: '0.75rem',
+              padding: '0.875rem 1rem',
+              marginBottom: '0.5rem',
+              backgroundColor: '#0d1117',
+              border: '1px solid #30363d',
+              borderRadius: '8px',
+            }}
+          >
+            {comment.author_profile_image_url ? (
+              <img
+                src={comment.author_profile_image_url}
+                alt=""
+                style={{ width: '32px', height: '32px', borderRadius: '50%', flexShrink: 0 }}
+              />
+            ) : (
+              <div style={{ width: '32px', height: '32px', borderRadius: '50%', backgroundColor: '#21262d', flexShrink: 0 }} />
+            )}
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'baseline', marginBottom: '0.25rem', flexWrap: 'wrap' }}>
+                <span style={{ color: '#c9d1d9', fontWeight: 600, fontSize: '0.85rem' }}>
+                  {comment.author_display_name || 'Unknown'}
+                </span>
+                <span style={{ color: '#8b949e', fontSize: '0.75rem' }}>
+                  {new Date(comment.published_at).toLocaleString()}
+                  {comment.edited_at && ' (edited)'}
+                </span>
+                {syncedAt && comment.first_seen_at >= syncedAt && (
+                  <span style={{ color: '#3fb950', fontSize: '0.7rem', fontWeight: 600, textTransform: 'uppercase' }}>New</span>
+                )}
+              </div>
+              <div style={{ color: '#c9d1d9', fontSize: '0.875rem', lineHeight: 1.5, whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                {comment.text}
+              </div>
+              <div style={{ color: '#8b949e', fontSize: '0.75rem', marginTop: '0.4rem' }}>
+                👍 {comment.like_count.toLocaleString()} · {comment.reply_count} repl{comment.reply_count === 1 ? 'y' : 'ies'}
+              </div>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,31 @@
 import React, { useState, useEffect } from 'react';
 import { apiClient } from '../config/api';
-import { ViewsChart } from './ViewsChart';
+import { ViewsChart, ChartMarker } from './ViewsChart';
+import { VideoComments } from './VideoComments';
+import { SimilarVideos } from './SimilarVideos';
+
+interface VideoRevision {
+  id: string;
+  field: 'title' | 'description' | 'tags' | 'thumbnail';
+  previous_value: any;
+  new_value: any;
+  previous_synced_at: string | null;
+  changed_at: string;
+}
+
+const REVISION_FIELD_LABELS: Record<VideoRevision['field'], string> = {
+  title: 'Title',
+  description: 'Description',
+  tags: 'Tags',
+  thumbnail: 'Thumbnail',
+};
+
+const describeRevisionValue = (revision: VideoRevision, value: any): string => {
+  if (value === null || value === undefined) return '—';
+  if (revision.field === 'tags') return Array.isArray(value) && value.length > 0 ? value.join(', ') : '—';
+  if (revision.field === 'thumbnail') return value.url || '—';
+  return String(value);
+};
 
 interface VideoDetailViewProps {
   video: any; // Full video row from youtube_videos
@@ -13,10 +38,13 @@ export const VideoDetailView: React.FC<VideoDetailViewProps> = ({ video, onClose
   const [error, setError] = useState<string | null>(null);
   const [statsData, setStatsData] = useState<any[]>([]);
   const [statsLoading, setStatsLoading] = useState(true);
+  const [revisions, setRevisions] = useState<VideoRevision[]>([]);
+  const [activeTab, setActiveTab] = useState<'overview' | 'comments'>('overview');
 
   useEffect(() => {
     fetchEmbedding();
     fetchStats();
+    fetchRevisions();
   }, [video.video_id]);
 
   const fetchEmbedding = async () => {
@@ -84,6 +112,29 @@ export const VideoDetailView: React.FC<VideoDetailViewProps> = ({ video, onClose
     }
   };
 
+  const fetchRevisions = async () => {
+    try {
+      const response = await apiClient.get(`/api/youtube/revisions/${video.video_id}`);
+      if (response.data.success) {
+        setRevisions(response.data.data || []);
+      }
+    } catch (err: any) {
+      console.log('No revision history available:', err.message);
+      setRevisions([]);
+    }
+  };
+
+  // One chart marker per sync that noticed changes, listing every field changed
+  const revisionMarkers: ChartMarker[] = Object.values(
+    revisions.reduce<Record<string, VideoRevision[]>>((groups, revision) => {
+      (groups[revision.changed_at] ||= []).push(revision);
+      return groups;
+    }, {})
+  ).map((group) => ({
+    date: new Date(group[0].changed_at),
+    label: `${group.map((r) => REVISION_FIELD_LABELS[r.field]).join(', ')} changed (noticed ${new Date(group[0].changed_at).toLocaleString()})`,
+  }));
+
   const formatValue = (value: any): string => {
     if (value === null || value === undefined) return '-';
     if (typeof value === 'boolean') return value ? 'Yes' : 'No';
@@ -156,6 +207,8 @@ export const VideoDetailView: React.FC<VideoDetailViewProps> = ({ video, onClose
         { key: 'title', label: 'Title' },
         { key: 'channel_name', label: 'Channel Name' },
         { key: 'published_at', label: 'Published At' },
+        { key: 'status', label: 'Status' },
+        { key: 'removed_at', label: 'Removed At' },
       ],
     },
     {
@@ -278,6 +331,23 @@ export const VideoDetailView: React.FC<VideoDetailViewProps> = ({ video, onClose
             {video.title && (
               <p style={{ margin: '0.4rem 0 0 0', color: '#8b949e', fontSize: '0.875rem', fontWeight: 500 }}>
                 {video.title}
+                {video.status === 'gone' && (
+                  <span
+                    style={{
+                      marginLeft: '0.5rem',
+                      padding: '0.1rem 0.5rem',
+                      backgroundColor: '#d2992222',
+                      color: '#d29922',
+                      border: '1px solid #d2992266',
+                      borderRadius: '10px',
+                      fontSize: '0.7rem',
+                      fontWeight: 600,
+                      textTransform: 'uppercase',
+                    }}
+                  >
+                    Gone
+                  </span>
+                )}
               </p>
             )}
           </div>
@@ -302,7 +372,51 @@ export const VideoDetailView: React.FC<VideoDetailViewProps> = ({ video, onClose
 
         {/* Content */}
         <div style={{ padding: '2rem' }}>
-          {loading ? (
+          {video.status === 'gone' && (
+            <div
+              style={{
+                padding: '1rem 1.25rem',
+                backgroundColor: '#3d2b11',
+                color: '#e3b341',
+                borderRadius: '8px',
+                marginBottom: '1.5rem',
+                border: '1px solid #9e6a03',
+                fontSize: '0.9rem',
+              }}
+            >
+              This video was deleted or made private
+              {video.removed_at && <> (noticed {new Date(video.removed_at).toLocaleString()})</>}.
+              Its numbers are frozen at the last sync and it is no longer snapshotted.
+            </div>
+          )}
+          {/* Tabs */}
+          <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1.5rem', borderBottom: '1px solid #30363d' }}>
+            {(['overview', 'comments'] as const).map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                style={{
+                  padding: '0.6rem 1rem',
+                  backgroundColor: 'transparent',
+                  color: activeTab === tab ? '#f0f6fc' : '#8b949e',
+                  border: 'none',
+                  borderBottom: activeTab === tab ? '2px solid #f78166' : '2px solid transparent',
+                  cursor: 'pointer',
+                  fontSize: '0.9rem',
+                  fontWeight: activeTab === tab ? 600 : 400,
+                  marginBottom: '-1px',
+                }}
+              >
+                {tab === 'overview'
+                  ? 'Overview'
+                  : `Comments${video.comment_count ? ` (${video.comment_count.toLocaleString()})` : ''}`}
+              </button>
+            ))}
+          </div>
+
+          {activeTab === 'comments' ? (
+            <VideoComments videoId={video.video_id} />
+          ) : loading ? (
             <div style={{ textAlign: 'center', padding: '3rem' }}>
               <div style={{ animation: 'pulse 1.5s infinite', color: '#8b949e', fontSize: '1rem' }}>Fetching video intelligence...</div>
             </div>
@@ -432,7 +546,7 @@ export const VideoDetailView: React.FC<VideoDetailViewProps> = ({ video, onClose
                       <div style={{ animation: 'pulse 1.5s infinite' }}>Analyzing historical data...</div>
                     </div>
                   ) : statsData.length > 0 ? (
-                    <ViewsChart data={statsData} width={920} height={320} />
+                    <ViewsChart data={statsData} markers={revisionMarkers} width={920} height={320} />
                   ) : (
                     <div style={{ textAlign: 'center', padding: '3rem', color: '#484f58', fontSize: '0.9rem' }}>
                       No historical performance data available yet.
@@ -441,6 +555,81 @@ export const VideoDetailView: React.FC<VideoDetailViewProps> = ({ video, onClose
                 </div>
               </div>
 
+              {/* Metadata Change History */}
+              {revisions.length > 0 && (
+                <div style={{ marginBottom: '2.5rem' }}>
+                  <h3
+                    style={{
+                      fontSize: '0.8rem',
+                      fontWeight: 700,
+                      color: '#8b949e',
+                      marginBottom: '1.25rem',
+                      paddingBottom: '0.5rem',
+                      borderBottom: '1px solid #30363d',
+                      textTransform: 'uppercase',
+                      letterSpacing: '0.1em'
+                    }}
+                  >
+                    Change History ({revisions.length})
+                  </h3>
+                  {[...revisions].reverse().map((revision) => (
+                    <div
+                      key={revision.id}
+                      style={{
+                        padding: '0.75rem 1rem',
+                        marginBottom: '0.5rem',
+                        backgroundColor: '#0d1117',
+                        border: '1px solid #30363d',
+                        borderLeft: '3px solid #d29922',
+                        borderRadius: '6px',
+                        fontSize: '0.85rem',
+                      }}
+                    >
+                      <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '0.4rem' }}>
+                        <span style={{ color: '#d29922', fontWeight: 600 }}>{REVISION_FIELD_LABELS[revision.field]}</span>
+                        <span
+                          style={{ color: '#8b949e', fontSize: '0.75rem' }}
+                          title={revision.previous_synced_at ? `Changed after ${new Date(revision.previous_synced_at).toLocaleString()}` : undefined}
+                        >
+                          {new Date(revision.changed_at).toLocaleString()}
+                        </span>
+                      </div>
+                      <div style={{ color: '#8b949e', textDecoration: 'line-through', wordBreak: 'break-word', whiteSpace: 'pre-wrap' }}>
+                        {describeRevisionValue(revision, revision.previous_value)}
+                      </div>
+                      <div style={{ color: '#c9d1d9', wordBreak: 'break-word', whiteSpace: 'pre-wrap' }}>
+                        {revision.field === 'thumbnail' && revision.previous_value?.url === revision.new_value?.url
+                          ? 'New image at the same URL'
+                          : describeRevisionValue(revision, revision.new_value)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Similar Videos */}
+              <div style={{ marginBottom: '2.5rem' }}>
+                <h3
+                  style={{
+                    fontSize: '0.8rem',
+                    fontWeight: 700,
+                    color: '#8b949e',
+                    marginBottom: '1.25rem',
+                    paddingBottom: '0.5rem',
+                    borderBottom: '1px solid #30363d',
+                    textTransform: 'uppercase',
+                    letterSpacing: '0.1em'
+                  }}
+                >
+                  Similar Videos
+                </h3>
+                <SimilarVideos
+                  videoId={video.video_id}
+                  viewCount={video.view_count ?? null}
+                  engagementRate={video.engagement_rate ?? null}
+                />
+              </div>
+
               {/* Embedding Sections */}
               {embedding ? (
                 embeddingSections.map((section) => (
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { apiClient } from '../config/api';
+import { TranscriptPanel, VideoTranscript } from './TranscriptPanel';
 
 interface VideoEmbedding {
   id?: string;
@@ -45,6 +46,7 @@ export const VideoEmbeddingsEditor: React.FC<VideoEmbeddingsEditorProps> = ({
   const [showAssignmentModal, setShowAssignmentModal] = useState(false);
   const [selectedUnassignedId, setSelectedUnassignedId] = useState<string>('');
   const [linking, setLinking] = useState(false);
+  const [transcript, setTranscript] = useState<VideoTranscript | null>(null);
   const [formData, setFormData] = useState<VideoEmbedding>({
     video_id: videoId,
     topic: null,
@@ -149,6 +151,13 @@ export const VideoEmbeddingsEditor: React.FC<VideoEmbeddingsEditorProps> = ({
     }));
   };
 
+  const handleUseTranscript = (text: string) => {
+    if (formData.script && formData.script !== text && !window.confirm('Replace the current script with the transcript?')) {
+      return;
+    }
+    handleChange('script', text);
+  };
+
   const handlePreviewJson = async () => {
     setJsonLoading(true);
     setJsonError(null);
@@ -465,7 +474,7 @@ export const VideoEmbeddingsEditor: React.FC<VideoEmbeddingsEditorProps> = ({
           backgroundColor: '#161b22',
           borderRadius: '12px',
           width: '100%',
-          maxWidth: '850px',
+          maxWidth: '1200px',
           maxHeight: '90vh',
           overflow: 'auto',
           boxShadow: '0 24px 48px rgba(0, 0, 0, 0.6)',
@@ -566,44 +575,91 @@ export const VideoEmbeddingsEditor: React.FC<VideoEmbeddingsEditorProps> = ({
                 )}
 
 
-                <div style={{ display: 'flex', flexDirection: 'column', gap: '1.75rem' }}>
-                  {textAreaFields.map((field) => (
-                    <div key={field.key}>
-                      <label
-                        style={{
-                          display: 'block',
-                          marginBottom: '0.6rem',
-                          fontWeight: 600,
-                          color: '#c9d1d9',
-                          fontSize: '0.9rem',
-                          textTransform: 'capitalize',
-                        }}
-                      >
-                        {field.label}
-                      </label>
-                      <textarea
-                        value={formData[field.key] || ''}
-                        onChange={(e) => handleChange(field.key, e.target.value)}
-                        style={{
-                          width: '100%',
-                          minHeight: field.key === 'script' ? '180px' : '90px',
-                          padding: '1rem',
-                          border: '1px solid #30363d',
-                          borderRadius: '8px',
-                          fontSize: '0.9375rem',
-                          fontFamily: 'inherit',
-                          resize: 'vertical',
-                          backgroundColor: '#0d1117',
-                          color: '#c9d1d9',
-                          outline: 'none',
-                          transition: 'border-color 0.2s'
-                        }}
-                        onFocus={(e) => e.target.style.borderColor = '#1f6feb'}
-                        onBlur={(e) => e.target.style.borderColor = '#30363d'}
-                        placeholder={`Enter ${field.label.toLowerCase()}...`}
-                      />
-                    </div>
-                  ))}
+                {transcript && !formData.script && (
+                  <div
+                    style={{
+                      padding: '0.875rem 1.25rem',
+                      backgroundColor: '#0c2d6b',
+                      color: '#c9d1d9',
+                      borderRadius: '8px',
+                      marginBottom: '1.5rem',
+                      border: '1px solid #1f6feb',
+                      fontSize: '0.9rem',
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      alignItems: 'center',
+                      gap: '1rem',
+                    }}
+                  >
+                    <span>This video has a transcript. Fill the empty script field with it?</span>
+                    <button
+                      type="button"
+                      onClick={() => handleUseTranscript(transcript.text)}
+                      style={{
+                        padding: '0.4rem 1rem',
+                        backgroundColor: '#1f6feb',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '6px',
+                        cursor: 'pointer',
+                        fontSize: '0.85rem',
+                        fontWeight: 600,
+                        flexShrink: 0,
+                      }}
+                    >
+                      Fill script
+                    </button>
+                  </div>
+                )}
+
+                <div style={{ display: 'flex', gap: '1.5rem', alignItems: 'flex-start' }}>
+                  <div style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column', gap: '1.75rem' }}>
+                    {textAreaFields.map((field) => (
+                      <div key={field.key}>
+                        <label
+                          style={{
+                            display: 'block',
+                            marginBottom: '0.6rem',
+                            fontWeight: 600,
+                            color: '#c9d1d9',
+                            fontSize: '0.9rem',
+                            textTransform: 'capitalize',
+                          }}
+                        >
+                          {field.label}
+                        </label>
+                        <textarea
+                          value={formData[field.key] || ''}
+                          onChange={(e) => handleChange(field.key, e.target.value)}
+                          style={{
+                            width: '100%',
+                            minHeight: field.key === 'script' ? '180px' : '90px',
+                            padding: '1rem',
+                            border: '1px solid #30363d',
+                            borderRadius: '8px',
+                            fontSize: '0.9375rem',
+                            fontFamily: 'inherit',
+                            resize: 'vertical',
+                            backgroundColor: '#0d1117',
+                            color: '#c9d1d9',
+                            outline: 'none',
+                            transition: 'border-color 0.2s'
+                          }}
+                          onFocus={(e) => e.target.style.borderColor = '#1f6feb'}
+                          onBlur={(e) => e.target.style.borderColor = '#30363d'}
+                          placeholder={`Enter ${field.label.toLowerCase()}...`}
+                        />
+                      </div>
+                    ))}
+                  </div>
+
+                  <div style={{ width: '360px', flexShrink: 0, position: 'sticky', top: '7rem' }}>
+                    <TranscriptPanel
+                      videoId={videoId}
+                      onTranscriptLoaded={setTranscript}
+                      onUseAsScript={handleUseTranscript}
+                    />
+                  </div>
                 </div>
               </>
             )}
@@ -6,14 +6,21 @@ interface DataPoint {
   label: string;
 }
 
+export interface ChartMarker {
+  date: Date;
+  label: string;
+}
+
 interface ViewsChartProps {
   data: DataPoint[];
+  markers?: ChartMarker[];
   height?: number;
   width?: number;
 }
 
 export const ViewsChart: React.FC<ViewsChartProps> = ({ 
   data, 
+  markers = [],
   height = 300, 
   width = 800 
 }) => {
@@ -53,6 +60,21 @@ export const ViewsChart: React.FC<ViewsChartProps> = ({
     return (index / (data.length - 1 || 1)) * chartWidth;
   };
 
+  // Place a date on the index-based X axis, between the snapshots around it
+  const scaleDate = (date: Date) => {
+    const time = date.getTime();
+    if (time <= data[0].date.getTime()) return 0;
+    for (let i = 0; i < data.length - 1; i++) {
+      const start = data[i].date.getTime();
+      const end = data[i + 1].date.getTime();
+      if (time <= end) {
+        const fraction = end > start ? (time - start) / (end - start) : 1;
+        return scaleX(i + fraction);
+      }
+    }
+    return scaleX(data.length - 1);
+  };
+
   // Generate path for line
   const pathData = data
     .map((point, index) => {
@@ -191,6 +213,36 @@ export const ViewsChart: React.FC<ViewsChartProps> = ({
             strokeLinejoin="round"
           />
 
+          {/* Metadata change markers */}
+          {markers.map((marker, index) => {
+            const x = scaleDate(marker.date);
+            return (
+              <g key={`marker-${index}`}>
+                <line
+                  x1={x}
+                  y1={0}
+                  x2={x}
+                  y2={chartHeight}
+                  stroke="#d29922"
+                  strokeWidth="2"
+                  strokeDasharray="6,4"
+                />
+                <rect
+                  x={x - 5}
+                  y={-5}
+                  width="10"
+                  height="10"
+                  fill="#d29922"
+                  transform={`rotate(45 ${x} 0)`}
+                />
+                {/* Wide transparent hit area for the tooltip */}
+                <rect x={x - 6} y={0} width="12" height={chartHeight} fill="transparent">
+                  <title>{marker.label}</title>
+                </rect>
+              </g>
+            );
+          })}
+
           {/* Data points */}
           {data.map((point, index) => {
             const x = scaleX(index);